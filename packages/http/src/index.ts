@@ -16,4 +16,5 @@ export {HttpRequest} from './request';
 export {HttpDownloadProgressEvent, HttpErrorResponse, HttpEvent, HttpEventType, HttpHeaderResponse, HttpProgressEvent, HttpResponse, HttpResponseBase, HttpSentEvent, HttpUserEvent} from './response';
 export {HttpXhrBackend, XhrFactory} from './xhr';
 export {HttpXsrfTokenExtractor} from './xsrf';
-export {ServerXhr, zoneWrappedInterceptingHandler} from './server';
\ No newline at end of file
+export {ServerXhr, zoneWrappedInterceptingHandler} from './server';
+export {HttpTracingInterceptor} from './tracing';
\ No newline at end of file
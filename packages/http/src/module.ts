@@ -17,6 +17,7 @@ import {HttpEvent} from './response';
 import {BrowserXhr, HttpXhrBackend, XhrFactory} from './xhr';
 import {HttpXsrfInterceptor, HttpXsrfTokenExtractor, XSRF_COOKIE_NAME, XSRF_HEADER_NAME} from './xsrf';
 import { ServerXhr, zoneWrappedInterceptingHandler } from './server';
+import {HttpTracingInterceptor} from './tracing';
 
 /**
  * An injectable `HttpHandler` that applies multiple interceptors
@@ -135,7 +136,8 @@ export class HttpClientXsrfModule {
  * An NgModule that provides the `HttpClient` and associated services.
  *
  * Interceptors can be added to the chain behind `HttpClient` by binding them
- * to the multiprovider for `HTTP_INTERCEPTORS`.
+ * to the multiprovider for `HTTP_INTERCEPTORS`. Outgoing requests made while a
+ * trace is in progress propagate it (see `HttpTracingInterceptor`).
  *
  *
  */
@@ -155,6 +157,8 @@ export class HttpClientXsrfModule {
   providers: [
     HttpClient,
     {provide: HttpHandler, useClass: HttpInterceptingHandler},
+    HttpTracingInterceptor,
+    {provide: HTTP_INTERCEPTORS, useExisting: HttpTracingInterceptor, multi: true},
     HttpXhrBackend,
     {provide: HttpBackend, useExisting: HttpXhrBackend},
     BrowserXhr,
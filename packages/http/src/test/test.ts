@@ -9,6 +9,7 @@ suite()
         '**/params.test.js',
         '**/request.test.js',
         '**/response.test.js',
+        '**/tracing.test.js',
         '**/xhr.test.js',
         '**/xsrf.test.js',
     ])
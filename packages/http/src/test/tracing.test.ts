@@ -0,0 +1,59 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import {describe, it, beforeEach} from 'razmin';
+import {expect} from 'chai';
+import {InMemorySpanExporter, Tracer} from '@alterior/runtime';
+
+import {HttpRequest} from '../request';
+import {HttpTracingInterceptor} from '../tracing';
+
+import {HttpClientTestingBackend} from '../testing/backend';
+
+{
+  describe('HttpTracingInterceptor', () => {
+    let backend: HttpClientTestingBackend;
+    let exporter: InMemorySpanExporter;
+    let tracer: Tracer;
+    const interceptor = new HttpTracingInterceptor();
+    beforeEach(() => {
+      backend = new HttpClientTestingBackend();
+      exporter = new InMemorySpanExporter();
+      tracer = new Tracer([exporter]);
+    });
+    it('propagates the current trace to outgoing requests', () => {
+      tracer.trace('parent', parent => {
+        interceptor.intercept(new HttpRequest('GET', '/test'), backend).subscribe();
+        const req = backend.expectOne('/test');
+        const traceparent = req.request.headers.get('traceparent');
+        expect(traceparent).to.match(new RegExp(`^00-${parent.traceId}-[0-9a-f]{16}-01$`));
+        req.flush({});
+      });
+
+      const [client, parent] = exporter.spans;
+      expect(client.kind).to.equal('client');
+      expect(client.parentSpanId).to.equal(parent.spanId);
+      expect(client.attributes['http.status_code']).to.equal(200);
+    });
+    it('records failed requests', () => {
+      tracer.trace('parent', () => {
+        interceptor.intercept(new HttpRequest('GET', '/test'), backend).subscribe({error: () => {}});
+        backend.expectOne('/test').flush({}, {status: 500, statusText: 'Internal Server Error'});
+      });
+
+      expect(exporter.spans[0].status).to.equal('error');
+      expect(exporter.spans[0].attributes['http.status_code']).to.equal(500);
+    });
+    it('does not trace requests made outside of a trace', () => {
+      interceptor.intercept(new HttpRequest('GET', '/test'), backend).subscribe();
+      const req = backend.expectOne('/test');
+      expect(req.request.headers.has('traceparent')).to.equal(false);
+      req.flush({});
+      expect(exporter.spans.length).to.equal(0);
+    });
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import {Injectable} from '@alterior/di';
+import {Tracer} from '@alterior/runtime';
+import {Observable, Observer} from 'rxjs';
+
+import {HttpHandler} from './backend';
+import {HttpInterceptor} from './interceptor';
+import {HttpRequest} from './request';
+import {HttpEvent, HttpResponseBase} from './response';
+
+/**
+ * `HttpInterceptor` which traces outgoing requests when a trace is in progress (see `Tracer` from
+ * `@alterior/runtime`). Each request is traced by a client span, and the trace is propagated to the
+ * server via the W3C `traceparent` header. Requests made outside of a trace are left alone.
+ */
+@Injectable()
+export class HttpTracingInterceptor implements HttpInterceptor {
+  intercept(req: HttpRequest<any>, next: HttpHandler): Observable<HttpEvent<any>> {
+    const parent = Tracer.currentSpan;
+
+    // Don't overwrite a trace context which was set explicitly.
+    if (!parent || req.headers.has('traceparent')) {
+      return next.handle(req);
+    }
+
+    return new Observable((observer: Observer<HttpEvent<any>>) => {
+      const span = parent.tracer.startSpan(req.method, {
+        kind: 'client',
+        parent,
+        attributes: {'http.method': req.method, 'http.url': req.urlWithParams},
+      });
+
+      const setHeaders: {[name: string]: string} = {'traceparent': span.traceparent};
+      if (span.context.traceState) {
+        setHeaders['tracestate'] = span.context.traceState;
+      }
+
+      const sub = next.handle(req.clone({setHeaders})).subscribe(
+          event => {
+            if (event instanceof HttpResponseBase) {
+              span.setAttribute('http.status_code', event.status);
+            }
+            observer.next(event);
+          },
+          error => {
+            if (error instanceof HttpResponseBase) {
+              span.setAttribute('http.status_code', error.status);
+            }
+            span.recordException(error);
+            span.end();
+            observer.error(error);
+          },
+          () => {
+            span.end();
+            observer.complete();
+          });
+
+      return () => {
+        sub.unsubscribe();
+        span.end();
+      };
+    });
+  }
+}
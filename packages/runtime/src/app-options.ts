@@ -44,7 +44,8 @@ export interface ApplicationOptions {
 
 	/**
 	 * Whether to start the service immediately on startup.
-	 * Defaults to true.
+	 * Defaults to true. If starting fails (ie a role fails to start), the error is reported and the process exits.
+	 * Disable this and call `Application.start()` to handle such failures yourself.
 	 */
 	autostart?: boolean;
 
@@ -53,6 +54,15 @@ export interface ApplicationOptions {
 	 */
 	silent?: boolean;
 
+	/**
+	 * The process signals which cause the application to stop gracefully (allowing its roles to finish their work, 
+	 * for instance by waiting for in-flight web requests) and then exit. Sending one of these signals again while the 
+	 * application is stopping exits immediately. When `true`, `SIGTERM` and `SIGINT` are handled. By default, signals 
+	 * are only handled once a long-running role (such as the web server of `@alterior/web-server`) starts. Set to 
+	 * `false` to handle signals yourself.
+	 */
+	shutdownSignals?: NodeJS.Signals[] | boolean;
+
 	/**
 	 * Additional dependency injection providers to include in the application's injector.
 	 */
@@ -12,6 +12,9 @@ import { ApplicationOptions, AppOptionsAnnotation } from './app-options';
 import { ApplicationArgs } from './args';
 import { Runtime } from './modules';
 import { RolesService } from './roles.service';
+import { HealthService } from './health';
+import { MetricsRegistry } from './metrics';
+import { Tracer } from './tracing';
 
 export class ApplicationOptionsRef {
 	constructor(
@@ -71,6 +74,84 @@ export class ExecutionContext {
 	}
 }
 
+/**
+ * Receives the messages reported while stopping the application because of a shutdown signal. Compatible with the 
+ * `Logger` of `@alterior/logging`.
+ */
+export interface ShutdownLogger {
+	info(message: string): void;
+	error(message: string): void;
+}
+
+const DEFAULT_SHUTDOWN_SIGNALS: NodeJS.Signals[] = [ 'SIGTERM', 'SIGINT' ];
+const SHUTDOWN_HANDLERS = new Map<NodeJS.Signals, { applications: Map<Application, ShutdownLogger>, listener: () => void }>();
+
+/**
+ * Stop the given application when any of the given signals is received by the process, then re-raise the signal so 
+ * that the process exits with the status expected for it. Only one listener is installed per signal, regardless of 
+ * how many applications are running.
+ */
+function handleShutdownSignals(application: Application, signals: NodeJS.Signals[], logger: ShutdownLogger) {
+	for (let signal of signals) {
+		let handler = SHUTDOWN_HANDLERS.get(signal);
+
+		if (!handler) {
+			let stopping = false;
+			let applications = new Map<Application, ShutdownLogger>();
+			let listener = async () => {
+				if (stopping) {
+					process.exit(1);
+					return;
+				}
+
+				stopping = true;
+
+				let failed = false;
+				await Promise.all(Array.from(applications.entries()).map(async ([ application, logger ]) => {
+					if (!application.options.silent)
+						logger.info(`Received ${signal}, stopping...`);
+
+					try {
+						await application.stop();
+					} catch (e) {
+						logger.error(`Failed to stop gracefully: ${e?.stack ?? e}`);
+						failed = true;
+					}
+				}));
+
+				if (failed) {
+					process.exit(1);
+					return;
+				}
+
+				process.off(signal, listener);
+				process.kill(process.pid, signal);
+			};
+
+			handler = { applications, listener };
+			SHUTDOWN_HANDLERS.set(signal, handler);
+			process.on(signal, listener);
+		}
+
+		handler.applications.set(application, logger);
+	}
+}
+
+/**
+ * Stop handling shutdown signals for the given application, removing the listener for any signal which no longer 
+ * applies to any application.
+ */
+function releaseShutdownSignals(application: Application) {
+	for (let [ signal, handler ] of Array.from(SHUTDOWN_HANDLERS.entries())) {
+		handler.applications.delete(application);
+
+		if (handler.applications.size === 0) {
+			process.off(signal, handler.listener);
+			SHUTDOWN_HANDLERS.delete(signal);
+		}
+	}
+}
+
 /**
  * Handles bootstrapping the application.
  */
@@ -80,12 +161,34 @@ export class Application {
 	private _optionsRef = inject(ApplicationOptionsRef);
 	private _args = inject(ApplicationArgs);
 	
-	public start() {
-		this.runtime.start();
+	/**
+	 * Start the application. Resolves once all modules and roles have started.
+	 */
+	public async start() {
+		await this.runtime.start();
 	}
 
-	public stop() {
-		this.runtime.stop();
+	/**
+	 * Stop the application. Resolves once all roles have stopped.
+	 */
+	public async stop() {
+		releaseShutdownSignals(this);
+		await this.runtime.stop();
+	}
+
+	/**
+	 * Stop the application gracefully and exit when the process receives one of the signals of the `shutdownSignals` 
+	 * option (`SIGTERM` and `SIGINT` unless a list of signals is given). Does nothing when the option is `false`. 
+	 * Long-running roles (such as the web server of `@alterior/web-server`) call this when they start.
+	 * 
+	 * @param logger Receives the messages reported while stopping. Defaults to the console.
+	 */
+	public handleShutdownSignals(logger: ShutdownLogger = console) {
+		let signals = this.options.shutdownSignals;
+		if (signals === false)
+			return;
+
+		handleShutdownSignals(this, Array.isArray(signals) ? signals : DEFAULT_SHUTDOWN_SIGNALS, logger);
 	}
 
 	get injector() {
@@ -153,6 +256,9 @@ export class Application {
 			let providers: Provider[] = [
 				ApplicationArgs,
 				RolesService,
+				HealthService,
+				MetricsRegistry,
+				Tracer,
 				Environment,
 				Time
 			];
@@ -195,10 +301,16 @@ export class Application {
 				process.exit(0);
 			}
 			
-			if (options.autostart)
-				runtime.start();
+			if (options.autostart) {
+				runtime.start().catch(e => {
+					console.error(`Failed to start application:`);
+					console.error(e);
+					process.exit(1);
+				});
+			}
 
-			runtime.fireEvent('AfterStart');
+			if (options.shutdownSignals)
+				executionContext.application.handleShutdownSignals();
 
 			return executionContext.application;
 		});
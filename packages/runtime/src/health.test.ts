@@ -0,0 +1,76 @@
+import { describe, it } from 'razmin';
+import { Module } from '@alterior/di';
+import { expect } from 'chai';
+import { Application } from './application';
+import { HealthCheck, HealthService, HEALTH_CHECKS } from './health';
+
+function createModule(checks: HealthCheck[], started?: Promise<void>) {
+    @Module({
+        providers: checks.map(check => ({ provide: HEALTH_CHECKS, useValue: check, multi: true }))
+    })
+    class TestModule {
+        async altOnStart() {
+            await started;
+        }
+    }
+
+    return TestModule;
+}
+
+describe("HealthService", () => {
+    it('runs the contributed checks', async () => {
+        let app = Application.bootstrap(createModule([
+            { name: 'database', check: () => ({ connections: 3 }) },
+            { name: 'queue', check: async () => { throw new Error('Connection refused'); } },
+            { name: 'process', liveness: true, check: () => {} }
+        ]), { silent: true, autostart: false, shutdownSignals: false });
+
+        await app.start();
+
+        let health = app.inject(HealthService);
+        let readiness = await health.checkReadiness();
+
+        expect(readiness.status).to.equal('fail');
+        expect(readiness.checks.database.status).to.equal('pass');
+        expect(readiness.checks.database.details).to.eql({ connections: 3 });
+        expect(readiness.checks.queue.status).to.equal('fail');
+        expect(readiness.checks.queue.error).to.equal('Connection refused');
+        expect(readiness.checks.lifecycle.status).to.equal('pass');
+
+        let liveness = await health.checkLiveness();
+
+        expect(liveness.status).to.equal('pass');
+        expect(Object.keys(liveness.checks)).to.eql([ 'process' ]);
+    });
+
+    it('fails checks which time out', async () => {
+        let app = Application.bootstrap(createModule([
+            { name: 'slow', timeout: 20, check: () => new Promise(() => {}) }
+        ]), { silent: true, shutdownSignals: false });
+
+        let report = await app.inject(HealthService).checkReadiness();
+
+        expect(report.checks.slow.status).to.equal('fail');
+        expect(report.checks.slow.error).to.equal('Timed out after 20ms');
+    });
+
+    it('is not ready until started, nor while stopping', async () => {
+        let finishStarting: () => void;
+        let started = new Promise<void>(resolve => finishStarting = resolve);
+        let app = Application.bootstrap(createModule([], started), { silent: true, shutdownSignals: false });
+        let health = app.inject(HealthService);
+
+        let report = await health.checkReadiness();
+        expect(report.status).to.equal('fail');
+        expect(report.checks.lifecycle.details).to.eql({ state: 'starting' });
+
+        finishStarting();
+        await new Promise(resolve => setTimeout(resolve, 1));
+
+        expect((await health.checkReadiness()).status).to.equal('pass');
+
+        let stopping = app.stop();
+        expect((await health.checkReadiness()).status).to.equal('fail');
+        await stopping;
+    });
+});
@@ -0,0 +1,147 @@
+import { Inject, Injectable, InjectionToken, Optional } from "@alterior/di";
+import { Runtime } from "./modules";
+
+export type HealthStatus = 'pass' | 'fail';
+
+/**
+ * A check which contributes to the health of the application, such as pinging a database or verifying the
+ * connection to a queue. Contribute checks to the `HEALTH_CHECKS` token using multi providers:
+ *
+ * ```typescript
+ * @Module({
+ *     providers: [
+ *         { provide: HEALTH_CHECKS, useClass: DatabaseHealthCheck, multi: true }
+ *     ]
+ * })
+ * ```
+ */
+export interface HealthCheck {
+    /**
+     * The name of the check, used to identify it within health reports.
+     */
+    name : string;
+
+    /**
+     * Perform the check. The check fails if this throws (or rejects), and passes otherwise. Any value returned is
+     * included in the health report as `details`.
+     */
+    check() : any;
+
+    /**
+     * How long (in milliseconds) the check may take before it is considered failed. Defaults to 5000.
+     */
+    timeout? : number;
+
+    /**
+     * Whether the check also applies to liveness (in addition to readiness). Only checks which indicate that the
+     * process cannot recover without being restarted should apply to liveness. Defaults to false.
+     */
+    liveness? : boolean;
+}
+
+export const HEALTH_CHECKS = new InjectionToken<HealthCheck[]>('HEALTH_CHECKS');
+
+export interface HealthCheckResult {
+    status : HealthStatus;
+
+    /**
+     * How long the check took, in milliseconds.
+     */
+    duration : number;
+
+    /**
+     * The value returned by the check, if any.
+     */
+    details? : any;
+
+    /**
+     * The reason the check failed, if it did.
+     */
+    error? : string;
+}
+
+export interface HealthReport {
+    status : HealthStatus;
+    checks : Record<string, HealthCheckResult>;
+}
+
+/**
+ * Runs the health checks contributed via `HEALTH_CHECKS`. Readiness also requires that the application has finished
+ * starting (all `altOnStart()` methods have completed and roles have started) and has not begun stopping.
+ */
+@Injectable()
+export class HealthService {
+    constructor(
+        private runtime : Runtime,
+        @Optional() @Inject(HEALTH_CHECKS) checks : HealthCheck[]
+    ) {
+        this.checks = checks ?? [];
+    }
+
+    readonly checks : HealthCheck[];
+
+    /**
+     * The default timeout (in milliseconds) for checks which do not specify one.
+     */
+    defaultTimeout = 5000;
+
+    /**
+     * Determine whether the application is alive, by running the checks which apply to liveness.
+     */
+    async checkLiveness(): Promise<HealthReport> {
+        return await this.run(this.checks.filter(x => x.liveness), {});
+    }
+
+    /**
+     * Determine whether the application is ready to handle work, by running all checks.
+     */
+    async checkReadiness(): Promise<HealthReport> {
+        let state = this.runtime.state;
+
+        return await this.run(this.checks, {
+            lifecycle: {
+                status: state === 'started' ? 'pass' : 'fail',
+                duration: 0,
+                details: { state }
+            }
+        });
+    }
+
+    private async run(checks : HealthCheck[], results : Record<string, HealthCheckResult>): Promise<HealthReport> {
+        await Promise.all(checks.map(async check => results[check.name] = await this.runCheck(check)));
+
+        return {
+            status: Object.values(results).every(x => x.status === 'pass') ? 'pass' : 'fail',
+            checks: results
+        };
+    }
+
+    private async runCheck(check : HealthCheck): Promise<HealthCheckResult> {
+        let startedAt = Date.now();
+        let timeout = check.timeout ?? this.defaultTimeout;
+        let timer : ReturnType<typeof setTimeout>;
+
+        try {
+            let details = await Promise.race([
+                Promise.resolve().then(() => check.check()),
+                new Promise((_, reject) => {
+                    timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout);
+                })
+            ]);
+
+            return {
+                status: 'pass',
+                duration: Date.now() - startedAt,
+                ...(details !== undefined ? { details } : {})
+            };
+        } catch (e) {
+            return {
+                status: 'fail',
+                duration: Date.now() - startedAt,
+                error: e?.message ?? String(e)
+            };
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
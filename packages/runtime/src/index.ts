@@ -5,5 +5,8 @@ export * from './application';
 export * from './modules';
 export * from './reflector';
 export * from './roles.service';
+export * from './health';
+export * from './metrics';
+export * from './tracing';
 export * from './service';
 export * from './expose';
\ No newline at end of file
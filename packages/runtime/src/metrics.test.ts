@@ -0,0 +1,57 @@
+import { describe, it } from 'razmin';
+import { expect } from 'chai';
+import { MetricsRegistry } from './metrics';
+
+describe("MetricsRegistry", () => {
+    it('renders counters and gauges in the Prometheus format', () => {
+        let registry = new MetricsRegistry();
+        let requests = registry.counter('requests_total', 'Requests handled', [ 'path' ]);
+        let inFlight = registry.gauge('requests_in_flight', 'Requests being handled');
+
+        requests.inc({ path: '/a' });
+        requests.inc({ path: '/a' });
+        requests.inc({ path: '/b"\n' }, 3);
+        inFlight.inc();
+        inFlight.inc();
+        inFlight.dec();
+
+        expect(registry.counter('requests_total', 'Requests handled', [ 'path' ])).to.equal(requests);
+        expect(registry.render()).to.equal(
+            `# HELP requests_total Requests handled\n`
+            + `# TYPE requests_total counter\n`
+            + `requests_total{path="/a"} 2\n`
+            + `requests_total{path="/b\\"\\n"} 3\n`
+            + `# HELP requests_in_flight Requests being handled\n`
+            + `# TYPE requests_in_flight gauge\n`
+            + `requests_in_flight 1\n`
+        );
+    });
+
+    it('renders histograms with cumulative buckets', () => {
+        let registry = new MetricsRegistry();
+        let duration = registry.histogram('duration_seconds', 'Duration', [ 'route' ], [ 0.1, 1 ]);
+
+        duration.observe({ route: '/a' }, 0.05);
+        duration.observe({ route: '/a' }, 0.5);
+        duration.observe({ route: '/a' }, 5);
+
+        expect(registry.render()).to.equal(
+            `# HELP duration_seconds Duration\n`
+            + `# TYPE duration_seconds histogram\n`
+            + `duration_seconds_bucket{route="/a",le="0.1"} 1\n`
+            + `duration_seconds_bucket{route="/a",le="1"} 2\n`
+            + `duration_seconds_bucket{route="/a",le="+Inf"} 3\n`
+            + `duration_seconds_sum{route="/a"} 5.55\n`
+            + `duration_seconds_count{route="/a"} 3\n`
+        );
+    });
+
+    it('rejects conflicting registrations', () => {
+        let registry = new MetricsRegistry();
+        registry.counter('things_total', 'Things');
+
+        expect(() => registry.gauge('things_total', 'Things')).to.throw();
+        expect(() => registry.counter('things total', 'Things')).to.throw();
+        expect(() => registry.counter('things_total', 'Things').inc({}, -1)).to.throw();
+    });
+});
@@ -0,0 +1,278 @@
+import { Injectable } from "@alterior/di";
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+export type MetricLabels = Record<string, string | number>;
+
+/**
+ * The default histogram buckets (in seconds), suitable for measuring request latency.
+ */
+export const DEFAULT_BUCKETS = [ 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10 ];
+
+function escapeLabelValue(value : string) {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels : [ string, string ][]) {
+    if (labels.length === 0)
+        return '';
+
+    return `{${labels.map(([ name, value ]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value : number) {
+    if (value === Infinity)
+        return '+Inf';
+    if (value === -Infinity)
+        return '-Inf';
+    return String(value);
+}
+
+/**
+ * Base class for metrics. Each metric has a fixed set of label names, and tracks a separate value for each distinct
+ * combination of label values.
+ */
+export abstract class Metric<T> {
+    constructor(
+        readonly name : string,
+        readonly help : string,
+        readonly labelNames : string[] = []
+    ) {
+        if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(name))
+            throw new Error(`Invalid metric name '${name}'`);
+    }
+
+    abstract readonly type : MetricType;
+
+    protected series = new Map<string, { labels : [ string, string ][], value : T }>();
+
+    protected getSeries(labels : MetricLabels, create : () => T): T {
+        let values : [ string, string ][] = this.labelNames.map(name => [ name, String(labels?.[name] ?? '') ]);
+        let key = values.map(x => x[1]).join('\u0000');
+        let series = this.series.get(key);
+
+        if (!series)
+            this.series.set(key, series = { labels: values, value: create() });
+
+        return series.value;
+    }
+
+    /**
+     * Remove all recorded values.
+     */
+    reset() {
+        this.series.clear();
+    }
+
+    /**
+     * Render the sample lines of this metric in the Prometheus text exposition format.
+     */
+    protected abstract renderSamples(labels : [ string, string ][], value : T): string[];
+
+    /**
+     * Render this metric in the Prometheus text exposition format.
+     */
+    render(): string {
+        let lines = [
+            `# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+            `# TYPE ${this.name} ${this.type}`
+        ];
+
+        for (let { labels, value } of this.series.values())
+            lines.push(...this.renderSamples(labels, value));
+
+        return lines.join("\n");
+    }
+}
+
+/**
+ * A value which only increases, such as the number of requests handled.
+ */
+export class Counter extends Metric<{ value : number }> {
+    readonly type = 'counter';
+
+    inc(labels? : MetricLabels, amount = 1) {
+        if (amount < 0)
+            throw new Error(`Counter '${this.name}' cannot be decreased`);
+
+        this.getSeries(labels, () => ({ value: 0 })).value += amount;
+    }
+
+    get(labels? : MetricLabels) {
+        return this.getSeries(labels, () => ({ value: 0 })).value;
+    }
+
+    protected renderSamples(labels : [ string, string ][], series : { value : number }) {
+        return [ `${this.name}${formatLabels(labels)} ${formatValue(series.value)}` ];
+    }
+}
+
+/**
+ * A value which can increase and decrease, such as the number of requests currently being handled.
+ */
+export class Gauge extends Metric<{ value : number }> {
+    readonly type = 'gauge';
+
+    set(labels : MetricLabels, value : number) {
+        this.getSeries(labels, () => ({ value: 0 })).value = value;
+    }
+
+    inc(labels? : MetricLabels, amount = 1) {
+        this.getSeries(labels, () => ({ value: 0 })).value += amount;
+    }
+
+    dec(labels? : MetricLabels, amount = 1) {
+        this.inc(labels, -amount);
+    }
+
+    get(labels? : MetricLabels) {
+        return this.getSeries(labels, () => ({ value: 0 })).value;
+    }
+
+    protected renderSamples(labels : [ string, string ][], series : { value : number }) {
+        return [ `${this.name}${formatLabels(labels)} ${formatValue(series.value)}` ];
+    }
+}
+
+interface HistogramSeries {
+    counts : number[];
+    sum : number;
+    count : number;
+}
+
+/**
+ * Tracks the distribution of observed values (such as request durations) within a set of buckets.
+ */
+export class Histogram extends Metric<HistogramSeries> {
+    constructor(
+        name : string,
+        help : string,
+        labelNames : string[] = [],
+        buckets : number[] = DEFAULT_BUCKETS
+    ) {
+        super(name, help, labelNames);
+
+        if (labelNames.includes('le'))
+            throw new Error(`Histogram '${name}' cannot use the reserved label 'le'`);
+
+        this.buckets = buckets.slice().sort((a, b) => a - b);
+    }
+
+    readonly type = 'histogram';
+    readonly buckets : number[];
+
+    observe(labels : MetricLabels, value : number) {
+        let series = this.getSeries(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 }));
+
+        for (let i = 0, max = this.buckets.length; i < max; ++i) {
+            if (value <= this.buckets[i])
+                series.counts[i] += 1;
+        }
+
+        series.sum += value;
+        series.count += 1;
+    }
+
+    /**
+     * Start a timer. Call the returned function to observe the elapsed time (in seconds).
+     */
+    startTimer(labels? : MetricLabels): (labels? : MetricLabels) => number {
+        let startedAt = process.hrtime.bigint();
+
+        return (endLabels? : MetricLabels) => {
+            let seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+            this.observe({ ...labels, ...endLabels }, seconds);
+            return seconds;
+        };
+    }
+
+    get(labels? : MetricLabels) {
+        let series = this.getSeries(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 }));
+        return { buckets: this.buckets.slice(), counts: series.counts.slice(), sum: series.sum, count: series.count };
+    }
+
+    protected renderSamples(labels : [ string, string ][], series : HistogramSeries) {
+        return [
+            ...this.buckets.map((bucket, i) =>
+                `${this.name}_bucket${formatLabels([ ...labels, [ 'le', formatValue(bucket) ] ])} ${series.counts[i]}`
+            ),
+            `${this.name}_bucket${formatLabels([ ...labels, [ 'le', '+Inf' ] ])} ${series.count}`,
+            `${this.name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`,
+            `${this.name}_count${formatLabels(labels)} ${series.count}`
+        ];
+    }
+}
+
+/**
+ * Holds the metrics of the application, and renders them in the Prometheus text exposition format (see
+ * `MetricsController` from `@alterior/web-server`). Metrics are created on first use, so modules can declare the
+ * metrics they record independently:
+ *
+ * ```typescript
+ * let processed = metrics.counter('orders_processed_total', 'Orders processed', [ 'region' ]);
+ * processed.inc({ region: 'eu' });
+ * ```
+ */
+@Injectable()
+export class MetricsRegistry {
+    private metrics = new Map<string, Metric<any>>();
+
+    /**
+     * The content type of the output of `render()`.
+     */
+    static readonly CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+    get all(): Metric<any>[] {
+        return Array.from(this.metrics.values());
+    }
+
+    get(name : string): Metric<any> {
+        return this.metrics.get(name);
+    }
+
+    /**
+     * Get the counter with the given name, creating it if necessary.
+     */
+    counter(name : string, help : string, labelNames? : string[]): Counter {
+        return this.getOrCreate(name, Counter, () => new Counter(name, help, labelNames));
+    }
+
+    /**
+     * Get the gauge with the given name, creating it if necessary.
+     */
+    gauge(name : string, help : string, labelNames? : string[]): Gauge {
+        return this.getOrCreate(name, Gauge, () => new Gauge(name, help, labelNames));
+    }
+
+    /**
+     * Get the histogram with the given name, creating it if necessary.
+     */
+    histogram(name : string, help : string, labelNames? : string[], buckets? : number[]): Histogram {
+        return this.getOrCreate(name, Histogram, () => new Histogram(name, help, labelNames, buckets));
+    }
+
+    private getOrCreate<T extends Metric<any>>(name : string, type : Function, create : () => T): T {
+        let metric = this.metrics.get(name);
+
+        if (!metric)
+            this.metrics.set(name, metric = create());
+        else if (!(metric instanceof type))
+            throw new Error(`Metric '${name}' is already registered as a ${metric.type}`);
+
+        return <T>metric;
+    }
+
+    /**
+     * Remove all recorded values (the metrics themselves remain registered).
+     */
+    reset() {
+        for (let metric of this.metrics.values())
+            metric.reset();
+    }
+
+    /**
+     * Render all metrics in the Prometheus text exposition format.
+     */
+    render(): string {
+        return this.all.map(x => x.render()).join("\n") + "\n";
+    }
+}
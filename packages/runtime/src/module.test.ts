@@ -370,5 +370,101 @@ describe("Modules", () => {
         expect(application.runtime).to.exist;
         expect(log).to.eq('123');
     });
-    
+
+    it('only handles shutdown signals when asked to', async () => {
+        @Module()
+        class TestModule {}
+
+        let listeners = process.listenerCount('SIGTERM');
+        let interruptListeners = process.listenerCount('SIGINT');
+        let app = Application.bootstrap(TestModule, { silent: true, autostart: false });
+
+        expect(process.listenerCount('SIGTERM')).to.equal(listeners);
+
+        app.handleShutdownSignals();
+        expect(process.listenerCount('SIGTERM')).to.equal(listeners + 1);
+        expect(process.listenerCount('SIGINT')).to.equal(interruptListeners + 1);
+
+        await app.stop();
+        expect(process.listenerCount('SIGTERM')).to.equal(listeners);
+
+        app = Application.bootstrap(TestModule, { silent: true, autostart: false, shutdownSignals: [ 'SIGTERM' ] });
+        expect(process.listenerCount('SIGTERM')).to.equal(listeners + 1);
+        expect(process.listenerCount('SIGINT')).to.equal(interruptListeners);
+
+        await app.stop();
+
+        app = Application.bootstrap(TestModule, { silent: true, autostart: false, shutdownSignals: false });
+        app.handleShutdownSignals();
+        expect(process.listenerCount('SIGTERM')).to.equal(listeners);
+    });
+
+    it('sends AfterStart once starting has completed', async () => {
+        let log = '';
+        let finishStarting: () => void;
+
+        @Module()
+        class TestModule {
+            async altOnStart() {
+                await new Promise<void>(resolve => finishStarting = resolve);
+                log += 'started,';
+            }
+
+            altAfterStart() {
+                log += 'after-start,';
+            }
+        }
+
+        let app = Application.bootstrap(TestModule, { silent: true, autostart: false });
+        let started = app.start();
+
+        expect(log).to.equal('');
+
+        finishStarting();
+        await started;
+
+        expect(log).to.equal('started,after-start,');
+    });
+
+    it('rejects when starting fails', async () => {
+        @Module()
+        class TestModule {
+            async altOnStart() {
+                throw new Error('Database unavailable');
+            }
+
+            altAfterStart() {
+                throw new Error('Should not be called');
+            }
+        }
+
+        let app = Application.bootstrap(TestModule, { silent: true, autostart: false });
+        let error: Error;
+
+        try {
+            await app.start();
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error?.message).to.equal('Database unavailable');
+    });
+
+    it('waits for altOnStop() when stopping', async () => {
+        let stopped = false;
+
+        @Module()
+        class TestModule {
+            async altOnStop() {
+                await new Promise(resolve => setTimeout(resolve, 10));
+                stopped = true;
+            }
+        }
+
+        let app = Application.bootstrap(TestModule, { silent: true, autostart: false });
+        await app.start();
+        await app.stop();
+
+        expect(stopped).to.be.true;
+    });
 })
\ No newline at end of file
@@ -24,6 +24,8 @@ export class ModuleInstance {
     }
 }
 
+export type RuntimeState = 'stopped' | 'starting' | 'started' | 'stopping';
+
 /**
  * Used to construct a runtime environment for a given entry module.
  * Handles resolving the module tree into an injector as well as constructing
@@ -157,14 +159,28 @@ export class Runtime {
 
     /**
      * Fire an event to all modules which understand it. Should be upper-camel-case, meaning
-     * to fire the altOnStart() method, send "OnStart". 
+     * to fire the altOnStart() method, send "OnStart". Resolves once any promises returned by the handlers resolve.
      * @param eventName 
      */
-    fireEvent(eventName : string) {
+    fireEvent(eventName : string): Promise<void> {
+        let results = [];
+
         for (let modInstance of this.instances) {
             if (modInstance.instance[`alt${eventName}`])
-                modInstance.instance[`alt${eventName}`]();
+                results.push(modInstance.instance[`alt${eventName}`]());
         }
+
+        return Promise.all(results).then(() => {});
+    }
+
+    private _state : RuntimeState = 'stopped';
+
+    /**
+     * The lifecycle state of the runtime. Becomes `started` once `start()` has completed, and `stopping` as soon as 
+     * `stop()` is called.
+     */
+    get state() {
+        return this._state;
     }
 
     private _injector : Injector = null;
@@ -216,16 +232,21 @@ export class Runtime {
     /**
      * Stop any services, as defined by imported modules of this runtime. For instance, if you import WebServerModule 
      * from @alterior/web-server, calling this will instruct the module to stop serving on the configured port. 
-     * Also builds in a timeout to allow for all services and operations to stop before resolving.
+     * Resolves once all roles have stopped.
      * 
      * This will send the `OnStop` lifecycle event to all modules, which triggers the `altOnStop()` method of any module 
      * which implements it to be called. It also instructs the RolesService to stop any roles which are currently running.
      * For more information about Roles, see the documentation for RolesService.
+     * 
+     * Resolves once all `altOnStop()` methods (including any promises they return) have completed and all roles have
+     * stopped.
      */
     async stop() {
-        this.fireEvent('OnStop');
+        this._state = 'stopping';
+        let stopped = this.fireEvent('OnStop');
         let rolesService = this.injector.get(RolesService);
-        rolesService.stopAll();
+        await Promise.all([ stopped, rolesService.stopAll() ]);
+        this._state = 'stopped';
     }
 
     /**
@@ -235,12 +256,22 @@ export class Runtime {
      * This will send the `OnStart` lifecycle event to all modules, which triggers the `altOnStart()` method of any module 
      * which implements it to be called. It also instructs the RolesService to start roles as per it's configuration. 
      * For more information about Roles, see the documentation for RolesService.
+     * 
+     * Resolves once all `altOnStart()` methods (including any promises they return) have completed and all roles have 
+     * started, at which point `state` becomes `started` and the `AfterStart` lifecycle event is sent. Rejects if any 
+     * of them fail.
      */
-    start() {
-        this.fireEvent('OnStart');
+    async start() {
+        this._state = 'starting';
+        let started = this.fireEvent('OnStart');
 
         let rolesService = this.injector.get(RolesService);
-        rolesService.startAll();
+        await Promise.all([ started, rolesService.startAll() ]);
+
+        if (this._state === 'starting')
+            this._state = 'started';
+
+        await this.fireEvent('AfterStart');
     }
 
     /**
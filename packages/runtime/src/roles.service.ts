@@ -175,17 +175,22 @@ export class RolesService {
                 .filter(role => !role.running)
                 .map(async role => {
                     await role.start();
+                    role.running = true;
                     if (!this.silent)
                         console.log(`** [${role.identifier}] Started`);
                 })
         );
     }
 
+    /**
+     * Stop all running roles, resolving once each of them has stopped. Roles may take some time to stop gracefully 
+     * (for instance, the web server waits for in-flight requests to complete).
+     */
     async stopAll() {
-
         await Promise.all(
             this.activeRoles
                 .map(async role => {
+                    role.running = false;
                     await role.stop();
                     if (!this.silent)
                         console.log(`** [${role.identifier}] Stopped`);
@@ -0,0 +1,73 @@
+import { describe, it } from 'razmin';
+import { expect } from 'chai';
+import { formatTraceparent, InMemorySpanExporter, parseTraceparent, Tracer } from './tracing';
+
+describe("Tracing", () => {
+    it('parses and formats traceparent headers', () => {
+        let header = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+        let context = parseTraceparent(header, 'vendor=value');
+
+        expect(context).to.eql({
+            traceId: '0af7651916cd43dd8448eb211c80319c',
+            spanId: 'b7ad6b7169203331',
+            traceFlags: 1,
+            traceState: 'vendor=value'
+        });
+        expect(formatTraceparent(context)).to.equal(header);
+
+        expect(parseTraceparent(undefined)).to.be.undefined;
+        expect(parseTraceparent('garbage')).to.be.undefined;
+        expect(parseTraceparent('ff-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01')).to.be.undefined;
+        expect(parseTraceparent('00-00000000000000000000000000000000-b7ad6b7169203331-01')).to.be.undefined;
+        expect(parseTraceparent('00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01-extra')).to.be.undefined;
+        expect(parseTraceparent('01-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01-extra')).to.exist;
+    });
+
+    it('nests spans started within the current span', async () => {
+        let exporter = new InMemorySpanExporter();
+        let tracer = new Tracer([ exporter ]);
+        let parent = parseTraceparent('00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01');
+
+        await tracer.trace('outer', async outer => {
+            expect(Tracer.currentSpan).to.equal(outer);
+            await new Promise(resolve => setTimeout(resolve, 1));
+
+            tracer.trace('inner', inner => {
+                expect(Tracer.currentSpan).to.equal(inner);
+            });
+
+            expect(Tracer.currentSpan).to.equal(outer);
+        }, { kind: 'server', parent });
+
+        expect(exporter.spans.map(x => x.name)).to.eql([ 'inner', 'outer' ]);
+
+        let [ inner, outer ] = exporter.spans;
+        expect(outer.traceId).to.equal(parent.traceId);
+        expect(outer.parentSpanId).to.equal(parent.spanId);
+        expect(outer.kind).to.equal('server');
+        expect(inner.traceId).to.equal(parent.traceId);
+        expect(inner.parentSpanId).to.equal(outer.spanId);
+        expect(Tracer.currentSpan).to.be.undefined;
+    });
+
+    it('records errors and skips unsampled spans', async () => {
+        let exporter = new InMemorySpanExporter();
+        let tracer = new Tracer([ exporter ]);
+
+        try {
+            await tracer.trace('failing', async () => { throw new Error('Boom'); });
+        } catch (e) {
+        }
+
+        expect(exporter.spans[0].status).to.equal('error');
+        expect(exporter.spans[0].events[0].attributes['exception.message']).to.equal('Boom');
+
+        tracer.startSpan('unsampled', { parent: parseTraceparent('00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-00') }).end();
+        expect(exporter.spans.length).to.equal(1);
+
+        let root = tracer.startSpan('root', { parent: null });
+        expect(root.parentSpanId).to.be.undefined;
+        expect(root.traceId).to.match(/^[0-9a-f]{32}$/);
+        expect(root.traceparent).to.equal(`00-${root.traceId}-${root.spanId}-01`);
+    });
+});
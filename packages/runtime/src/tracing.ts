@@ -0,0 +1,374 @@
+import { Inject, Injectable, InjectionToken, Optional } from "@alterior/di";
+
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+export type SpanStatus = 'unset' | 'ok' | 'error';
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Identifies a span within a trace, as propagated between services via the W3C `traceparent` and `tracestate`
+ * headers.
+ */
+export interface SpanContext {
+    /**
+     * 32 lowercase hex characters.
+     */
+    traceId : string;
+
+    /**
+     * 16 lowercase hex characters.
+     */
+    spanId : string;
+
+    /**
+     * Trace flags. Bit 0 indicates that the trace is sampled (recorded).
+     */
+    traceFlags : number;
+
+    /**
+     * Vendor-specific trace state, as received via the `tracestate` header.
+     */
+    traceState? : string;
+}
+
+export interface SpanEvent {
+    name : string;
+    time : number;
+    attributes? : SpanAttributes;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const CURRENT_SPAN = '@alterior/runtime:Tracer.currentSpan';
+
+/**
+ * Parse the value of a W3C `traceparent` header. Returns undefined if the header is missing or invalid.
+ *
+ * @param traceparent The value of the `traceparent` header
+ * @param tracestate The value of the `tracestate` header, if any
+ */
+export function parseTraceparent(traceparent : string, tracestate? : string): SpanContext {
+    let match = TRACEPARENT_PATTERN.exec(String(traceparent ?? '').trim().toLowerCase());
+    if (!match)
+        return undefined;
+
+    let [ , version, traceId, spanId, flags, rest ] = match;
+
+    // Version ff is forbidden, and version 00 does not allow additional fields
+
+    if (version === 'ff' || (version === '00' && rest))
+        return undefined;
+
+    if (/^0+$/.test(traceId) || /^0+$/.test(spanId))
+        return undefined;
+
+    return {
+        traceId,
+        spanId,
+        traceFlags: parseInt(flags, 16),
+        ...(tracestate ? { traceState: tracestate } : {})
+    };
+}
+
+/**
+ * Format the given span context as the value of a W3C `traceparent` header.
+ */
+export function formatTraceparent(context : SpanContext): string {
+    return `00-${context.traceId}-${context.spanId}-${(context.traceFlags & 0xff).toString(16).padStart(2, '0')}`;
+}
+
+/**
+ * Find a cryptographically secure source of random values: the Web Crypto API where it is global (browsers and 
+ * Node.js 19+), or else the `crypto` module of Node.js.
+ */
+function secureRandom(): (array : Uint8Array) => void {
+    let crypto : { getRandomValues(array : Uint8Array): any } = (<any>globalThis).crypto;
+    if (crypto?.getRandomValues)
+        return array => crypto.getRandomValues(array);
+
+    if (typeof require !== 'undefined') {
+        try {
+            let nodeCrypto = require('crypto');
+            return array => nodeCrypto.randomFillSync(array);
+        } catch (e) {
+        }
+    }
+
+    return undefined;
+}
+
+const fillRandom = secureRandom();
+
+function randomHex(bytes : number) {
+    let values = new Uint8Array(bytes);
+
+    if (fillRandom) {
+        fillRandom(values);
+    } else {
+        for (let i = 0; i < bytes; ++i)
+            values[i] = Math.floor(Math.random() * 256);
+    }
+
+    let hex = Array.from(values, x => x.toString(16).padStart(2, '0')).join('');
+
+    // All-zero IDs are invalid
+    return /^0+$/.test(hex) ? randomHex(bytes) : hex;
+}
+
+/**
+ * A timed operation within a trace. Create spans using `Tracer.startSpan()` or `Tracer.trace()`, and call `end()`
+ * when the operation completes, at which point the span is sent to the tracer's exporters.
+ */
+export class Span {
+    constructor(
+        readonly tracer : Tracer,
+        readonly name : string,
+        readonly context : SpanContext,
+        readonly parentSpanId : string,
+        readonly kind : SpanKind = 'internal',
+        attributes? : SpanAttributes
+    ) {
+        Object.assign(this.attributes, attributes);
+    }
+
+    readonly startTime = Date.now();
+    endTime : number;
+    readonly attributes : SpanAttributes = {};
+    readonly events : SpanEvent[] = [];
+    status : SpanStatus = 'unset';
+    statusMessage : string;
+
+    get traceId() {
+        return this.context.traceId;
+    }
+
+    get spanId() {
+        return this.context.spanId;
+    }
+
+    /**
+     * The value of the `traceparent` header which continues the trace from this span.
+     */
+    get traceparent() {
+        return formatTraceparent(this.context);
+    }
+
+    get ended() {
+        return this.endTime !== undefined;
+    }
+
+    /**
+     * The duration of the span in milliseconds, once it has ended.
+     */
+    get duration() {
+        return this.ended ? this.endTime - this.startTime : undefined;
+    }
+
+    setAttribute(name : string, value : string | number | boolean) {
+        this.attributes[name] = value;
+        return this;
+    }
+
+    setAttributes(attributes : SpanAttributes) {
+        Object.assign(this.attributes, attributes);
+        return this;
+    }
+
+    setStatus(status : SpanStatus, message? : string) {
+        this.status = status;
+        this.statusMessage = message;
+        return this;
+    }
+
+    addEvent(name : string, attributes? : SpanAttributes) {
+        this.events.push({ name, time: Date.now(), ...(attributes ? { attributes } : {}) });
+        return this;
+    }
+
+    /**
+     * Record the given error as an `exception` event and mark the span as failed.
+     */
+    recordException(error : any) {
+        this.addEvent('exception', {
+            'exception.type': error?.constructor?.name ?? typeof error,
+            'exception.message': error?.message ?? String(error)
+        });
+
+        return this.setStatus('error', error?.message ?? String(error));
+    }
+
+    /**
+     * End the span and export it. Has no effect if the span has already ended.
+     */
+    end() {
+        if (this.ended)
+            return;
+
+        this.endTime = Date.now();
+        this.tracer.export(this);
+    }
+}
+
+/**
+ * Receives spans once they end, for instance to send them to a tracing backend. Contribute exporters to the
+ * `SPAN_EXPORTERS` token using multi providers.
+ */
+export interface SpanExporter {
+    export(spans : Span[]): void | Promise<void>;
+}
+
+export const SPAN_EXPORTERS = new InjectionToken<SpanExporter[]>('SPAN_EXPORTERS');
+
+/**
+ * Keeps exported spans in memory. Useful for testing.
+ */
+export class InMemorySpanExporter implements SpanExporter {
+    readonly spans : Span[] = [];
+
+    export(spans : Span[]) {
+        this.spans.push(...spans);
+    }
+
+    reset() {
+        this.spans.splice(0, this.spans.length);
+    }
+}
+
+/**
+ * Logs exported spans to the console.
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+    export(spans : Span[]) {
+        for (let span of spans) {
+            console.log(
+                `[trace ${span.traceId}] ${span.name} (${span.kind}, span ${span.spanId}`
+                + `${span.parentSpanId ? `, parent ${span.parentSpanId}` : ''}) `
+                + `» ${span.status} [${span.duration} ms]`
+            );
+        }
+    }
+}
+
+export interface SpanOptions {
+    kind? : SpanKind;
+    attributes? : SpanAttributes;
+
+    /**
+     * The parent of the new span. Defaults to the current span (see `Tracer.currentSpan`). Set to `null` to start a
+     * new trace.
+     */
+    parent? : Span | SpanContext | null;
+}
+
+/**
+ * Creates spans and sends them to the configured exporters once they end. The current span is tracked via the
+ * current Zone, so that spans started while handling an operation (such as a web request or a task) become its
+ * children, and so that outgoing requests can propagate the trace.
+ */
+@Injectable()
+export class Tracer {
+    constructor(
+        @Optional() @Inject(SPAN_EXPORTERS) exporters? : SpanExporter[]
+    ) {
+        this.exporters = exporters?.slice() ?? [];
+    }
+
+    readonly exporters : SpanExporter[];
+
+    addExporter(exporter : SpanExporter) {
+        this.exporters.push(exporter);
+    }
+
+    /**
+     * The span which is current within the current Zone, if any.
+     */
+    static get currentSpan(): Span {
+        return typeof Zone !== 'undefined' ? Zone.current.get(CURRENT_SPAN) : undefined;
+    }
+
+    /**
+     * Start a new span. Remember to call `end()` on it.
+     */
+    startSpan(name : string, options : SpanOptions = {}): Span {
+        let parent = options.parent === undefined ? Tracer.currentSpan : options.parent;
+        let parentContext = parent instanceof Span ? parent.context : parent;
+
+        return new Span(
+            this,
+            name,
+            {
+                traceId: parentContext?.traceId ?? randomHex(16),
+                spanId: randomHex(8),
+                traceFlags: parentContext?.traceFlags ?? 1,
+                ...(parentContext?.traceState ? { traceState: parentContext.traceState } : {})
+            },
+            parentContext?.spanId,
+            options.kind,
+            options.attributes
+        );
+    }
+
+    /**
+     * Run the given callback with the given span as the current span.
+     */
+    run<T>(span : Span, callback : () => T): T {
+        let zone = Zone.current.fork({
+            name: `TracerSpanZone`,
+            properties: {
+                [CURRENT_SPAN]: span
+            }
+        });
+
+        return zone.run(callback);
+    }
+
+    /**
+     * Run the given callback within a new span, which ends when the callback returns (or, if it returns a promise,
+     * when the promise settles). Errors are recorded on the span.
+     */
+    trace<T>(name : string, callback : (span : Span) => T, options? : SpanOptions): T {
+        let span = this.startSpan(name, options);
+        let result : T;
+
+        try {
+            result = this.run(span, () => callback(span));
+        } catch (e) {
+            span.recordException(e);
+            span.end();
+            throw e;
+        }
+
+        if (typeof (<any>result)?.then === 'function') {
+            return <any>Promise.resolve(result).then(
+                value => (span.end(), value),
+                error => {
+                    span.recordException(error);
+                    span.end();
+                    throw error;
+                }
+            );
+        }
+
+        span.end();
+        return result;
+    }
+
+    /**
+     * Send the given span to the exporters. Called by `Span.end()`. Spans which are not sampled are not exported.
+     */
+    export(span : Span) {
+        if ((span.context.traceFlags & 1) === 0)
+            return;
+
+        for (let exporter of this.exporters) {
+            try {
+                Promise.resolve(exporter.export([ span ])).catch(e => this.reportError(e));
+            } catch (e) {
+                this.reportError(e);
+            }
+        }
+    }
+
+    private reportError(error : any) {
+        console.error(`Tracer: Failed to export span:`);
+        console.error(error);
+    }
+}
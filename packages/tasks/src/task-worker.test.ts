@@ -0,0 +1,95 @@
+import { describe, it } from 'razmin';
+import { expect } from 'chai';
+import { Injectable, ReflectiveInjector } from '@alterior/di';
+import { InMemorySpanExporter, MetricsRegistry, parseTraceparent, Tracer } from '@alterior/runtime';
+import { TaskWorker } from './task-worker';
+import { TaskJob, Worker } from './tasks';
+
+class FakeQueue {
+    processor : (job : any, done : (error? : any, result? : any) => void) => Promise<void>;
+
+    process(processor) {
+        this.processor = processor;
+    }
+
+    async run(data : TaskJob) {
+        let outcome : { error? : any, result? : any } = {};
+        await this.processor({ data, discard: async () => {} }, (error, result) => outcome = { error, result });
+        return outcome;
+    }
+}
+
+const fakeLogger : any = {
+    info() {},
+    withContext: (context, label, callback) => callback()
+};
+
+function createWorker(providers : any[] = []) {
+    let queue = new FakeQueue();
+    let injector = ReflectiveInjector.resolveAndCreate(providers);
+    let worker = new TaskWorker(injector, <any>{ queue }, {}, { silent: true }, fakeLogger);
+
+    worker.registerClasses([ MathWorker ]);
+    worker.start();
+
+    return { worker, queue };
+}
+
+let finishSlow : () => void;
+
+@Injectable()
+class MathWorker extends Worker {
+    get name() {
+        return 'MathWorker';
+    }
+
+    async add(a : number, b : number) {
+        return a + b;
+    }
+
+    async slow() {
+        await new Promise<void>(resolve => finishSlow = resolve);
+    }
+}
+
+describe("TaskWorker", () => {
+    it('counts jobs by result and tracks active jobs', async () => {
+        let registry = new MetricsRegistry();
+        let { queue } = createWorker([ { provide: MetricsRegistry, useValue: registry } ]);
+
+        expect(await queue.run({ id: 'MathWorker', method: 'add', args: [ 1, 2 ] })).to.eql({ error: undefined, result: 3 });
+
+        let outcome = await queue.run({ id: 'MathWorker', method: '_private', args: [] });
+        expect(outcome.error).to.exist;
+
+        let slow = queue.run({ id: 'MathWorker', method: 'slow', args: [] });
+        await new Promise(resolve => setTimeout(resolve, 1));
+
+        expect(registry.render()).to.include(`task_jobs_active{task="MathWorker"} 1\n`);
+
+        finishSlow();
+        await slow;
+
+        let metrics = registry.render();
+        expect(metrics).to.include(`task_jobs_total{task="MathWorker",method="add",result="completed"} 1\n`);
+        expect(metrics).to.include(`task_jobs_total{task="MathWorker",method="_private",result="failed"} 1\n`);
+        expect(metrics).to.include(`task_jobs_total{task="MathWorker",method="slow",result="completed"} 1\n`);
+        expect(metrics).to.include(`task_jobs_active{task="MathWorker"} 0\n`);
+    });
+
+    it('continues the trace of the span which enqueued the task', async () => {
+        let exporter = new InMemorySpanExporter();
+        let { queue } = createWorker([ { provide: Tracer, useValue: new Tracer([ exporter ]) } ]);
+        let traceparent = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+
+        await queue.run({ id: 'MathWorker', method: 'add', args: [ 1, 2 ], traceparent });
+
+        let [ span ] = exporter.spans;
+        let parent = parseTraceparent(traceparent);
+
+        expect(span.name).to.equal('MathWorker.add');
+        expect(span.kind).to.equal('consumer');
+        expect(span.traceId).to.equal(parent.traceId);
+        expect(span.parentSpanId).to.equal(parent.spanId);
+    });
+});
@@ -1,7 +1,7 @@
 import { InvalidOperationError, ArgumentError, ArgumentNullError } from "@alterior/common";
 import { Injector, Provider, ReflectiveInjector } from "@alterior/di";
 import { TaskAnnotation, TaskJob, TaskModuleOptions, TaskQueueClient, Worker } from "./tasks";
-import { ApplicationOptions } from "@alterior/runtime";
+import { ApplicationOptions, Counter, Gauge, MetricsRegistry, parseTraceparent, Tracer } from "@alterior/runtime";
 import { Type } from "@alterior/runtime";
 import * as Queue from "bull";
 import { Logger } from "@alterior/logging";
@@ -29,8 +29,27 @@ export class TaskWorker {
 		if (!_appOptions)
 			throw new ArgumentNullError(`appOptions`);
 
+		this._tracer = _injector.get(Tracer, null) ?? new Tracer();
+
+		let metrics = _injector.get(MetricsRegistry, null);
+		if (metrics) {
+			this._jobsMetric = metrics.counter(
+				'task_jobs_total', 
+				'The number of task jobs processed, by task, method and result', 
+				[ 'task', 'method', 'result' ]
+			);
+			this._activeJobsMetric = metrics.gauge(
+				'task_jobs_active', 
+				'The number of task jobs currently being processed, by task', 
+				[ 'task' ]
+			);
+		}
     }
 
+	private _tracer : Tracer;
+	private _jobsMetric : Counter;
+	private _activeJobsMetric : Gauge;
+
     public get injector() {
         return this._injector;
     }
@@ -49,8 +68,11 @@ export class TaskWorker {
 		return this._client.queue;
 	}
 
-	stop() {
-		this.queue.close();
+	/**
+	 * Stop processing tasks. Resolves once the tasks which are currently being processed have finished.
+	 */
+	async stop() {
+		await this.queue.close();
 	}
 
 	start() {
@@ -65,6 +87,7 @@ export class TaskWorker {
 
 				await job.discard();
 
+				this._jobsMetric?.inc({ task: task?.id ?? '', method: task?.method ?? '', result: 'invalid' });
 				done(new Error(`Invalid job task`), null);
 			}
 
@@ -79,22 +102,39 @@ export class TaskWorker {
 				console.info(`Registered worker IDs: ${Object.keys(this._taskHandlers).join(', ')}`);
 			}
 
-			await this._logger.withContext(
+			// Continue the trace of the span which enqueued the task (if any)
+
+			let span = this._tracer.startSpan(`${task.id}.${task.method}`, {
+				kind: 'consumer',
+				parent: parseTraceparent(task.traceparent, task.tracestate) ?? null,
+				attributes: { 'task.id': task.id, 'task.method': task.method ?? '' }
+			});
+
+			await this._tracer.run(span, () => this._logger.withContext(
 				{ host: 'tasks', worker: handler.worker }, 
 				`TaskWorker | ${handler.worker.constructor.name}.${task.method}(${task.args.map(x => util.inspect(x, false, 2)).join(', ')})`, 
 				async () => {
 					this._logger.info(`TaskWorker: ${task.method}() of worker ${handler.worker.constructor.name} (ID '${task.id}')`);
+					let labels = { task: task.id, method: task.method ?? '' };
+					this._activeJobsMetric?.inc({ task: task.id });
+
 					try {
 						let result = await handler.handler(task.method, task.args);
+						this._jobsMetric?.inc({ ...labels, result: 'completed' });
 						done(undefined, result);
 					} catch (e) {
 						console.error(`Caught error while running task ${job.data.id}.${job.data.method || 'execute'}():`);
 						console.error(e);
 						
+						this._jobsMetric?.inc({ ...labels, result: 'failed' });
+						span.recordException(e);
 						done(e);
+					} finally {
+						this._activeJobsMetric?.dec({ task: task.id });
+						span.end();
 					}
 				}
-			);
+			));
 		});
 	}
 
@@ -1,7 +1,7 @@
 import { Module, Injectable, Optional } from "@alterior/di";
-import { OnInit, Application, RolesService, Constructor } from "@alterior/runtime";
+import { OnInit, Application, RolesService, Constructor, HEALTH_CHECKS } from "@alterior/runtime";
 import * as Queue from "bull";
-import { TaskModuleOptions, TaskModuleOptionsRef, TaskQueueClient, TaskWorkerRegistry } from "./tasks";
+import { TaskModuleOptions, TaskModuleOptionsRef, TaskQueueClient, TaskQueueHealthCheck, TaskWorkerRegistry } from "./tasks";
 import { TaskRunner } from "./task-runner";
 import { TaskWorker } from "./task-worker";
 import { Logger, LoggingModule } from "@alterior/logging";
@@ -15,7 +15,8 @@ import { Logger, LoggingModule } from "@alterior/logging";
     providers: [
         TaskQueueClient, 
         TaskWorkerRegistry, 
-        TaskRunner
+        TaskRunner,
+        { provide: HEALTH_CHECKS, useClass: TaskQueueHealthCheck, multi: true }
     ],
     imports: [
         LoggingModule
@@ -88,10 +89,11 @@ export class TasksModule implements OnInit {
             summary: 'Pulls from the task queue and executes them using task classes registered in the module tree',
             async start() {
                 self.worker.start();
+                self.app.handleShutdownSignals(self.logger);
             },
 
             async stop() {
-                self.worker.stop();
+                await self.worker.stop();
             }
         })
 
@@ -0,0 +1,55 @@
+import { describe, it } from 'razmin';
+import { expect } from 'chai';
+import { InMemorySpanExporter, Tracer } from '@alterior/runtime';
+import { TaskJob, TaskQueueClient, TaskQueueHealthCheck } from './tasks';
+
+/**
+ * Create a client whose queue records the jobs which are added, without connecting to Redis.
+ */
+function createClient() {
+    let jobs : TaskJob[] = [];
+    let client : TaskQueueClient = Object.create(TaskQueueClient.prototype);
+    client._queue = <any>{ add: async (data : TaskJob) => (jobs.push(data), data) };
+
+    return { client, jobs };
+}
+
+describe("TaskQueueClient", () => {
+    it('propagates the current trace to the task via a producer span', async () => {
+        let exporter = new InMemorySpanExporter();
+        let tracer = new Tracer([ exporter ]);
+        let { client, jobs } = createClient();
+
+        await client.enqueue({ id: 'MathWorker', method: 'add', args: [ 1, 2 ] });
+        expect(jobs[0].traceparent).to.be.undefined;
+
+        await tracer.trace('request', () => client.enqueue({ id: 'MathWorker', method: 'add', args: [ 1, 2 ] }));
+
+        let [ producer, request ] = exporter.spans;
+
+        expect(producer.name).to.equal('enqueue MathWorker.add');
+        expect(producer.kind).to.equal('producer');
+        expect(producer.parentSpanId).to.equal(request.spanId);
+        expect(jobs[1].traceparent).to.equal(`00-${producer.traceId}-${producer.spanId}-01`);
+    });
+});
+
+describe("TaskQueueHealthCheck", () => {
+    it('fails when Redis cannot be reached', async () => {
+        let ping = async () => 'PONG';
+        let check = new TaskQueueHealthCheck(<any>{ queue: { isReady: async () => {}, client: { ping: () => ping() } } });
+
+        await check.check();
+
+        ping = async () => { throw new Error('Connection refused'); };
+
+        let error : Error;
+        try {
+            await check.check();
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error?.message).to.equal('Connection refused');
+    });
+});
@@ -1,5 +1,6 @@
 import { Annotation, MetadataName, AnnotationDecorator } from "@alterior/annotations";
 import { Injectable, InjectionToken, Optional, Injector, Provider, ReflectiveInjector } from "@alterior/di";
+import { HealthCheck, Tracer } from "@alterior/runtime";
 import BullQueue from "bull";
 
 export interface TaskModuleOptions {
@@ -29,6 +30,13 @@ export interface TaskJob {
     id : string;
     method : string;
     args : any[];
+
+    /**
+     * The trace context (W3C `traceparent`) of the span which enqueued the task, if any. The worker continues this
+     * trace while executing the task.
+     */
+    traceparent? : string;
+    tracestate? : string;
 }
 
 export const QUEUE_OPTIONS = new InjectionToken<BullQueue.QueueOptions>('QueueOptions');
@@ -171,10 +179,41 @@ export class TaskQueueClient {
     }
 
     /**
-     * Enqueue a new task. To handle the task on the worker side, register for it with `.process()`
+     * Enqueue a new task. To handle the task on the worker side, register for it with `.process()`. When a trace is in
+     * progress (see `Tracer.currentSpan`), enqueuing is traced by a producer span and the trace is propagated to the 
+     * worker via the job.
      */
     async enqueue(data : TaskJob, opts? : JobOptions): Promise<QueueJob<TaskJob>> {
-        return await this._queue.add(data, opts);
+        let parent = Tracer.currentSpan;
+        if (!parent || data.traceparent)
+            return await this._queue.add(data, opts);
+
+        return await parent.tracer.trace(`enqueue ${data.id}.${data.method}`, async span => {
+            return await this._queue.add({
+                ...data,
+                traceparent: span.traceparent,
+                ...(span.context.traceState ? { tracestate: span.context.traceState } : {})
+            }, opts);
+        }, { kind: 'producer', attributes: { 'task.id': data.id, 'task.method': data.method } });
+    }
+}
+
+/**
+ * Checks that the task queue's connection to Redis is available. `TasksModule` contributes this to `HEALTH_CHECKS`
+ * automatically.
+ */
+@Injectable()
+export class TaskQueueHealthCheck implements HealthCheck {
+    constructor(
+        private client : TaskQueueClient
+    ) {
+    }
+
+    name = 'task-queue';
+
+    async check() {
+        await this.client.queue.isReady();
+        await this.client.queue.client.ping();
     }
 }
 
@@ -0,0 +1,180 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import { Injectable } from '@alterior/di';
+import { teststrap } from './teststrap';
+import { WebService } from './service';
+import { Controller, Get, Mount, Post, WebEvent } from './metadata';
+import { CurrentUser } from './input';
+import { OpenApiController } from './openapi';
+import { MemorySessionStore, Session } from './session';
+import { UseGuards } from './guards';
+import { ApiKeyStrategy, AuthGuard, Authenticated, BasicAuthStrategy, BearerTokenStrategy, SessionAuthStrategy } from './auth';
+
+const TOKENS = { 'token-alice': { name: 'alice', admin: true }, 'token-bob': { name: 'bob', admin: false } };
+
+const bearer = new BearerTokenStrategy({ realm: 'api', verify: token => TOKENS[token] });
+const apiKey = new ApiKeyStrategy({ verify: key => key === 'key-1' ? { name: 'service' } : undefined });
+const basic = new BasicAuthStrategy({
+	realm: 'admin',
+	verify: (username, password) => password === 'secret' ? { name: username } : undefined
+});
+
+suite(describe => {
+	describe('AuthGuard', it => {
+		it('responds with 401 and a challenge until a valid bearer token is sent', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/me', { guards: [ new AuthGuard({ strategies: [ bearer ] }) ] })
+				me(@CurrentUser() user: any, event: WebEvent) {
+					return { name: user.name, strategy: event.authStrategy };
+				}
+			}
+
+			let response = await teststrap(FakeApp).get('/me').expect(401);
+			expect(response.header['www-authenticate']).to.equal('Bearer realm="api"');
+			expect(response.body.error).to.equal('unauthorized');
+
+			response = await teststrap(FakeApp).get('/me').set('Authorization', 'Bearer nope').expect(401);
+			expect(response.header['www-authenticate']).to.equal('Bearer realm="api", error="invalid_token"');
+
+			response = await teststrap(FakeApp).get('/me').set('Authorization', 'bearer token-alice').expect(200);
+			expect(response.body).to.eql({ name: 'alice', strategy: 'bearer' });
+		});
+
+		it('accepts any of several strategies and lets routes opt out of controller guards', async () => {
+			@Controller('', { guards: [ new AuthGuard({ strategies: [ bearer, apiKey, basic ] }) ] })
+			class ThingsController {
+				@Get('/things')
+				things(@CurrentUser() user: any) {
+					return { name: user.name };
+				}
+
+				@Get('/public', { guards: false })
+				public(@CurrentUser() user: any) {
+					return { user: user ?? null };
+				}
+			}
+
+			@WebService()
+			class FakeApp {
+				@Mount() things: ThingsController;
+			}
+
+			let response = await teststrap(FakeApp).get('/things').expect(401);
+			expect(response.header['www-authenticate']).to.equal('Bearer realm="api", Basic realm="admin", charset="UTF-8"');
+
+			response = await teststrap(FakeApp).get('/things').set('X-API-Key', 'key-1').expect(200);
+			expect(response.body).to.eql({ name: 'service' });
+
+			let credentials = Buffer.from('carol:secret').toString('base64');
+			response = await teststrap(FakeApp).get('/things').set('Authorization', `Basic ${credentials}`).expect(200);
+			expect(response.body).to.eql({ name: 'carol' });
+
+			response = await teststrap(FakeApp).get('/public').expect(200);
+			expect(response.body).to.eql({ user: null });
+		});
+
+		it('rejects authenticated requests which are not authorized with 403', async () => {
+			@Injectable()
+			class AdminGuard {
+				canActivate(event: WebEvent) {
+					return event.user?.admin === true;
+				}
+			}
+
+			@WebService()
+			class FakeApp {
+				@Get('/admin')
+				@Authenticated({ strategies: [ bearer ] })
+				@UseGuards(AdminGuard)
+				admin() {
+					return { ok: true };
+				}
+
+				@Get('/reports', { guards: [ new AuthGuard({ strategies: [ bearer ], authorize: user => user.name === 'alice' }) ] })
+				reports() {
+					return { ok: true };
+				}
+			}
+
+			await teststrap(FakeApp).get('/admin').set('Authorization', 'Bearer token-bob').expect(403);
+			await teststrap(FakeApp).get('/admin').set('Authorization', 'Bearer token-alice').expect(200);
+			await teststrap(FakeApp).get('/reports').set('Authorization', 'Bearer token-bob').expect(403);
+			await teststrap(FakeApp).get('/reports').set('Authorization', 'Bearer token-alice').expect(200);
+		});
+
+		it('allows anonymous requests when optional, but still rejects invalid credentials', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/greeting', { guards: [ new AuthGuard({ strategies: [ bearer ], optional: true }) ] })
+				greeting(@CurrentUser() user: any) {
+					return { greeting: `Hello ${user?.name ?? 'stranger'}` };
+				}
+			}
+
+			let response = await teststrap(FakeApp).get('/greeting').expect(200);
+			expect(response.body).to.eql({ greeting: 'Hello stranger' });
+
+			response = await teststrap(FakeApp).get('/greeting').set('Authorization', 'Bearer token-bob').expect(200);
+			expect(response.body).to.eql({ greeting: 'Hello bob' });
+
+			await teststrap(FakeApp).get('/greeting').set('Authorization', 'Bearer nope').expect(401);
+		});
+
+		it('authenticates logged in sessions', async () => {
+			let store = new MemorySessionStore();
+
+			@WebService({ server: { session: { secret: 'secret', store } } })
+			class FakeApp {
+				@Post('/login')
+				login() {
+					let session = Session.current();
+					session.regenerate();
+					session.set('user', { name: 'dave' });
+				}
+
+				@Get('/me', { guards: [ new AuthGuard({ strategies: [ new SessionAuthStrategy() ] }) ] })
+				me(@CurrentUser() user: any) {
+					return user;
+				}
+			}
+
+			let test = teststrap(FakeApp);
+			let response = await test.post('/login').expect(204);
+			let cookie = response.header['set-cookie'][0].split(';')[0];
+
+			await teststrap(FakeApp).get('/me').expect(401);
+			response = await test.get('/me').set('Cookie', cookie).expect(200);
+			expect(response.body).to.eql({ name: 'dave' });
+		});
+
+		it('documents security schemes in the OpenAPI output', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/things', { guards: [ new AuthGuard({ strategies: [ bearer, apiKey ] }) ] })
+				things() {
+					return [];
+				}
+
+				@Get('/open')
+				open() {
+					return [];
+				}
+
+				@Mount('/openapi')
+				openapi: OpenApiController;
+			}
+
+			let response = await teststrap(FakeApp).get('/openapi').expect(200);
+			let spec = response.body;
+
+			expect(spec.components.securitySchemes).to.eql({
+				bearer: { type: 'http', scheme: 'bearer' },
+				apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+			});
+			expect(spec.paths['/things'].get.security).to.eql([ { bearer: [] }, { apiKey: [] } ]);
+			expect(spec.paths['/things'].get.responses['401']).to.exist;
+			expect(spec.paths['/open'].get.security).to.be.undefined;
+		});
+	});
+});
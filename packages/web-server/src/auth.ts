@@ -0,0 +1,343 @@
+import { HttpError } from '@alterior/common';
+import { WebEvent } from './metadata';
+import { Guard, GuardSecurity, SecurityScheme, UseGuards } from './guards';
+
+/**
+ * A way for requests to authenticate, such as by sending a bearer token. Used by `AuthGuard`.
+ */
+export abstract class AuthStrategy {
+	/**
+	 * The name of the strategy, used as the name of its security scheme in documentation.
+	 */
+	abstract readonly name: string;
+
+	/**
+	 * Describes the strategy in documentation (see `OpenApiController`).
+	 */
+	abstract readonly securityScheme: SecurityScheme;
+
+	/**
+	 * Determine whether the request carries credentials for this strategy. Requests without credentials for any
+	 * strategy are rejected without attempting to authenticate them.
+	 * @param event
+	 */
+	abstract hasCredentials(event: WebEvent): boolean;
+
+	/**
+	 * Authenticate the request. Resolves to the authenticated user, or to undefined if the credentials are not
+	 * valid.
+	 * @param event
+	 */
+	abstract authenticate(event: WebEvent): Promise<any>;
+
+	/**
+	 * The `WWW-Authenticate` challenge to send when authentication fails, if any.
+	 * @param rejected True when the request carried credentials for this strategy but they were not valid
+	 */
+	challenge(rejected: boolean): string {
+		return undefined;
+	}
+}
+
+/**
+ * Called to validate credentials. Return the authenticated user (any truthy value), or a falsy value if the
+ * credentials are not valid. Services can be retrieved using `event.inject()`.
+ */
+export type CredentialVerifier<T extends any[]> = (...args: [ ...T, WebEvent ]) => any | Promise<any>;
+
+function quote(value: string) {
+	return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function getAuthorization(event: WebEvent, scheme: string): string {
+	let match = /^(\S+)\s+(.*)$/.exec(event.request.headers.authorization ?? '');
+	if (!match || match[1].toLowerCase() !== scheme.toLowerCase())
+		return undefined;
+
+	return match[2].trim();
+}
+
+export interface BearerTokenStrategyOptions {
+	verify: CredentialVerifier<[ token: string ]>;
+
+	/**
+	 * The realm sent in the `WWW-Authenticate` challenge.
+	 */
+	realm?: string;
+
+	/**
+	 * A hint about the format of the tokens (ie `JWT`), for documentation.
+	 */
+	bearerFormat?: string;
+
+	/**
+	 * The name of the strategy. Defaults to `bearer`.
+	 */
+	name?: string;
+}
+
+/**
+ * Authenticates requests which send a token via `Authorization: Bearer <token>` (RFC 6750).
+ */
+export class BearerTokenStrategy extends AuthStrategy {
+	constructor(readonly options: BearerTokenStrategyOptions) {
+		super();
+	}
+
+	get name() {
+		return this.options.name ?? 'bearer';
+	}
+
+	get securityScheme(): SecurityScheme {
+		return {
+			type: 'http',
+			scheme: 'bearer',
+			...(this.options.bearerFormat ? { bearerFormat: this.options.bearerFormat } : {})
+		};
+	}
+
+	hasCredentials(event: WebEvent) {
+		return !!getAuthorization(event, 'Bearer');
+	}
+
+	async authenticate(event: WebEvent) {
+		return await this.options.verify(getAuthorization(event, 'Bearer'), event) || undefined;
+	}
+
+	challenge(rejected: boolean) {
+		let params = [
+			...(this.options.realm ? [ `realm=${quote(this.options.realm)}` ] : []),
+			...(rejected ? [ `error="invalid_token"` ] : [])
+		];
+
+		return params.length > 0 ? `Bearer ${params.join(', ')}` : `Bearer`;
+	}
+}
+
+export interface ApiKeyStrategyOptions {
+	verify: CredentialVerifier<[ key: string ]>;
+
+	/**
+	 * The header which holds the API key. Defaults to `X-API-Key`.
+	 */
+	header?: string;
+
+	/**
+	 * The name of the strategy. Defaults to `apiKey`.
+	 */
+	name?: string;
+}
+
+/**
+ * Authenticates requests which send an API key via a header (`X-API-Key` by default).
+ */
+export class ApiKeyStrategy extends AuthStrategy {
+	constructor(readonly options: ApiKeyStrategyOptions) {
+		super();
+	}
+
+	get name() {
+		return this.options.name ?? 'apiKey';
+	}
+
+	get header() {
+		return this.options.header ?? 'X-API-Key';
+	}
+
+	get securityScheme(): SecurityScheme {
+		return { type: 'apiKey', in: 'header', name: this.header };
+	}
+
+	private getKey(event: WebEvent) {
+		let value = event.request.headers[this.header.toLowerCase()];
+		return Array.isArray(value) ? value[0] : value;
+	}
+
+	hasCredentials(event: WebEvent) {
+		return !!this.getKey(event);
+	}
+
+	async authenticate(event: WebEvent) {
+		return await this.options.verify(this.getKey(event), event) || undefined;
+	}
+}
+
+export interface BasicAuthStrategyOptions {
+	verify: CredentialVerifier<[ username: string, password: string ]>;
+
+	/**
+	 * The realm sent in the `WWW-Authenticate` challenge. Defaults to `api`.
+	 */
+	realm?: string;
+
+	/**
+	 * The name of the strategy. Defaults to `basic`.
+	 */
+	name?: string;
+}
+
+/**
+ * Authenticates requests which send a username and password via `Authorization: Basic` (RFC 7617).
+ */
+export class BasicAuthStrategy extends AuthStrategy {
+	constructor(readonly options: BasicAuthStrategyOptions) {
+		super();
+	}
+
+	get name() {
+		return this.options.name ?? 'basic';
+	}
+
+	get securityScheme(): SecurityScheme {
+		return { type: 'http', scheme: 'basic' };
+	}
+
+	hasCredentials(event: WebEvent) {
+		return !!getAuthorization(event, 'Basic');
+	}
+
+	async authenticate(event: WebEvent) {
+		let decoded = Buffer.from(getAuthorization(event, 'Basic'), 'base64').toString('utf-8');
+		let index = decoded.indexOf(':');
+		if (index < 0)
+			return undefined;
+
+		return await this.options.verify(decoded.slice(0, index), decoded.slice(index + 1), event) || undefined;
+	}
+
+	challenge(rejected: boolean) {
+		return `Basic realm=${quote(this.options.realm ?? 'api')}, charset="UTF-8"`;
+	}
+}
+
+export interface SessionAuthStrategyOptions {
+	/**
+	 * The session property which identifies the user once they have logged in. Defaults to `user`.
+	 */
+	key?: string;
+
+	/**
+	 * Called with the value of the session property to produce the authenticated user (for instance by loading it
+	 * from a database). By default the value itself is the user.
+	 */
+	verify?: CredentialVerifier<[ value: any ]>;
+
+	/**
+	 * The name of the session cookie, for documentation. Defaults to `sid`.
+	 */
+	cookieName?: string;
+
+	/**
+	 * The name of the strategy. Defaults to `session`.
+	 */
+	name?: string;
+}
+
+/**
+ * Authenticates requests whose session (see `Session`) has been marked as logged in. Requires sessions to be
+ * enabled via the `session` server option.
+ */
+export class SessionAuthStrategy extends AuthStrategy {
+	constructor(readonly options: SessionAuthStrategyOptions = {}) {
+		super();
+	}
+
+	get name() {
+		return this.options.name ?? 'session';
+	}
+
+	get securityScheme(): SecurityScheme {
+		return { type: 'apiKey', in: 'cookie', name: this.options.cookieName ?? 'sid' };
+	}
+
+	private getValue(event: WebEvent) {
+		return event.request['session']?.[this.options.key ?? 'user'];
+	}
+
+	hasCredentials(event: WebEvent) {
+		return this.getValue(event) !== undefined && this.getValue(event) !== null;
+	}
+
+	async authenticate(event: WebEvent) {
+		let value = this.getValue(event);
+		return (this.options.verify ? await this.options.verify(value, event) : value) || undefined;
+	}
+}
+
+export interface AuthGuardOptions {
+	/**
+	 * The ways in which requests can authenticate. Strategies are tried in order, and the first which authenticates
+	 * the request determines the user.
+	 */
+	strategies: AuthStrategy[];
+
+	/**
+	 * When true, requests which do not carry any credentials are allowed (without a user). Requests with invalid
+	 * credentials are still rejected.
+	 */
+	optional?: boolean;
+
+	/**
+	 * Called once the request is authenticated. Return false to reject the request with `403 Forbidden`.
+	 */
+	authorize?: (user: any, event: WebEvent) => boolean | Promise<boolean>;
+}
+
+/**
+ * Requires requests to authenticate using one of the given strategies. The authenticated user is available via
+ * `WebEvent.user` and the `@CurrentUser()` parameter decorator. Requests which do not authenticate are rejected with
+ * `401 Unauthorized` and a `WWW-Authenticate` header listing the challenges of the strategies.
+ */
+export class AuthGuard implements Guard {
+	constructor(readonly options: AuthGuardOptions) {
+		if (!options.strategies?.length)
+			throw new Error(`AuthGuard requires at least one strategy`);
+	}
+
+	async canActivate(event: WebEvent) {
+		let strategies = this.options.strategies;
+		let presented = strategies.filter(x => x.hasCredentials(event));
+
+		for (let strategy of presented) {
+			let user = await strategy.authenticate(event);
+			if (user) {
+				event.user = user;
+				event.authStrategy = strategy.name;
+				return this.options.authorize ? await this.options.authorize(user, event) : true;
+			}
+		}
+
+		if (presented.length === 0 && this.options.optional)
+			return true;
+
+		let challenges = strategies
+			.map(x => x.challenge(presented.includes(x)))
+			.filter(x => x)
+		;
+
+		throw new HttpError(401, {
+			error: presented.length > 0 ? 'invalid-credentials' : 'unauthorized',
+			message: presented.length > 0 ? `The provided credentials are not valid.` : `Authentication is required.`
+		}, challenges.length > 0 ? [ [ 'WWW-Authenticate', challenges.join(', ') ] ] : []);
+	}
+
+	describeSecurity(): GuardSecurity {
+		let strategies = this.options.strategies;
+
+		return {
+			schemes: Object.fromEntries(strategies.map(x => [ x.name, x.securityScheme ])),
+			requirements: [
+				...strategies.map(x => ({ [x.name]: [] })),
+				...(this.options.optional ? [ {} ] : [])
+			]
+		};
+	}
+}
+
+/**
+ * Require requests to the routes of a controller (or to a single route method) to authenticate. Equivalent to
+ * `@UseGuards(new AuthGuard(options))`.
+ */
+export function Authenticated(options: AuthGuardOptions) {
+	return UseGuards(new AuthGuard(options));
+}
@@ -0,0 +1,152 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import { Injectable } from '@alterior/di';
+import { teststrap } from './teststrap';
+import { WebService } from './service';
+import { Controller, Delete, Get, Mount, Put, WebEvent } from './metadata';
+import { OpenApiController } from './openapi';
+import { UseGuards } from './guards';
+import { AuthGuard, BearerTokenStrategy } from './auth';
+import { AuthorizationPolicy, RequirePermission, RequireRoles } from './authorization';
+
+const USERS = {
+	'token-alice': { name: 'alice', roles: [ 'admin' ], permissions: [ 'orders:read', 'orders:delete' ] },
+	'token-bob': { name: 'bob', roles: [ 'customer' ], permissions: [ 'orders:read' ] }
+};
+
+const ORDERS = {
+	'1': { id: '1', owner: 'bob' },
+	'2': { id: '2', owner: 'carol' }
+};
+
+const authenticated = new AuthGuard({ strategies: [ new BearerTokenStrategy({ verify: token => USERS[token] }) ] });
+
+suite(describe => {
+	describe('@RequireRoles()', it => {
+		it('allows users with any of the roles and rejects others with 403', async () => {
+			@Controller('', { guards: [ authenticated ] })
+			class AdminController {
+				@Get('/reports')
+				@RequireRoles('admin', 'auditor')
+				reports() {
+					return [];
+				}
+			}
+
+			@WebService()
+			class FakeApp {
+				@Mount() admin: AdminController;
+			}
+
+			await teststrap(FakeApp).get('/reports').expect(401);
+			await teststrap(FakeApp).get('/reports').set('Authorization', 'Bearer token-alice').expect(200);
+
+			let response = await teststrap(FakeApp).get('/reports').set('Authorization', 'Bearer token-bob').expect(403);
+			expect(response.body.error).to.equal('forbidden');
+		});
+
+		it('rejects requests without a user with 401', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/reports')
+				@RequireRoles('admin')
+				reports() {
+					return [];
+				}
+			}
+
+			let response = await teststrap(FakeApp).get('/reports').expect(401);
+			expect(response.body.error).to.equal('unauthorized');
+		});
+	});
+
+	describe('@RequirePermission()', it => {
+		it('requires all of the permissions of the controller and route', async () => {
+			@Controller('/orders', { guards: [ authenticated ] })
+			@RequirePermission('orders:read')
+			class OrdersController {
+				@Get()
+				list() {
+					return [];
+				}
+
+				@Delete('/:id')
+				@RequirePermission('orders:delete')
+				remove() {
+				}
+			}
+
+			@WebService()
+			class FakeApp {
+				@Mount() orders: OrdersController;
+			}
+
+			await teststrap(FakeApp).get('/orders').set('Authorization', 'Bearer token-bob').expect(200);
+			await teststrap(FakeApp).delete('/orders/1').set('Authorization', 'Bearer token-bob').expect(403);
+			await teststrap(FakeApp).delete('/orders/1').set('Authorization', 'Bearer token-alice').expect(204);
+		});
+
+		it('checks permissions against resources loaded from path parameters using the DI policy', async () => {
+			@Injectable()
+			class OwnerPolicy extends AuthorizationPolicy {
+				hasPermission(user: any, permission: string, resource: any, event: WebEvent) {
+					if (permission === 'orders:update')
+						return resource.owner === user.name;
+
+					return super.hasPermission(user, permission, resource, event);
+				}
+			}
+
+			@WebService({ providers: [ { provide: AuthorizationPolicy, useClass: OwnerPolicy } ] })
+			class FakeApp {
+				@Put('/orders/:id')
+				@UseGuards(authenticated)
+				@RequirePermission('orders:update', { param: 'id', load: id => ORDERS[id] })
+				update() {
+					return { updated: true };
+				}
+			}
+
+			await teststrap(FakeApp).put('/orders/1').set('Authorization', 'Bearer token-bob').expect(200);
+			await teststrap(FakeApp).put('/orders/2').set('Authorization', 'Bearer token-bob').expect(403);
+
+			let response = await teststrap(FakeApp).put('/orders/3').set('Authorization', 'Bearer token-bob').expect(404);
+			expect(response.body.error).to.equal('not-found');
+		});
+
+		it('lists required roles and permissions in route descriptions and OpenAPI output', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/orders', { guards: [ authenticated ] })
+				@RequireRoles('admin', 'customer')
+				@RequirePermission('orders:read')
+				@RequirePermission('orders:export')
+				export() {
+					return [];
+				}
+
+				@Get('/routes')
+				routes(event: WebEvent) {
+					return event.server.serviceDescription.routes.map(x => ({ method: x.method, authorization: x.authorization ?? null }));
+				}
+
+				@Mount('/openapi')
+				openapi: OpenApiController;
+			}
+
+			let response = await teststrap(FakeApp).get('/routes').expect(200);
+			expect(response.body.find(x => x.method === 'export').authorization).to.eql({
+				roles: [ 'admin', 'customer' ],
+				permissions: [ 'orders:read', 'orders:export' ]
+			});
+			expect(response.body.find(x => x.method === 'routes').authorization).to.be.null;
+
+			response = await teststrap(FakeApp).get('/openapi').expect(200);
+			let operation = response.body.paths['/orders'].get;
+
+			expect(operation['x-roles']).to.eql([ 'admin', 'customer' ]);
+			expect(operation['x-permissions']).to.eql([ 'orders:read', 'orders:export' ]);
+			expect(operation.responses['403']).to.exist;
+		});
+	});
+});
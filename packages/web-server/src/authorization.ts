@@ -0,0 +1,156 @@
+import { HttpError } from '@alterior/common';
+import { Injectable } from '@alterior/di';
+import { WebEvent } from './metadata';
+import { Guard, GuardAuthorization, UseGuards } from './guards';
+
+/**
+ * Decides which roles and permissions the authenticated user (see `AuthGuard`) has. Used by `@RequireRoles()` and
+ * `@RequirePermission()`. By default the roles and permissions are read from the `roles` and `permissions` properties
+ * of the user. To customize this (for instance to perform resource-level checks), provide a subclass via dependency
+ * injection:
+ *
+ * ```typescript
+ * @WebService({
+ *     providers: [ { provide: AuthorizationPolicy, useClass: MyPolicy } ]
+ * })
+ * ```
+ */
+@Injectable()
+export class AuthorizationPolicy {
+	/**
+	 * Determine the roles of the given user.
+	 * @param user
+	 * @param event
+	 */
+	getRoles(user: any, event: WebEvent): string[] | Promise<string[]> {
+		return Array.isArray(user?.roles) ? user.roles : [];
+	}
+
+	/**
+	 * Determine whether the given user has the given permission. When the permission applies to a specific resource
+	 * (see `RequirePermissionOptions`), the resource is passed as well.
+	 *
+	 * @param user
+	 * @param permission
+	 * @param resource The resource being accessed, if any
+	 * @param event
+	 */
+	hasPermission(user: any, permission: string, resource: any, event: WebEvent): boolean | Promise<boolean> {
+		return Array.isArray(user?.permissions) && user.permissions.includes(permission);
+	}
+}
+
+const DEFAULT_POLICY = new AuthorizationPolicy();
+
+function getPolicy(event: WebEvent): AuthorizationPolicy {
+	return event.server.injector.get(AuthorizationPolicy, null) ?? DEFAULT_POLICY;
+}
+
+function requireUser(event: WebEvent) {
+	if (event.user === undefined || event.user === null) {
+		throw new HttpError(401, {
+			error: 'unauthorized',
+			message: `Authentication is required.`
+		});
+	}
+
+	return event.user;
+}
+
+/**
+ * Allows requests whose user has at least one of the given roles, as decided by the `AuthorizationPolicy`. Requests
+ * without a user are rejected with `401 Unauthorized`, so this guard must run after the guard which authenticates the
+ * request (ie `AuthGuard`).
+ */
+export class RolesGuard implements Guard {
+	constructor(readonly roles: string[]) {
+		if (!roles?.length)
+			throw new Error(`RolesGuard requires at least one role`);
+	}
+
+	async canActivate(event: WebEvent) {
+		let user = requireUser(event);
+		let roles = await getPolicy(event).getRoles(user, event) ?? [];
+
+		return this.roles.some(x => roles.includes(x));
+	}
+
+	describeAuthorization(): GuardAuthorization {
+		return { roles: this.roles };
+	}
+}
+
+export interface RequirePermissionOptions {
+	/**
+	 * The path parameter which identifies the resource being accessed. Its value is passed to `load()`, or to the
+	 * `AuthorizationPolicy` as the resource when `load()` is not specified.
+	 */
+	param?: string;
+
+	/**
+	 * Load the resource being accessed, so that the `AuthorizationPolicy` can check the permission against it.
+	 * Receives the value of the path parameter named by `param` (if any). When the resource does not exist (resolves
+	 * to undefined or null), the request is rejected with `404 Not Found`. Services can be retrieved using
+	 * `event.inject()`.
+	 */
+	load?: (id: string, event: WebEvent) => any | Promise<any>;
+}
+
+/**
+ * Allows requests whose user has the given permission, as decided by the `AuthorizationPolicy`. Requests without a
+ * user are rejected with `401 Unauthorized`, so this guard must run after the guard which authenticates the request
+ * (ie `AuthGuard`).
+ */
+export class PermissionGuard implements Guard {
+	constructor(readonly permission: string, readonly options: RequirePermissionOptions = {}) {
+		if (!permission)
+			throw new Error(`PermissionGuard requires a permission`);
+	}
+
+	private async getResource(event: WebEvent) {
+		let id: string = this.options.param ? event.request['params']?.[this.options.param] : undefined;
+
+		if (!this.options.load)
+			return id;
+
+		let resource = await this.options.load(id, event);
+		if (resource === undefined || resource === null) {
+			throw new HttpError(404, {
+				error: 'not-found',
+				message: `The requested resource does not exist.`
+			});
+		}
+
+		return resource;
+	}
+
+	async canActivate(event: WebEvent) {
+		let user = requireUser(event);
+		let resource = await this.getResource(event);
+
+		return !!await getPolicy(event).hasPermission(user, this.permission, resource, event);
+	}
+
+	describeAuthorization(): GuardAuthorization {
+		return { permissions: [ this.permission ] };
+	}
+}
+
+/**
+ * Require the user of requests to the routes of a controller (or to a single route method) to have at least one of
+ * the given roles. Requests which are denied are rejected with `403 Forbidden`. Equivalent to
+ * `@UseGuards(new RolesGuard(roles))`.
+ */
+export function RequireRoles(...roles: string[]) {
+	return UseGuards(new RolesGuard(roles));
+}
+
+/**
+ * Require the user of requests to the routes of a controller (or to a single route method) to have the given
+ * permission. Use the options to check the permission against the resource being accessed. When several permissions
+ * are required, all of them must be granted. Requests which are denied are rejected with `403 Forbidden`. Equivalent
+ * to `@UseGuards(new PermissionGuard(permission, options))`.
+ */
+export function RequirePermission(permission: string, options?: RequirePermissionOptions) {
+	return UseGuards(new PermissionGuard(permission, options));
+}
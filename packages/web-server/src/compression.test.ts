@@ -0,0 +1,205 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import { Application } from '@alterior/runtime';
+import * as http from 'http';
+import * as zlib from 'zlib';
+import { Get, ServerSentEvent } from './metadata';
+import { WebService } from './service';
+import { teststrap } from './teststrap';
+import { Response } from './response';
+import { selectEncoding } from './compression';
+
+const LARGE = Array.from({ length: 200 }, (_, i) => ({ id: i, name: `Item ${i}` }));
+
+/**
+ * Collect the raw (undecoded) body of a response.
+ */
+function rawBody(res: any, callback: (err: any, body: Buffer) => void) {
+	let chunks: Buffer[] = [];
+	res.on('data', (chunk: Buffer) => chunks.push(chunk));
+	res.on('end', () => callback(null, Buffer.concat(chunks)));
+}
+
+suite(describe => {
+	describe('selectEncoding()', it => {
+		it('selects the most acceptable encoding', () => {
+			let all: any[] = [ 'br', 'gzip', 'deflate' ];
+
+			expect(selectEncoding(undefined, all)).to.be.undefined;
+			expect(selectEncoding('gzip, deflate', all)).to.equal('gzip');
+			expect(selectEncoding('gzip, deflate, br', all)).to.equal('br');
+			expect(selectEncoding('gzip;q=1, br;q=0.5', all)).to.equal('gzip');
+			expect(selectEncoding('*', all)).to.equal('br');
+			expect(selectEncoding('*, br;q=0', all)).to.equal('gzip');
+			expect(selectEncoding('identity', all)).to.be.undefined;
+			expect(selectEncoding('gzip, br', [ 'gzip' ])).to.equal('gzip');
+		});
+	});
+
+	describe('Compression', it => {
+		it('compresses JSON bodies larger than the threshold', async () => {
+			@WebService({ server: { compression: true } })
+			class FakeApp {
+				@Get('/large')
+				large() {
+					return LARGE;
+				}
+
+				@Get('/small')
+				small() {
+					return { ok: true };
+				}
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.get('/large')
+				.set('Accept-Encoding', 'gzip')
+				.expect(200, LARGE)
+				.expect('Content-Encoding', 'gzip')
+				.expect('Vary', /\bAccept-Encoding\b/);
+
+			await test.get('/small')
+				.set('Accept-Encoding', 'gzip')
+				.expect(200, { ok: true })
+				.expect(res => expect(res.header['content-encoding']).to.be.undefined);
+
+			await test.get('/large')
+				.set('Accept-Encoding', 'identity')
+				.expect(200, LARGE)
+				.expect(res => expect(res.header['content-encoding']).to.be.undefined);
+		});
+
+		it('weakens the ETag of compressed responses', async () => {
+			@WebService({ server: { compression: true } })
+			class FakeApp {
+				@Get('/large', { conditional: true })
+				large() {
+					return LARGE;
+				}
+			}
+
+			let response = await teststrap(FakeApp).get('/large').set('Accept-Encoding', 'gzip').expect(200);
+			let etag = response.header['etag'];
+
+			expect(response.header['content-encoding']).to.equal('gzip');
+			expect(etag).to.match(/^W\/"/);
+
+			response = await teststrap(FakeApp).get('/large').set('Accept-Encoding', 'identity').expect(200);
+			expect(response.header['etag']).to.equal(etag.slice(2));
+
+			await teststrap(FakeApp).get('/large').set('Accept-Encoding', 'gzip').set('If-None-Match', etag).expect(304);
+		});
+
+		it('uses brotli when preferred', async () => {
+			@WebService({ server: { compression: true } })
+			class FakeApp {
+				@Get('/large')
+				large() {
+					return LARGE;
+				}
+			}
+
+			await teststrap(FakeApp).get('/large')
+				.set('Accept-Encoding', 'gzip, br')
+				.buffer(true)
+				.parse(rawBody)
+				.expect(200)
+				.expect('Content-Encoding', 'br')
+				.expect(res => expect(JSON.parse(zlib.brotliDecompressSync(res.body).toString())).to.eql(LARGE));
+		});
+
+		it('only compresses allowed content types', async () => {
+			@WebService({ server: { compression: { threshold: 0 } } })
+			class FakeApp {
+				@Get('/binary')
+				binary() {
+					return Response.ok(Buffer.alloc(2048)).encodeAs('raw').header('Content-Type', 'image/png');
+				}
+
+				@Get('/text')
+				text() {
+					return Response.ok('hello').encodeAs('raw').header('Content-Type', 'text/plain');
+				}
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.get('/binary')
+				.set('Accept-Encoding', 'gzip')
+				.expect(200)
+				.expect(res => expect(res.header['content-encoding']).to.be.undefined);
+
+			await test.get('/text')
+				.set('Accept-Encoding', 'gzip')
+				.expect(200, 'hello')
+				.expect('Content-Encoding', 'gzip');
+		});
+
+		it('compresses streamed responses', async () => {
+			@WebService({ server: { compression: true } })
+			class FakeApp {
+				@Get('/items')
+				async *items() {
+					for (let item of LARGE)
+						yield item;
+				}
+			}
+
+			await teststrap(FakeApp).get('/items')
+				.set('Accept-Encoding', 'deflate')
+				.buffer(true)
+				.parse(rawBody)
+				.expect(200)
+				.expect('Content-Encoding', 'deflate')
+				.expect(res => {
+					// The body has already been decompressed by the client
+					let lines = res.body.toString().trim().split("\n");
+					expect(lines.map(x => JSON.parse(x))).to.eql(LARGE);
+				});
+		});
+
+		it('flushes each server-sent event', async () => {
+			let release: () => void;
+			let released = new Promise<void>(resolve => release = resolve);
+
+			@WebService({ server: { port: 32590, silent: true, compression: true } })
+			class FakeApp {
+				@Get('/events', { stream: 'sse' })
+				async *events(): AsyncIterable<ServerSentEvent> {
+					yield { event: 'greeting', data: 'hello' };
+					await released;
+				}
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true });
+
+			try {
+				let headers: http.IncomingHttpHeaders;
+				let received = await new Promise<string>((resolve, reject) => {
+					http.get('http://localhost:32590/events', { headers: { 'Accept-Encoding': 'gzip' } }, res => {
+						headers = res.headers;
+
+						let text = '';
+						res.pipe(zlib.createGunzip({ finishFlush: zlib.constants.Z_SYNC_FLUSH }))
+							.on('data', chunk => {
+								text += chunk;
+								if (text.includes("\n\n")) {
+									resolve(text);
+									res.destroy();
+								}
+							})
+							.on('error', reject);
+					}).on('error', reject);
+				});
+
+				expect(headers['content-type']).to.equal('text/event-stream');
+				expect(headers['content-encoding']).to.equal('gzip');
+				expect(received).to.equal(`event: greeting\ndata: "hello"\n\n`);
+			} finally {
+				release();
+				app.stop();
+			}
+		});
+	});
+});
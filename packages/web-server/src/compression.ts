@@ -0,0 +1,273 @@
+import * as zlib from 'zlib';
+import type * as http from 'http';
+import { appendVary } from './utils';
+import { ConnectMiddleware } from './web-server-engine';
+
+export type CompressionEncoding = 'br' | 'gzip' | 'deflate';
+
+export interface CompressionOptions {
+	/**
+	 * The encodings which may be used, in order of preference. Defaults to `br`, `gzip` and `deflate`.
+	 */
+	encodings?: CompressionEncoding[];
+
+	/**
+	 * Responses smaller than this (in bytes) are not compressed. Only applies when the size of the response is known
+	 * before it is sent (ie not for streamed responses). Defaults to 1024.
+	 */
+	threshold?: number;
+
+	/**
+	 * The content types which may be compressed. Strings match the media type exactly (ignoring parameters). Defaults
+	 * to text, JSON, NDJSON, XML, JavaScript and event streams.
+	 */
+	contentTypes?: (string | RegExp)[];
+
+	/**
+	 * The compression level used for `gzip` and `deflate` (0-9). Defaults to the zlib default.
+	 */
+	level?: number;
+
+	/**
+	 * The quality used for `br` (0-11). Defaults to 4, which is much faster than the maximum while still compressing
+	 * better than `gzip`.
+	 */
+	brotliQuality?: number;
+}
+
+const DEFAULT_ENCODINGS: CompressionEncoding[] = [ 'br', 'gzip', 'deflate' ];
+
+const DEFAULT_CONTENT_TYPES: (string | RegExp)[] = [
+	/^text\//,
+	/^application\/([a-z0-9.-]+\+)?(json|xml)$/,
+	'application/javascript',
+	'application/x-ndjson'
+];
+
+/**
+ * Normalize the `compression` server option. Returns undefined when compression is not enabled.
+ */
+export function resolveCompressionOptions(option: CompressionOptions | boolean): CompressionOptions {
+	if (!option)
+		return undefined;
+
+	return option === true ? {} : option;
+}
+
+/**
+ * Select the most acceptable of the given encodings according to the given `Accept-Encoding` header. When several
+ * encodings are equally acceptable, the earliest one is selected. Returns undefined when none are acceptable (in
+ * which case the response should not be compressed).
+ *
+ * @param acceptEncoding The value of the `Accept-Encoding` header
+ * @param encodings The encodings which are available, in order of preference
+ */
+export function selectEncoding(acceptEncoding: string | string[], encodings: CompressionEncoding[]): CompressionEncoding {
+	if (Array.isArray(acceptEncoding))
+		acceptEncoding = acceptEncoding.join(',');
+
+	if (!acceptEncoding)
+		return undefined;
+
+	let weights = new Map<string, number>();
+
+	for (let part of acceptEncoding.split(',')) {
+		let [ coding, ...params ] = part.split(';').map(x => x.trim());
+		if (!coding)
+			continue;
+
+		let q = 1;
+		for (let param of params) {
+			let [ key, value ] = param.split('=').map(x => x.trim());
+			if (key === 'q')
+				q = Math.min(1, Math.max(0, Number(value) || 0));
+		}
+
+		weights.set(coding.toLowerCase(), q);
+	}
+
+	let selected: CompressionEncoding;
+	let selectedWeight = 0;
+
+	for (let encoding of encodings) {
+		let weight = weights.get(encoding) ?? weights.get('*') ?? 0;
+		if (weight > selectedWeight) {
+			selected = encoding;
+			selectedWeight = weight;
+		}
+	}
+
+	return selected;
+}
+
+function isCompressible(contentType: string, contentTypes: (string | RegExp)[]) {
+	let mediaType = contentType.split(';')[0].trim().toLowerCase();
+	if (!mediaType)
+		return false;
+
+	return contentTypes.some(x => typeof x === 'string' ? x.toLowerCase() === mediaType : x.test(mediaType));
+}
+
+function createEncoder(encoding: CompressionEncoding, options: CompressionOptions): zlib.Gzip | zlib.Deflate | zlib.BrotliCompress {
+	if (encoding === 'br') {
+		return zlib.createBrotliCompress({
+			params: { [zlib.constants.BROTLI_PARAM_QUALITY]: options.brotliQuality ?? 4 }
+		});
+	}
+
+	if (encoding === 'gzip')
+		return zlib.createGzip({ level: options.level });
+
+	return zlib.createDeflate({ level: options.level });
+}
+
+function toBuffer(chunk: any, encoding?: BufferEncoding) {
+	return typeof chunk === 'string' ? Buffer.from(chunk, encoding) : chunk;
+}
+
+/**
+ * Produce middleware which compresses responses according to the `Accept-Encoding` header of the request. Whether
+ * to compress is decided when the headers of the response are sent, so this applies to any body regardless of how
+ * it is written (including JSON bodies sent by the engine and streamed responses).
+ *
+ * Compressed responses can be flushed via `response.flush()`, which sends the data compressed so far without ending
+ * the response. Streamed responses do this after each item, so that each server-sent event reaches the client
+ * immediately.
+ *
+ * Responses which already have a `Content-Encoding`, or have `Cache-Control: no-transform`, are left alone. The
+ * `ETag` of compressed responses is made weak, as it no longer identifies the exact bytes which are sent.
+ *
+ * @param options
+ */
+export function compressionMiddleware(options: CompressionOptions = {}): ConnectMiddleware {
+	let encodings = options.encodings ?? DEFAULT_ENCODINGS;
+	let contentTypes = options.contentTypes ?? DEFAULT_CONTENT_TYPES;
+	let threshold = options.threshold ?? 1024;
+
+	return (req: http.IncomingMessage, res: http.ServerResponse, next) => {
+		let response: any = res;
+		let write = res.write;
+		let end = res.end;
+		let writeHead = res.writeHead;
+		let encoder: zlib.Gzip | zlib.Deflate | zlib.BrotliCompress;
+		let decided = false;
+		let knownLength: number;
+
+		let start = () => {
+			if (decided)
+				return;
+
+			decided = true;
+
+			if (!isCompressible(String(res.getHeader('Content-Type') ?? ''), contentTypes))
+				return;
+
+			appendVary(res, 'Accept-Encoding');
+
+			if (req.method === 'HEAD' || res.statusCode < 200 || res.statusCode === 204 || res.statusCode === 304)
+				return;
+
+			if (res.getHeader('Content-Encoding') || /\bno-transform\b/i.test(String(res.getHeader('Cache-Control') ?? '')))
+				return;
+
+			// Partial responses describe ranges of the uncompressed representation
+
+			if (res.getHeader('Content-Range'))
+				return;
+
+			let contentLength = res.getHeader('Content-Length');
+			let length = knownLength ?? (contentLength !== undefined ? Number(contentLength) : undefined);
+
+			if (length !== undefined && length < threshold)
+				return;
+
+			let encoding = selectEncoding(req.headers['accept-encoding'], encodings);
+			if (!encoding)
+				return;
+
+			res.setHeader('Content-Encoding', encoding);
+			res.removeHeader('Content-Length');
+
+			// A strong ETag identifies the exact bytes of the (uncompressed) representation, so it cannot be used for
+			// the compressed one (RFC 9110 §8.8.1). A weak ETag still allows If-None-Match revalidation.
+
+			let etag = res.getHeader('ETag');
+			if (typeof etag === 'string' && !etag.startsWith('W/'))
+				res.setHeader('ETag', `W/${etag}`);
+
+			encoder = createEncoder(encoding, options);
+			encoder.on('data', chunk => {
+				if (!write.call(res, chunk))
+					encoder.pause();
+			});
+			encoder.on('drain', () => res.emit('drain'));
+			encoder.on('end', () => end.call(res));
+			encoder.on('error', () => res.destroy());
+			res.on('drain', () => encoder.resume());
+			res.on('close', () => encoder.destroy());
+		};
+
+		// Headers passed directly to writeHead() are not visible via getHeader(), so they are applied beforehand
+		// to allow them to be inspected and adjusted.
+
+		response.writeHead = (statusCode: number, ...args: any[]) => {
+			let headers = typeof args[args.length - 1] === 'object' ? args.pop() : undefined;
+
+			res.statusCode = statusCode;
+
+			if (headers && !Array.isArray(headers)) {
+				for (let name of Object.keys(headers))
+					res.setHeader(name, headers[name]);
+				headers = undefined;
+			}
+
+			start();
+			return writeHead.call(res, statusCode, ...args, ...(headers ? [ headers ] : []));
+		};
+
+		response.write = (chunk: any, encoding?: any, callback?: any) => {
+			start();
+
+			if (!encoder)
+				return write.call(res, chunk, encoding, callback);
+
+			if (typeof encoding === 'function') {
+				callback = encoding;
+				encoding = undefined;
+			}
+
+			return encoder.write(toBuffer(chunk, encoding), callback);
+		};
+
+		response.end = (chunk?: any, encoding?: any, callback?: any) => {
+			if (typeof chunk === 'function') {
+				callback = chunk;
+				chunk = undefined;
+			} else if (typeof encoding === 'function') {
+				callback = encoding;
+				encoding = undefined;
+			}
+
+			if (!res.headersSent && !decided)
+				knownLength = chunk ? Buffer.byteLength(chunk, encoding) : 0;
+
+			start();
+
+			if (!encoder)
+				return end.call(res, chunk, encoding, callback);
+
+			if (callback)
+				res.once('finish', callback);
+
+			if (chunk)
+				encoder.write(toBuffer(chunk, encoding));
+			encoder.end();
+
+			return res;
+		};
+
+		response.flush = () => encoder?.flush();
+
+		next();
+	};
+}
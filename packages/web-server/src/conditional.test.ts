@@ -0,0 +1,221 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import { Get, Put, WebEvent } from './metadata';
+import { WebServerEngine } from './web-server-engine';
+import { Body, PathParam } from './input';
+import { WebService } from './service';
+import { teststrap } from './teststrap';
+import { Response } from './response';
+import { computeETag, matchesETag } from './conditional';
+
+suite(describe => {
+	describe('matchesETag()', it => {
+		it('compares ETags weakly or strongly', () => {
+			expect(matchesETag('"a"', '"a"', false)).to.be.true;
+			expect(matchesETag('"b", "a"', '"a"', false)).to.be.true;
+			expect(matchesETag('W/"a"', '"a"', false)).to.be.false;
+			expect(matchesETag('W/"a"', '"a"', true)).to.be.true;
+			expect(matchesETag('"a"', 'W/"a"', true)).to.be.true;
+			expect(matchesETag('*', '"a"', false)).to.be.true;
+			expect(matchesETag('"b"', '"a"', true)).to.be.false;
+		});
+	});
+
+	describe('Conditional requests', it => {
+		it('sends an ETag and responds to a matching If-None-Match with 304', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/things', { conditional: true })
+				things() {
+					return [ { id: 1 } ];
+				}
+			}
+
+			let test = teststrap(FakeApp);
+			let etag = computeETag([ { id: 1 } ]);
+
+			await test.get('/things')
+				.expect(200, [ { id: 1 } ])
+				.expect('ETag', etag);
+
+			await test.get('/things')
+				.set('If-None-Match', `"other", ${etag}`)
+				.expect(304)
+				.expect('ETag', etag)
+				.expect(res => expect(res.text ?? '').to.equal(''));
+
+			await test.get('/things')
+				.set('If-None-Match', '"other"')
+				.expect(200, [ { id: 1 } ]);
+		});
+
+		it('computes the ETag from the body which is sent', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/things', { conditional: true })
+				things() {
+					return [ { id: 1 } ];
+				}
+
+				@Get('/response', { conditional: true })
+				response() {
+					return Response.ok({ id: 2 });
+				}
+			}
+
+			// Engines may serialize JSON differently than JSON.stringify()
+
+			let engine = WebServerEngine.default.prototype;
+			let sendJsonBody = engine.sendJsonBody;
+
+			engine.sendJsonBody = (routeEvent: WebEvent, body: any) => {
+				routeEvent.response.setHeader('Content-Type', 'application/json; charset=utf-8');
+				routeEvent.response.end(JSON.stringify(body, undefined, 2));
+			};
+
+			try {
+				for (let path of [ '/things', '/response' ]) {
+					let response = await teststrap(FakeApp).get(path).expect(200);
+					expect(response.header['etag']).to.equal(computeETag(response.text));
+				}
+			} finally {
+				engine.sendJsonBody = sendJsonBody;
+			}
+		});
+
+		it('only applies to routes which enable it', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/things')
+				things() {
+					return [];
+				}
+			}
+
+			await teststrap(FakeApp).get('/things')
+				.expect(200)
+				.expect(res => expect(res.header['etag']).to.be.undefined);
+		});
+
+		it('supports weak ETags', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/things', { conditional: { etag: 'weak' }, produces: [ 'text/plain' ] })
+				things() {
+					return 'hello';
+				}
+			}
+
+			let test = teststrap(FakeApp);
+			let etag = computeETag('hello', true);
+
+			await test.get('/things').expect(200).expect('ETag', etag);
+			await test.get('/things').set('If-None-Match', etag.replace('W/', '')).expect(304);
+		});
+
+		it('uses an ETag set by the route', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/things', { conditional: true })
+				things() {
+					return Response.ok({ id: 1 }).header('ETag', '"v1"');
+				}
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.get('/things').expect(200).expect('ETag', '"v1"');
+			await test.get('/things').set('If-None-Match', '"v1"').expect(304);
+		});
+
+		it('honors If-Modified-Since when Last-Modified is known', async () => {
+			let updatedAt = new Date('2024-01-02T03:04:05Z');
+
+			@WebService()
+			class FakeApp {
+				@Get('/things/:id', { conditional: { etag: false, lastModified: thing => thing.updatedAt } })
+				thing() {
+					return { id: 1, updatedAt };
+				}
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.get('/things/1')
+				.expect(200)
+				.expect('Last-Modified', updatedAt.toUTCString())
+				.expect(res => expect(res.header['etag']).to.be.undefined);
+
+			await test.get('/things/1')
+				.set('If-Modified-Since', new Date('2024-01-02T03:04:05.999Z').toUTCString())
+				.expect(304);
+
+			await test.get('/things/1')
+				.set('If-Modified-Since', new Date('2024-01-02T03:04:04Z').toUTCString())
+				.expect(200);
+		});
+
+		it('evaluates If-Match preconditions before calling the route', async () => {
+			let thing = { id: 1, name: 'one' };
+			let calls = 0;
+
+			@WebService()
+			class FakeApp {
+				@Get('/things/:id', { conditional: true })
+				get() {
+					return thing;
+				}
+
+				@Put('/things/:id', {
+					conditional: {
+						current: event => event.request['params'].id === '1' ? { etag: computeETag(thing) } : undefined
+					}
+				})
+				put(@PathParam('id') id: string, @Body() body: any) {
+					calls += 1;
+					thing = { ...thing, ...body };
+					return thing;
+				}
+			}
+
+			let test = teststrap(FakeApp);
+			let etag: string;
+
+			await test.get('/things/1').expect(200).expect(res => etag = res.header['etag']);
+
+			await test.put('/things/1')
+				.set('If-Match', '"stale"')
+				.send({ name: 'two' })
+				.expect(412)
+				.expect(res => expect(res.body.error).to.equal('precondition-failed'));
+			expect(calls).to.equal(0);
+
+			await test.put('/things/1')
+				.set('If-Match', etag)
+				.send({ name: 'two' })
+				.expect(200, { id: 1, name: 'two' });
+			expect(calls).to.equal(1);
+
+			// The previous ETag is no longer current
+
+			await test.put('/things/1')
+				.set('If-Match', etag)
+				.send({ name: 'three' })
+				.expect(412);
+
+			await test.put('/things/2')
+				.set('If-Match', '*')
+				.send({ name: 'three' })
+				.expect(412);
+
+			await test.put('/things/1')
+				.set('If-None-Match', '*')
+				.send({ name: 'three' })
+				.expect(412);
+
+			await test.put('/things/1')
+				.send({ name: 'three' })
+				.expect(200, { id: 1, name: 'three' });
+		});
+	});
+});
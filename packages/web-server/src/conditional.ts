@@ -0,0 +1,148 @@
+import * as crypto from 'crypto';
+import type * as http from 'http';
+import { WebEvent } from './metadata';
+
+/**
+ * The validators of the current state of a resource. See `ConditionalOptions.current`.
+ */
+export interface ResourceValidators {
+	etag?: string;
+	lastModified?: Date;
+}
+
+export interface ConditionalOptions {
+	/**
+	 * Whether to send a strong (the default) or weak ETag, which is computed by hashing the serialized body. Set to
+	 * `false` to only use `Last-Modified`. An `ETag` header set by the route itself is used as-is.
+	 */
+	etag?: 'strong' | 'weak' | false;
+
+	/**
+	 * Determine the time at which the value returned by the route was last modified (ie from its `updatedAt`
+	 * property), for use in the `Last-Modified` header.
+	 */
+	lastModified?: (value: any) => Date;
+
+	/**
+	 * Determine the validators of the current state of the resource targeted by the request. When provided, the
+	 * `If-Match`, `If-None-Match` and `If-Unmodified-Since` preconditions of unsafe requests (ie PUT and PATCH) are
+	 * evaluated before the route method is called, and requests which fail them receive `412 Precondition Failed`.
+	 * Return `undefined` or `null` when the resource does not exist. Use `computeETag()` to compute an ETag which
+	 * matches those sent for GET requests.
+	 */
+	current?: (event: WebEvent) => ResourceValidators | Promise<ResourceValidators>;
+}
+
+/**
+ * Normalize the `conditional` route option. Returns undefined when conditional requests are not enabled.
+ */
+export function resolveConditionalOptions(option: ConditionalOptions | boolean): ConditionalOptions {
+	if (!option)
+		return undefined;
+
+	return option === true ? {} : option;
+}
+
+/**
+ * Compute an ETag for the given body by hashing it. Values which are not strings or Buffers are serialized as JSON
+ * first, matching the body sent for JSON responses.
+ *
+ * @param body
+ * @param weak Whether to produce a weak ETag
+ */
+export function computeETag(body: any, weak = false) {
+	let content = typeof body === 'string' || body instanceof Uint8Array ? body : JSON.stringify(body ?? null);
+	let hash = crypto.createHash('sha1').update(content).digest('base64').replace(/=+$/, '');
+
+	return `${weak ? 'W/' : ''}"${hash}"`;
+}
+
+function parseETags(header: string) {
+	return header.split(',').map(x => x.trim()).filter(x => x);
+}
+
+/**
+ * Determine whether the given ETag matches any of those in the given `If-Match` or `If-None-Match` header.
+ *
+ * @param header The value of the header
+ * @param etag The ETag to compare
+ * @param weakComparison Whether to use weak comparison (where weak ETags match the strong ETag with the same value).
+ *     `If-None-Match` uses weak comparison, while `If-Match` uses strong comparison.
+ */
+export function matchesETag(header: string, etag: string, weakComparison: boolean) {
+	if (!etag)
+		return false;
+
+	return parseETags(header).some(candidate => {
+		if (candidate === '*')
+			return true;
+
+		if (weakComparison)
+			return candidate.replace(/^W\//, '') === etag.replace(/^W\//, '');
+
+		return !candidate.startsWith('W/') && !etag.startsWith('W/') && candidate === etag;
+	});
+}
+
+function parseDate(value: string | string[]) {
+	let date = new Date(String(value ?? ''));
+	return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Truncate the given date to whole seconds, which is the precision of HTTP dates.
+ */
+function seconds(date: Date) {
+	return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Determine whether the client's cached copy of a response with the given validators is still current, based on
+ * the `If-None-Match` and `If-Modified-Since` headers of the request.
+ *
+ * @param request
+ * @param validators
+ */
+export function isNotModified(request: http.IncomingMessage, validators: ResourceValidators) {
+	let ifNoneMatch = request.headers['if-none-match'];
+
+	if (ifNoneMatch)
+		return matchesETag(ifNoneMatch, validators.etag, true);
+
+	let ifModifiedSince = parseDate(request.headers['if-modified-since']);
+
+	if (ifModifiedSince && validators.lastModified)
+		return seconds(validators.lastModified) <= seconds(ifModifiedSince);
+
+	return false;
+}
+
+/**
+ * Determine whether the preconditions of an unsafe request (`If-Match`, `If-None-Match`, `If-Unmodified-Since`) are
+ * satisfied by the current state of the resource.
+ *
+ * @param request
+ * @param current The validators of the resource, or undefined if it does not exist
+ */
+export function preconditionsSatisfied(request: http.IncomingMessage, current: ResourceValidators) {
+	let ifMatch = request.headers['if-match'];
+	let ifNoneMatch = request.headers['if-none-match'];
+	let ifUnmodifiedSince = parseDate(request.headers['if-unmodified-since']);
+
+	if (ifMatch) {
+		if (!current)
+			return false;
+		if (ifMatch.trim() !== '*' && !matchesETag(ifMatch, current.etag, false))
+			return false;
+	} else if (ifUnmodifiedSince && current?.lastModified) {
+		if (seconds(current.lastModified) > seconds(ifUnmodifiedSince))
+			return false;
+	}
+
+	if (ifNoneMatch && current) {
+		if (ifNoneMatch.trim() === '*' || matchesETag(ifNoneMatch, current.etag, true))
+			return false;
+	}
+
+	return true;
+}
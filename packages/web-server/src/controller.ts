@@ -1,6 +1,6 @@
 import { WebServer } from "./web-server";
 import { Provider, ReflectiveInjector, Injector } from "@alterior/di";
-import { RouteInstance } from './route';
+import { RouteInstance, RouteTableEntry } from './route';
 import { ControllerAnnotation, ControllerOptions, MountOptions, RouteReflector, MiddlewareDefinition } from "./metadata";
 import { prepareMiddleware } from "./middleware";
 import { ConnectMiddleware } from "./web-server-engine";
@@ -21,7 +21,7 @@ export class ControllerInstance {
 		readonly server : WebServer,
 		readonly type : Function, 
 		readonly injector : Injector, 
-		readonly routeTable : any[], 
+		readonly routeTable : RouteTableEntry[], 
 		context? : ControllerContext,
 		readonly isModule = false
 	) {
@@ -151,7 +151,8 @@ export class ControllerInstance {
 				this.group, 
 				this.type, 
 				this.routeTable,
-				definition
+				definition,
+				this.options
 			)
 		);
 	}
@@ -0,0 +1,101 @@
+import * as http from 'http';
+
+export interface CookieAttributes {
+	maxAge?: number;
+	expires?: Date;
+	domain?: string;
+	path?: string;
+	secure?: boolean;
+	httpOnly?: boolean;
+	sameSite?: 'strict' | 'lax' | 'none';
+}
+
+/**
+ * Parse the value of a `Cookie` request header into a map of cookie names to (decoded) values. When a cookie is
+ * specified more than once, the first value is used.
+ *
+ * @param header
+ */
+export function parseCookies(header: string | string[]): Record<string, string> {
+	let cookies: Record<string, string> = {};
+
+	if (Array.isArray(header))
+		header = header.join('; ');
+
+	if (!header)
+		return cookies;
+
+	for (let pair of header.split(';')) {
+		let index = pair.indexOf('=');
+		if (index < 0)
+			continue;
+
+		let name = pair.slice(0, index).trim();
+		let value = pair.slice(index + 1).trim();
+
+		if (value.startsWith('"') && value.endsWith('"'))
+			value = value.slice(1, -1);
+
+		if (!name || name in cookies)
+			continue;
+
+		try {
+			cookies[name] = decodeURIComponent(value);
+		} catch (e) {
+			cookies[name] = value;
+		}
+	}
+
+	return cookies;
+}
+
+/**
+ * Retrieve the cookies sent with the given request.
+ * @param request
+ */
+export function getRequestCookies(request: http.IncomingMessage): Record<string, string> {
+	return parseCookies(request.headers?.cookie);
+}
+
+/**
+ * Produce the value of a `Set-Cookie` header for the given cookie.
+ *
+ * @param name
+ * @param value
+ * @param attributes
+ */
+export function serializeCookie(name: string, value: string, attributes: CookieAttributes = {}) {
+	let parts = [ `${name}=${encodeURIComponent(value)}` ];
+
+	if (attributes.maxAge !== undefined)
+		parts.push(`Max-Age=${Math.floor(attributes.maxAge)}`);
+	if (attributes.expires)
+		parts.push(`Expires=${attributes.expires.toUTCString()}`);
+	if (attributes.domain)
+		parts.push(`Domain=${attributes.domain}`);
+	if (attributes.path)
+		parts.push(`Path=${attributes.path}`);
+	if (attributes.secure)
+		parts.push(`Secure`);
+	if (attributes.httpOnly)
+		parts.push(`HttpOnly`);
+	if (attributes.sameSite)
+		parts.push(`SameSite=${attributes.sameSite.charAt(0).toUpperCase()}${attributes.sameSite.slice(1)}`);
+
+	return parts.join('; ');
+}
+
+/**
+ * Add a `Set-Cookie` header to the given response, preserving any cookies which have already been set.
+ *
+ * @param response
+ * @param name
+ * @param value
+ * @param attributes
+ */
+export function setResponseCookie(response: http.ServerResponse, name: string, value: string, attributes?: CookieAttributes) {
+	let existing = response.getHeader('Set-Cookie');
+	let cookies: string[] = existing === undefined ? [] : (Array.isArray(existing) ? existing : [ String(existing) ]);
+
+	response.setHeader('Set-Cookie', [ ...cookies, serializeCookie(name, value, attributes) ]);
+}
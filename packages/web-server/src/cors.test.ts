@@ -0,0 +1,217 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import { Controller, Get, Mount, Options, Put } from './metadata';
+import { WebService } from './service';
+import { teststrap } from './teststrap';
+import { resolveCorsOptions } from './cors';
+
+suite(describe => {
+	describe('resolveCorsOptions()', it => {
+		it('combines levels, with more specific levels taking precedence', () => {
+			expect(resolveCorsOptions(undefined, undefined, undefined)).to.be.undefined;
+			expect(resolveCorsOptions(true, undefined, undefined)).to.eql({});
+			expect(resolveCorsOptions({ origin: 'a', maxAge: 10 }, { origin: 'b' }, undefined)).to.eql({ origin: 'b', maxAge: 10 });
+			expect(resolveCorsOptions({ origin: 'a' }, false, undefined)).to.be.undefined;
+			expect(resolveCorsOptions({ origin: 'a' }, false, { origin: 'b', credentials: true })).to.eql({ origin: 'b', credentials: true });
+		});
+
+		it('requires the origins to be restricted when allowing credentials', () => {
+			expect(() => resolveCorsOptions({ credentials: true })).to.throw();
+			expect(() => resolveCorsOptions({ origin: 'a', credentials: true }, { origin: '*' })).to.throw();
+			expect(resolveCorsOptions({ origin: 'a', credentials: true })).to.eql({ origin: 'a', credentials: true });
+		});
+	});
+
+	describe('CORS', it => {
+		it('allows any origin when enabled on the server', async () => {
+			@WebService({ server: { cors: true } })
+			class FakeApp {
+				@Get('/items')
+				items() {
+					return [];
+				}
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.get('/items')
+				.set('Origin', 'https://example.com')
+				.expect(200)
+				.expect('Access-Control-Allow-Origin', '*');
+
+			await test.get('/items')
+				.expect(200)
+				.expect(res => expect(res.header['access-control-allow-origin']).to.be.undefined);
+		});
+
+		it('answers preflight requests using the routes of the path', async () => {
+			@WebService({ server: { cors: { maxAge: 600 } } })
+			class FakeApp {
+				@Get('/items/:id')
+				get() {
+					return {};
+				}
+
+				@Put('/items/:id')
+				put() {
+					return {};
+				}
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.options('/items/123')
+				.set('Origin', 'https://example.com')
+				.set('Access-Control-Request-Method', 'PUT')
+				.set('Access-Control-Request-Headers', 'content-type, x-custom')
+				.expect(204)
+				.expect('Access-Control-Allow-Origin', '*')
+				.expect('Access-Control-Allow-Methods', 'GET, PUT')
+				.expect('Access-Control-Allow-Headers', 'content-type, x-custom')
+				.expect('Access-Control-Max-Age', '600')
+				.expect('Vary', 'Access-Control-Request-Headers');
+		});
+
+		it('only allows the configured origins', async () => {
+			@WebService({
+				server: {
+					cors: {
+						origin: [ 'https://example.com', /^https:\/\/[a-z]+\.example\.org$/ ],
+						exposedHeaders: [ 'X-Total-Count' ]
+					}
+				}
+			})
+			class FakeApp {
+				@Get('/items')
+				items() {
+					return [];
+				}
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.get('/items')
+				.set('Origin', 'https://example.com')
+				.expect('Access-Control-Allow-Origin', 'https://example.com')
+				.expect('Access-Control-Expose-Headers', 'X-Total-Count')
+				.expect('Vary', /\bOrigin\b/);
+
+			await test.get('/items')
+				.set('Origin', 'https://api.example.org')
+				.expect('Access-Control-Allow-Origin', 'https://api.example.org');
+
+			await test.get('/items')
+				.set('Origin', 'https://evil.com')
+				.expect(200)
+				.expect(res => expect(res.header['access-control-allow-origin']).to.be.undefined);
+
+			await test.options('/items')
+				.set('Origin', 'https://evil.com')
+				.set('Access-Control-Request-Method', 'GET')
+				.expect(204)
+				.expect(res => expect(res.header['access-control-allow-methods']).to.be.undefined);
+		});
+
+		it('sends the origin when allowing credentials', async () => {
+			@WebService({
+				server: {
+					cors: { origin: (origin: string) => origin.endsWith('.example.com'), credentials: true }
+				}
+			})
+			class FakeApp {
+				@Get('/items')
+				items() {
+					return [];
+				}
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.get('/items')
+				.set('Origin', 'https://app.example.com')
+				.expect('Access-Control-Allow-Origin', 'https://app.example.com')
+				.expect('Access-Control-Allow-Credentials', 'true');
+
+			await test.get('/items')
+				.set('Origin', 'https://example.net')
+				.expect(res => expect(res.header['access-control-allow-origin']).to.be.undefined);
+		});
+
+		it('can be configured by controllers and routes', async () => {
+			@Controller('/api', { cors: { origin: 'https://example.com' } })
+			class ApiController {
+				@Get('/public', { cors: { origin: '*' } })
+				publicItems() {
+					return {};
+				}
+
+				@Get('/private', { cors: false })
+				privateItems() {
+					return {};
+				}
+
+				@Get('/default')
+				defaultItems() {
+					return {};
+				}
+			}
+
+			@WebService()
+			class FakeApp {
+				@Mount()
+				api: ApiController;
+
+				@Get('/other')
+				other() {
+					return {};
+				}
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.get('/api/public')
+				.set('Origin', 'https://elsewhere.com')
+				.expect('Access-Control-Allow-Origin', '*');
+
+			await test.get('/api/private')
+				.set('Origin', 'https://example.com')
+				.expect(res => expect(res.header['access-control-allow-origin']).to.be.undefined);
+
+			await test.get('/api/default')
+				.set('Origin', 'https://example.com')
+				.expect('Access-Control-Allow-Origin', 'https://example.com');
+
+			await test.options('/api/default')
+				.set('Origin', 'https://example.com')
+				.set('Access-Control-Request-Method', 'GET')
+				.expect(204)
+				.expect('Access-Control-Allow-Methods', 'GET');
+
+			await test.get('/other')
+				.set('Origin', 'https://example.com')
+				.expect(res => expect(res.header['access-control-allow-origin']).to.be.undefined);
+		});
+
+		it('leaves paths with an explicit OPTIONS route alone', async () => {
+			@WebService({ server: { cors: true } })
+			class FakeApp {
+				@Get('/items')
+				items() {
+					return [];
+				}
+
+				@Options('/items')
+				options() {
+					return { custom: true };
+				}
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.options('/items')
+				.set('Origin', 'https://example.com')
+				.set('Access-Control-Request-Method', 'GET')
+				.expect(200, { custom: true });
+		});
+	});
+});
@@ -0,0 +1,177 @@
+import type * as http from 'http';
+import { WebEvent } from './metadata';
+import type { RouteInstance } from './route';
+import { appendVary } from './utils';
+import { ConnectMiddleware } from './web-server-engine';
+import { WebServerSetupError } from './web-server-setup-error';
+
+/**
+ * Determines which origins may make cross-origin requests:
+ * - `'*'` or `true`: Any origin
+ * - `false`: No origin
+ * - A string: The given origin (ie `https://example.com`)
+ * - A RegExp: Origins which match the pattern
+ * - An array: Origins which match any of the strings or patterns
+ * - A function: Origins for which the function returns true
+ */
+export type CorsOrigin = boolean | string | RegExp | (string | RegExp)[]
+	| ((origin: string, event: WebEvent) => boolean | Promise<boolean>);
+
+export interface CorsOptions {
+	/**
+	 * The origins which may make cross-origin requests. Defaults to any origin. See `CorsOrigin`.
+	 */
+	origin?: CorsOrigin;
+
+	/**
+	 * Whether the response can be shared when the request includes credentials (cookies, HTTP authentication).
+	 * Requires `origin` to restrict the allowed origins, as allowing credentialed requests from any origin would let
+	 * any website act on behalf of the user.
+	 */
+	credentials?: boolean;
+
+	/**
+	 * The response headers which scripts may access, in addition to the CORS-safelisted response headers.
+	 */
+	exposedHeaders?: string[];
+
+	/**
+	 * The request headers which may be used. Defaults to the headers requested by the preflight request.
+	 */
+	allowedHeaders?: string[];
+
+	/**
+	 * The methods which may be used. Defaults to the methods of the routes which exist for the path.
+	 */
+	methods?: string[];
+
+	/**
+	 * How long (in seconds) the results of a preflight request can be cached.
+	 */
+	maxAge?: number;
+}
+
+/**
+ * Combine the CORS configuration of the server, controller and route (in that order). Options from more specific
+ * levels override those of less specific levels. Setting a level to `false` disables CORS, unless a more specific
+ * level enables it again. Returns undefined when CORS is disabled. Throws a `WebServerSetupError` when the resulting
+ * options allow credentials from any origin.
+ *
+ * @param levels
+ */
+export function resolveCorsOptions(...levels: (CorsOptions | boolean)[]): CorsOptions {
+	let resolved: CorsOptions;
+
+	for (let level of levels) {
+		if (level === undefined || level === null)
+			continue;
+
+		if (level === false)
+			resolved = undefined;
+		else
+			resolved = { ...resolved, ...(level === true ? {} : level) };
+	}
+
+	if (resolved?.credentials && isAnyOrigin(resolved.origin)) {
+		throw new WebServerSetupError(
+			`CORS: The credentials option requires the allowed origins to be restricted via the origin option`
+		);
+	}
+
+	return resolved;
+}
+
+function isAnyOrigin(origin: CorsOrigin) {
+	return [ undefined, true, '*' ].includes(<any>origin);
+}
+
+/**
+ * Determine whether the given origin is allowed by the given option.
+ */
+export async function isOriginAllowed(origin: string, allowed: CorsOrigin, event: WebEvent): Promise<boolean> {
+	if (allowed === undefined || allowed === true || allowed === '*')
+		return true;
+
+	if (allowed === false)
+		return false;
+
+	if (typeof allowed === 'function')
+		return !!(await allowed(origin, event));
+
+	return (Array.isArray(allowed) ? allowed : [ allowed ])
+		.some(x => typeof x === 'string' ? x === origin : x.test(origin));
+}
+
+/**
+ * Set the headers which allow the origin of the request to access the response, if it is allowed to. Returns false
+ * if the origin is not allowed.
+ */
+async function allowOrigin(event: WebEvent, options: CorsOptions) {
+	let response = event.response;
+	let origin = <string>event.request.headers.origin;
+	let anyOrigin = isAnyOrigin(options.origin);
+
+	if (!anyOrigin)
+		appendVary(response, 'Origin');
+
+	if (!await isOriginAllowed(origin, options.origin, event))
+		return false;
+
+	response.setHeader('Access-Control-Allow-Origin', anyOrigin ? '*' : origin);
+
+	if (options.credentials)
+		response.setHeader('Access-Control-Allow-Credentials', 'true');
+
+	return true;
+}
+
+/**
+ * Produce middleware which applies the given CORS options to (non-preflight) requests.
+ * @param options
+ */
+export function corsMiddleware(options: CorsOptions): ConnectMiddleware {
+	return async (req: http.IncomingMessage, res: http.ServerResponse, next) => {
+		try {
+			if (req.headers.origin && await allowOrigin(WebEvent.current, options) && options.exposedHeaders?.length > 0)
+				res.setHeader('Access-Control-Expose-Headers', options.exposedHeaders.join(', '));
+		} catch (e) {
+			next(e);
+			return;
+		}
+
+		next();
+	};
+}
+
+/**
+ * Set the headers which answer a CORS preflight request for a path served by the given routes. The CORS options of
+ * the route for the requested method are used. When the request is not a preflight request, or the requested method
+ * is not allowed, no headers are set, which causes the browser to reject the cross-origin request.
+ *
+ * @param event
+ * @param routes The routes which exist for the path of the request
+ */
+export async function applyPreflightHeaders(event: WebEvent, routes: RouteInstance[]) {
+	let request = event.request;
+	let response = event.response;
+	let requestedMethod = String(request.headers['access-control-request-method'] ?? '').toUpperCase();
+	let corsRoutes = routes.filter(x => x.corsOptions);
+	let route = corsRoutes.find(x => x.definition.httpMethod === (requestedMethod === 'HEAD' ? 'GET' : requestedMethod));
+	let options = route?.corsOptions;
+
+	if (request.headers.origin && options && await allowOrigin(event, options)) {
+		let methods = options.methods ?? Array.from(new Set(corsRoutes.map(x => x.definition.httpMethod)));
+		let allowedHeaders = options.allowedHeaders?.join(', ');
+
+		if (!allowedHeaders) {
+			allowedHeaders = <string>request.headers['access-control-request-headers'];
+			appendVary(response, 'Access-Control-Request-Headers');
+		}
+
+		response.setHeader('Access-Control-Allow-Methods', methods.join(', '));
+		if (allowedHeaders)
+			response.setHeader('Access-Control-Allow-Headers', allowedHeaders);
+		if (options.maxAge !== undefined)
+			response.setHeader('Access-Control-Max-Age', String(options.maxAge));
+	}
+}
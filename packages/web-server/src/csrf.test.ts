@@ -0,0 +1,163 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import { teststrap } from './teststrap';
+import { WebService } from './service';
+import { Controller, Get, Mount, Post } from './metadata';
+import { MemorySessionStore } from './session';
+import { csrfToken } from './csrf';
+import { parseCookies } from './cookies';
+
+function getCookie(response: any, name: string): string {
+	return (response.header['set-cookie'] ?? []).find((x: string) => x.startsWith(`${name}=`));
+}
+
+function cookieValue(header: string) {
+	return Object.values(parseCookies(header.split(';')[0]))[0];
+}
+
+suite(describe => {
+	describe('CSRF protection', it => {
+		it('issues a token cookie and requires it in the header of unsafe requests', async () => {
+			@WebService({ server: { csrf: true } })
+			class FakeApp {
+				@Get('/form')
+				form() {
+					return { token: csrfToken() };
+				}
+
+				@Post('/submit')
+				submit() {
+					return { ok: true };
+				}
+			}
+
+			let response = await teststrap(FakeApp).get('/form').expect(200);
+			let header = getCookie(response, 'XSRF-TOKEN');
+			let token = cookieValue(header);
+
+			expect(header).to.include('Path=/');
+			expect(header).not.to.include('HttpOnly');
+			expect(response.body.token).to.equal(token);
+
+			response = await teststrap(FakeApp).post('/submit').set('Cookie', `XSRF-TOKEN=${token}`).expect(403);
+			expect(response.body.error).to.equal('invalid-csrf-token');
+
+			await teststrap(FakeApp).post('/submit')
+				.set('Cookie', `XSRF-TOKEN=${token}`)
+				.set('X-XSRF-TOKEN', 'something-else')
+				.expect(403);
+
+			// Without the cookie, the header alone is not sufficient
+
+			await teststrap(FakeApp).post('/submit').set('X-XSRF-TOKEN', token).expect(403);
+
+			response = await teststrap(FakeApp).post('/submit')
+				.set('Cookie', `XSRF-TOKEN=${token}`)
+				.set('X-XSRF-TOKEN', token)
+				.expect(200);
+
+			expect(response.body).to.eql({ ok: true });
+			expect(getCookie(response, 'XSRF-TOKEN')).to.be.undefined;
+		});
+
+		it('rejects tokens which were not signed when a secret is configured', async () => {
+			@WebService({ server: { csrf: { secret: 'secret', cookieName: 'csrf', headerName: 'X-CSRF-Token' } } })
+			class FakeApp {
+				@Post('/submit')
+				submit() {
+					return { ok: true };
+				}
+			}
+
+			let response = await teststrap(FakeApp).post('/submit')
+				.set('Cookie', `csrf=chosen-by-attacker`)
+				.set('X-CSRF-Token', 'chosen-by-attacker')
+				.expect(403);
+
+			let token = cookieValue(getCookie(response, 'csrf'));
+			expect(token).not.to.equal('chosen-by-attacker');
+
+			await teststrap(FakeApp).post('/submit')
+				.set('Cookie', `csrf=${token}`)
+				.set('X-CSRF-Token', token)
+				.expect(200);
+		});
+
+		it('allows controllers and routes to opt out', async () => {
+			@Controller('/hooks', { csrf: false })
+			class HooksController {
+				@Post('/payment')
+				payment() {
+					return { ok: true };
+				}
+
+				@Post('/protected', { csrf: true })
+				guarded() {
+					return { ok: true };
+				}
+			}
+
+			@WebService({ server: { csrf: true } })
+			class FakeApp {
+				@Mount() hooks: HooksController;
+
+				@Post('/callback', { csrf: false })
+				callback() {
+					return { ok: true };
+				}
+			}
+
+			await teststrap(FakeApp).post('/hooks/payment').expect(200);
+			await teststrap(FakeApp).post('/callback').expect(200);
+			await teststrap(FakeApp).post('/hooks/protected').expect(403);
+		});
+
+		it('keeps the token in the session in synchronizer mode', async () => {
+			let store = new MemorySessionStore();
+
+			@WebService({ server: { session: { secret: 'secret', store }, csrf: { mode: 'synchronizer' } } })
+			class FakeApp {
+				@Get('/form')
+				form() {
+					return { token: csrfToken() };
+				}
+
+				@Get('/page')
+				page() {
+					return { ok: true };
+				}
+
+				@Post('/submit')
+				submit() {
+					return { ok: true };
+				}
+			}
+
+			// Requests which do not use the token do not create sessions
+
+			let response = await teststrap(FakeApp).get('/page').expect(200);
+			expect(response.header['set-cookie']).to.be.undefined;
+			expect(store.size).to.equal(0);
+
+			response = await teststrap(FakeApp).get('/form').expect(200);
+			let token = response.body.token;
+			let session = getCookie(response, 'sid').split(';')[0];
+
+			expect(cookieValue(getCookie(response, 'XSRF-TOKEN'))).to.equal(token);
+			expect(store.size).to.equal(1);
+
+			response = await teststrap(FakeApp).get('/page').set('Cookie', `${session}; XSRF-TOKEN=${token}`).expect(200);
+			expect(response.header['set-cookie']).to.be.undefined;
+
+			await teststrap(FakeApp).post('/submit').set('Cookie', session).set('X-XSRF-TOKEN', token).expect(200);
+
+			// The token only belongs to its session
+
+			response = await teststrap(FakeApp).get('/form').expect(200);
+			let otherSession = getCookie(response, 'sid').split(';')[0];
+
+			await teststrap(FakeApp).post('/submit').set('Cookie', otherSession).set('X-XSRF-TOKEN', token).expect(403);
+			await teststrap(FakeApp).post('/submit').set('X-XSRF-TOKEN', token).expect(403);
+		});
+	});
+});
@@ -0,0 +1,208 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { HttpError } from '@alterior/common';
+import { WebEvent } from './metadata';
+import { CookieAttributes, getRequestCookies, setResponseCookie } from './cookies';
+import { signSessionId, unsignSessionId } from './session';
+import { ConnectMiddleware } from './web-server-engine';
+
+/**
+ * How CSRF tokens are validated:
+ * - `double-submit`: The token is only kept in the cookie. Unsafe requests must send the value of the cookie in the
+ *   header, which only scripts running on an origin that can read the cookie are able to do.
+ * - `synchronizer`: The token is kept in the session (see `Session`), and unsafe requests must send it in the
+ *   header. The cookie is still issued so that clients can read the token. Tokens are only added to sessions which
+ *   already exist, or when requested via `csrfToken()`, so that requests do not create sessions otherwise.
+ *   Requires sessions to be enabled.
+ */
+export type CsrfMode = 'double-submit' | 'synchronizer';
+
+export interface CsrfOptions {
+	/**
+	 * How tokens are validated. Defaults to `double-submit`. See `CsrfMode`.
+	 */
+	mode?: CsrfMode;
+
+	/**
+	 * The name of the cookie which holds the token. Defaults to `XSRF-TOKEN`, as expected by `HttpClientXsrfModule`
+	 * of `@alterior/http`.
+	 */
+	cookieName?: string;
+
+	/**
+	 * The name of the header which must hold the token. Defaults to `X-XSRF-TOKEN`, as sent by
+	 * `HttpClientXsrfModule` of `@alterior/http`.
+	 */
+	headerName?: string;
+
+	/**
+	 * Attributes of the cookie. Defaults to `Path=/` and `SameSite=Lax`. The cookie cannot be `HttpOnly`, as clients
+	 * must be able to read it.
+	 */
+	cookie?: Omit<CookieAttributes, 'httpOnly'>;
+
+	/**
+	 * When specified, tokens issued in `double-submit` mode are signed using this secret, and tokens which were not
+	 * signed by it are rejected. This prevents an attacker who can set cookies for the domain (ie from a subdomain)
+	 * from choosing the token. When an array is given, tokens are signed using the first secret, but tokens signed
+	 * with any of the secrets are accepted.
+	 */
+	secret?: string | string[];
+
+	/**
+	 * The session property which holds the token in `synchronizer` mode. Defaults to `csrfToken`.
+	 */
+	sessionKey?: string;
+
+	/**
+	 * The methods which do not require a token. Defaults to `GET`, `HEAD` and `OPTIONS`.
+	 */
+	ignoredMethods?: string[];
+}
+
+interface CsrfState {
+	/**
+	 * The token issued to the client.
+	 */
+	token: string;
+
+	/**
+	 * The token which requests must send in the header, if any.
+	 */
+	expected: string;
+
+	/**
+	 * Issues a token when the request does not have one yet, see `csrfToken()`.
+	 */
+	issue?: () => string;
+}
+
+const CSRF_STATE = Symbol('CSRF state');
+
+/**
+ * Resolve the `csrf` server option. Returns undefined when CSRF protection is disabled.
+ * @param option
+ */
+export function resolveCsrfOptions(option: CsrfOptions | boolean): CsrfOptions {
+	if (!option)
+		return undefined;
+
+	return option === true ? {} : option;
+}
+
+function generateToken() {
+	return crypto.randomBytes(24).toString('base64url');
+}
+
+function safeEqual(a: string, b: string) {
+	let bufferA = Buffer.from(a ?? '');
+	let bufferB = Buffer.from(b ?? '');
+
+	return bufferA.length > 0 && bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Produce middleware which issues the CSRF token of each request via the cookie (when the client does not already
+ * hold the current token). The token is validated by the routes of the server, see `csrfProtection()`. In
+ * `synchronizer` mode, this must be installed after the session middleware.
+ *
+ * @param options
+ */
+export function csrfMiddleware(options: CsrfOptions): ConnectMiddleware {
+	let mode = options.mode ?? 'double-submit';
+	let cookieName = options.cookieName ?? 'XSRF-TOKEN';
+	let sessionKey = options.sessionKey ?? 'csrfToken';
+	let secrets: string[] = [].concat(options.secret ?? []).filter(x => x);
+	let cookieAttributes: CookieAttributes = { path: '/', sameSite: 'lax', ...options.cookie, httpOnly: false };
+
+	if (![ 'double-submit', 'synchronizer' ].includes(mode))
+		throw new Error(`Unsupported CSRF mode '${mode}'`);
+
+	return (req: http.IncomingMessage, res: http.ServerResponse, next) => {
+		let cookie = getRequestCookies(req)[cookieName];
+		let state: CsrfState;
+
+		if (mode === 'synchronizer') {
+			let session = req['session'];
+			if (!session) {
+				next(new Error(`CSRF protection in synchronizer mode requires sessions (see the session server option)`));
+				return;
+			}
+
+			// Only sessions which already exist receive a token here, as adding one to a new session would save it
+
+			if (!session[sessionKey] && Object.keys(session).length > 0)
+				session[sessionKey] = generateToken();
+
+			state = { token: session[sessionKey], expected: session[sessionKey] };
+
+			if (!state.token) {
+				state.issue = () => {
+					state.token = state.expected = session[sessionKey] = generateToken();
+
+					if (!res.headersSent)
+						setResponseCookie(res, cookieName, state.token, cookieAttributes);
+
+					return state.token;
+				};
+			}
+		} else {
+			let valid = cookie && (secrets.length === 0 || unsignSessionId(cookie, secrets));
+			let token = valid ? cookie : (secrets.length > 0 ? signSessionId(generateToken(), secrets[0]) : generateToken());
+
+			// The header must match the cookie which was sent with the request, not a newly issued one
+
+			state = { token, expected: valid ? cookie : undefined };
+		}
+
+		req[CSRF_STATE] = state;
+
+		if (state.token && cookie !== state.token)
+			setResponseCookie(res, cookieName, state.token, cookieAttributes);
+
+		next();
+	};
+}
+
+/**
+ * Produce middleware which rejects requests using unsafe methods with `403 Forbidden` unless they send the CSRF token
+ * of the request in the header. Installed on each route when the `csrf` server option is enabled, unless the
+ * route or its controller opts out.
+ *
+ * @param options
+ */
+export function csrfProtection(options: CsrfOptions): ConnectMiddleware {
+	let headerName = (options.headerName ?? 'X-XSRF-TOKEN').toLowerCase();
+	let ignoredMethods = (options.ignoredMethods ?? [ 'GET', 'HEAD', 'OPTIONS' ]).map(x => x.toUpperCase());
+
+	return function validateCsrfToken(req: http.IncomingMessage, res: http.ServerResponse, next) {
+		if (ignoredMethods.includes(req.method.toUpperCase())) {
+			next();
+			return;
+		}
+
+		let state: CsrfState = req[CSRF_STATE];
+		let header = req.headers[headerName];
+		let submitted = Array.isArray(header) ? header[0] : header;
+
+		if (!safeEqual(submitted, state?.expected)) {
+			next(new HttpError(403, {
+				error: 'invalid-csrf-token',
+				message: `The request did not include a valid CSRF token.`
+			}));
+			return;
+		}
+
+		next();
+	};
+}
+
+/**
+ * Retrieve the CSRF token of the current request (ie to embed it in a page), when CSRF protection is enabled via
+ * the `csrf` server option. In `synchronizer` mode, this issues a token (and so creates a session) if the request
+ * does not have one yet.
+ */
+export function csrfToken(): string {
+	let state: CsrfState = WebEvent.current.request[CSRF_STATE];
+	return state?.token ?? state?.issue?.();
+}
@@ -0,0 +1,244 @@
+import { Subject, Observable } from "rxjs";
+import { filter } from "rxjs/operators";
+import type { ServerSentEvent } from "./metadata";
+
+export interface EventConduitOptions {
+    /**
+     * Additional headers to send when connecting.
+     */
+    headers? : Record<string, string>;
+
+    /**
+     * How long to wait (in milliseconds) before reconnecting after the connection is lost. The server can change this
+     * by sending a `retry` field. Defaults to 3 seconds.
+     */
+    retry? : number;
+
+    /**
+     * The ID of the last event received, if resuming from a previous session.
+     */
+    lastEventId? : string;
+
+    /**
+     * The fetch() implementation to use. Defaults to the global fetch(), or `node-fetch` where there is none.
+     */
+    fetch? : typeof fetch;
+}
+
+function defaultFetch(): typeof fetch {
+    if (typeof fetch !== 'undefined')
+        return fetch;
+
+    if (typeof require !== 'undefined') {
+        try {
+            return require('node-fetch');
+        } catch (e) {
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * A better way to consume server-sent events, such as those produced by an `@EventStream()` route. Unlike
+ * `EventSource`, custom headers can be sent and the event data is parsed as JSON. The connection is re-established
+ * automatically when it is lost, sending the ID of the last event received via the `Last-Event-ID` header so that
+ * the server can replay any missed events.
+ */
+export class EventConduit<T = any> {
+    constructor(
+        readonly url : string,
+        readonly options : EventConduitOptions = {}
+    ) {
+        this._lastEventId = options.lastEventId;
+        this._retry = options.retry ?? 3000;
+        this.run().catch(e => this._error.next(e));
+    }
+
+    private _open = new Subject<void>();
+    private _events = new Subject<ServerSentEvent<T>>();
+    private _closed = new Subject<void>();
+    private _error = new Subject<any>();
+
+    private _lastEventId : string;
+    private _retry : number;
+    private _stopped = false;
+    private _abortController : AbortController;
+    private _reconnectTimer : ReturnType<typeof setTimeout>;
+    private _wake : () => void;
+
+    get open(): Observable<void> {
+        return this._open;
+    }
+
+    /**
+     * All events received from the server.
+     */
+    get events(): Observable<ServerSentEvent<T>> {
+        return this._events;
+    }
+
+    get closed(): Observable<void> {
+        return this._closed;
+    }
+
+    get error(): Observable<any> {
+        return this._error;
+    }
+
+    /**
+     * The ID of the last event received from the server.
+     */
+    get lastEventId() {
+        return this._lastEventId;
+    }
+
+    /**
+     * Observe events of the given type. Events which do not specify a type are `message` events.
+     * @param eventType
+     */
+    on(eventType : string): Observable<ServerSentEvent<T>> {
+        return this._events.pipe(filter(x => (x.event ?? 'message') === eventType));
+    }
+
+    /**
+     * Disconnect from the server and stop reconnecting.
+     */
+    close() {
+        this._stopped = true;
+        this._abortController?.abort();
+        this._wake?.();
+    }
+
+    private async run() {
+        let fetchImpl = this.options.fetch ?? defaultFetch();
+
+        if (!fetchImpl) {
+            this._error.next(new Error(`No fetch() implementation available`));
+            this._stopped = true;
+        }
+
+        while (!this._stopped) {
+            this._abortController = new AbortController();
+
+            try {
+                let headers : Record<string, string> = { Accept: 'text/event-stream', ...this.options.headers };
+                if (this._lastEventId)
+                    headers['Last-Event-ID'] = this._lastEventId;
+
+                let response = await fetchImpl(this.url, { headers, signal: this._abortController.signal });
+
+                // As with EventSource, a response which is not an event stream is fatal.
+
+                if (response.status !== 200 || !/^text\/event-stream/.test(response.headers.get('content-type') ?? '')) {
+                    this._error.next(new Error(`Event stream at ${this.url} responded with status ${response.status}`));
+                    break;
+                }
+
+                this._open.next();
+                await this.read(response.body);
+            } catch (e) {
+                if (this._stopped)
+                    break;
+                this._error.next(e);
+            }
+
+            if (this._stopped)
+                break;
+
+            await new Promise<void>(resolve => {
+                this._wake = resolve;
+                this._reconnectTimer = setTimeout(resolve, this._retry);
+            });
+            clearTimeout(this._reconnectTimer);
+        }
+
+        this._stopped = true;
+        this._closed.next();
+        this._open.complete();
+        this._events.complete();
+        this._closed.complete();
+        this._error.complete();
+    }
+
+    /**
+     * Iterate over the chunks of the given response body, which is a WHATWG stream when using the global fetch(), or
+     * a Node.js stream when using `node-fetch`.
+     */
+    private async *chunks(body : any): AsyncIterable<Uint8Array> {
+        if (typeof body.getReader !== 'function') {
+            yield* body;
+            return;
+        }
+
+        let reader : ReadableStreamDefaultReader<Uint8Array> = body.getReader();
+
+        while (true) {
+            let { done, value } = await reader.read();
+            if (done)
+                return;
+
+            yield value;
+        }
+    }
+
+    private async read(body : any) {
+        let decoder = new TextDecoder();
+        let text = '';
+        let event : ServerSentEvent<T> = {};
+        let data : string[] = [];
+        let skipLineFeed = false;
+
+        for await (let value of this.chunks(body)) {
+            let chunk = decoder.decode(value, { stream: true });
+
+            // A chunk ending in CR may have been split from the LF of a CRLF line ending
+
+            if (skipLineFeed && chunk.startsWith('\n'))
+                chunk = chunk.slice(1);
+            skipLineFeed = chunk.endsWith('\r');
+
+            let lines = (text + chunk).split(/\r\n|\r|\n/);
+            text = lines.pop();
+
+            for (let line of lines) {
+                if (line === '') {
+                    if (data.length > 0) {
+                        event.data = this.parseData(data.join('\n'));
+                        this._events.next(event);
+                    }
+
+                    event = {};
+                    data = [];
+                    continue;
+                }
+
+                if (line.startsWith(':'))
+                    continue;
+
+                let index = line.indexOf(':');
+                let field = index < 0 ? line : line.slice(0, index);
+                let fieldValue = index < 0 ? '' : line.slice(index + 1).replace(/^ /, '');
+
+                if (field === 'event') {
+                    event.event = fieldValue;
+                } else if (field === 'data') {
+                    data.push(fieldValue);
+                } else if (field === 'id' && !fieldValue.includes('\0')) {
+                    event.id = fieldValue;
+                    this._lastEventId = fieldValue;
+                } else if (field === 'retry' && /^[0-9]+$/.test(fieldValue)) {
+                    this._retry = Number(fieldValue);
+                }
+            }
+        }
+    }
+
+    private parseData(data : string) {
+        try {
+            return JSON.parse(data);
+        } catch (e) {
+            return data;
+        }
+    }
+}
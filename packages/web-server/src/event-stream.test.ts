@@ -0,0 +1,159 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import * as http from 'http';
+import { Observable } from 'rxjs';
+import { take, toArray } from 'rxjs/operators';
+import { Application } from '@alterior/runtime';
+import { WebService } from './service';
+import { Header } from './input';
+import { ServerSentEvent } from './metadata';
+import { EventChannel, EventStream } from './event-stream';
+import { EventConduit } from './event-conduit';
+import * as fetch from 'node-fetch';
+
+function timeout(ms: number) {
+	return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+suite(describe => {
+	describe('EventChannel', it => {
+		it('assigns IDs to published events', () => {
+			let channel = new EventChannel<number>();
+			let first = channel.publish(1);
+			let second = channel.send({ event: 'count', data: 2 });
+			let third = channel.send({ id: 'custom', data: 3 });
+
+			expect(first.id).to.be.a('string');
+			expect(second.id).to.be.a('string');
+			expect(second.id).not.to.equal(first.id);
+			expect(second.event).to.equal('count');
+			expect(third.id).to.equal('custom');
+		});
+
+		it('retains the most recent events', () => {
+			let channel = new EventChannel<number>({ bufferSize: 3 });
+			for (let i = 1; i <= 5; ++i)
+				channel.publish(i);
+
+			expect(channel.buffer.map(x => x.data)).to.eql([3, 4, 5]);
+		});
+
+		it('replays events published after the last event ID', async () => {
+			let channel = new EventChannel<number>({ bufferSize: 3 });
+			let events = [1, 2, 3, 4, 5].map(i => channel.publish(i));
+
+			let replayed = (lastEventId: string) => {
+				let received: number[] = [];
+				channel.events(lastEventId).subscribe(x => received.push(x.data)).unsubscribe();
+				return received;
+			};
+
+			expect(replayed(events[3].id)).to.eql([5]);
+			expect(replayed(undefined)).to.eql([]);
+			expect(replayed('unknown')).to.eql([]);
+
+			// Events which are no longer buffered cause the entire buffer to be replayed
+
+			expect(replayed(events[0].id)).to.eql([3, 4, 5]);
+		});
+
+		it('emits events published after subscribing', async () => {
+			let channel = new EventChannel<number>();
+			let received = channel.events().pipe(take(2), toArray()).toPromise();
+
+			channel.publish(1);
+			channel.publish(2);
+
+			expect((await received).map(x => x.data)).to.eql([1, 2]);
+		});
+	});
+
+	describe('@EventStream()', it => {
+		it('streams a channel, replaying events missed by the client', async () => {
+			let channel = new EventChannel<{ n: number }>();
+
+			@WebService({ server: { port: 32563, silent: true } })
+			class FakeApp {
+				@EventStream('/events')
+				events() {
+					return channel;
+				}
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true });
+			let conduit: EventConduit<{ n: number }>;
+
+			try {
+				let first = channel.publish({ n: 1 });
+				channel.publish({ n: 2 }, 'update');
+
+				conduit = new EventConduit('http://localhost:32563/events', { lastEventId: first.id });
+				let received = conduit.events.pipe(take(2), toArray()).toPromise();
+
+				await conduit.open.pipe(take(1)).toPromise();
+				let third = channel.publish({ n: 3 });
+
+				let events = await received;
+				expect(events.map(x => x.data)).to.eql([{ n: 2 }, { n: 3 }]);
+				expect(events[0].event).to.equal('update');
+				expect(conduit.lastEventId).to.equal(third.id);
+			} finally {
+				conduit?.close();
+				app.stop();
+			}
+		});
+
+		it('reconnects using the last event ID', async () => {
+			let lastEventIds: string[] = [];
+
+			@WebService({ server: { port: 32564, silent: true } })
+			class FakeApp {
+				@EventStream('/events', { retry: 10 })
+				async *events(@Header('Last-Event-ID') lastEventId: string) {
+					lastEventIds.push(lastEventId);
+					let next = Number(lastEventId ?? 0) + 1;
+					yield <ServerSentEvent>{ id: String(next), data: next };
+				}
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true });
+			let conduit = new EventConduit<number>('http://localhost:32564/events', { fetch: <any>fetch });
+
+			try {
+				let events = await conduit.events.pipe(take(3), toArray()).toPromise();
+				expect(events.map(x => x.data)).to.eql([1, 2, 3]);
+				expect(lastEventIds.slice(0, 3)).to.eql([undefined, '1', '2']);
+			} finally {
+				conduit.close();
+				app.stop();
+			}
+		});
+
+		it('sends keep-alive comments while idle', async () => {
+			@WebService({ server: { port: 32565, silent: true } })
+			class FakeApp {
+				@EventStream('/events', { keepAliveInterval: 20 })
+				events() {
+					return new Observable<ServerSentEvent>(() => {});
+				}
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true });
+
+			try {
+				let request = http.get('http://localhost:32565/events');
+				let response = await new Promise<http.IncomingMessage>(resolve => request.once('response', resolve));
+				let text = '';
+				response.on('data', chunk => text += chunk.toString());
+
+				await timeout(100);
+				request.destroy();
+
+				expect(response.headers['content-type']).to.equal('text/event-stream');
+				expect(text).to.contain(': keep-alive\n\n');
+			} finally {
+				app.stop();
+			}
+		});
+	});
+});
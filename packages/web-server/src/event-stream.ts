@@ -0,0 +1,149 @@
+import { Observable, Subject } from 'rxjs';
+import { Route, RouteOptions, ServerSentEvent } from './metadata';
+
+export interface EventStreamOptions extends RouteOptions {
+	/**
+	 * How often (in milliseconds) to send a keep-alive comment while no events are being sent. This prevents proxies
+	 * and load balancers from closing idle connections. Defaults to 15 seconds. Set to zero to disable.
+	 */
+	keepAliveInterval?: number;
+
+	/**
+	 * The reconnection delay (in milliseconds) to send to clients when they connect.
+	 */
+	retry?: number;
+}
+
+/**
+ * Declare a GET route which streams server-sent events (`text/event-stream`) to the client. The method should return
+ * an Observable (or AsyncIterable) of `ServerSentEvent`, or an `EventChannel`. When an `EventChannel` is returned,
+ * events the client missed while disconnected are replayed based on the `Last-Event-ID` header.
+ *
+ * ```typescript
+ * @EventStream('/notifications')
+ * notifications() {
+ *     return this.notificationChannel;
+ * }
+ * ```
+ *
+ * @param path
+ * @param options
+ */
+export function EventStream(path?: string, options?: EventStreamOptions) {
+	let { keepAliveInterval, retry, ...routeOptions } = options ?? {};
+
+	return Route('GET', path, {
+		produces: [ 'text/event-stream' ],
+		...routeOptions,
+		stream: 'sse',
+		eventStream: { keepAliveInterval, retry }
+	});
+}
+
+export interface EventChannelOptions {
+	/**
+	 * How many of the most recent events to retain for replaying to clients which reconnect. Defaults to 100. Set to
+	 * zero to disable replay.
+	 */
+	bufferSize?: number;
+}
+
+/**
+ * A channel of server-sent events which clients can subscribe to and resume. Each event published to the channel is
+ * given an ID (unless it already has one) and retained in an in-memory ring buffer, so that clients reconnecting with
+ * a `Last-Event-ID` header receive the events they missed. Return a channel from an `@EventStream()` route to
+ * stream it to clients.
+ */
+export class EventChannel<T = any> {
+	constructor(options?: EventChannelOptions) {
+		this.bufferSize = options?.bufferSize ?? 100;
+	}
+
+	readonly bufferSize: number;
+
+	private _events = new Subject<ServerSentEvent<T>>();
+	private _buffer: ServerSentEvent<T>[] = [];
+	private _bufferStart = 0;
+	private _sequence = 0;
+
+	/**
+	 * Identifies this channel within event IDs, so that IDs from a previous process (or another channel) are never
+	 * mistaken for IDs issued by this one.
+	 */
+	private _epoch = Date.now().toString(36);
+
+	/**
+	 * The events currently retained for replay, oldest first.
+	 */
+	get buffer(): ServerSentEvent<T>[] {
+		return [ ...this._buffer.slice(this._bufferStart), ...this._buffer.slice(0, this._bufferStart) ];
+	}
+
+	/**
+	 * Publish an event to all subscribers. If the event has no ID, one is assigned. Returns the published event.
+	 * @param event
+	 */
+	send(event: ServerSentEvent<T>): ServerSentEvent<T> {
+		event = { ...event, id: event.id ?? `${this._epoch}-${++this._sequence}` };
+
+		if (this.bufferSize > 0) {
+			if (this._buffer.length < this.bufferSize) {
+				this._buffer.push(event);
+			} else {
+				this._buffer[this._bufferStart] = event;
+				this._bufferStart = (this._bufferStart + 1) % this.bufferSize;
+			}
+		}
+
+		this._events.next(event);
+		return event;
+	}
+
+	/**
+	 * Publish the given data as an event to all subscribers.
+	 * @param data The payload of the event
+	 * @param event The type of the event (defaults to `message`)
+	 */
+	publish(data: T, event?: string): ServerSentEvent<T> {
+		return this.send({ event, data });
+	}
+
+	/**
+	 * Produce an Observable of the events published to this channel. When `lastEventId` is provided, buffered events
+	 * published after that event are emitted first. If the given event is no longer buffered but was issued by this
+	 * channel, all buffered events are replayed.
+	 *
+	 * @param lastEventId The value of the `Last-Event-ID` header sent by the client, if any
+	 */
+	events(lastEventId?: string): Observable<ServerSentEvent<T>> {
+		return new Observable<ServerSentEvent<T>>(subscriber => {
+			for (let event of this.missedEvents(lastEventId))
+				subscriber.next(event);
+
+			return this._events.subscribe(subscriber);
+		});
+	}
+
+	/**
+	 * Complete the channel, ending all subscriptions.
+	 */
+	close() {
+		this._events.complete();
+	}
+
+	private missedEvents(lastEventId: string): ServerSentEvent<T>[] {
+		if (!lastEventId)
+			return [];
+
+		let buffer = this.buffer;
+		let index = buffer.findIndex(x => x.id === lastEventId);
+
+		if (index >= 0)
+			return buffer.slice(index + 1);
+
+		if (lastEventId.startsWith(`${this._epoch}-`))
+			return buffer;
+
+		return [];
+	}
+}
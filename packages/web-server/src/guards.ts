@@ -0,0 +1,211 @@
+import { Annotation, MetadataName } from '@alterior/annotations';
+import { HttpError } from '@alterior/common';
+import { Injector, ReflectiveInjector } from '@alterior/di';
+import { Constructor } from '@alterior/runtime';
+import { WebEvent } from './metadata';
+import { ConnectMiddleware } from './web-server-engine';
+
+/**
+ * Describes how requests authenticate, for use in documentation (see `OpenApiController`). Mirrors the OpenAPI
+ * Security Scheme Object.
+ */
+export interface SecurityScheme {
+	type: 'http' | 'apiKey' | 'oauth2' | 'openIdConnect';
+	description?: string;
+
+	/**
+	 * The HTTP authentication scheme (ie `bearer` or `basic`), when `type` is `http`.
+	 */
+	scheme?: string;
+
+	/**
+	 * A hint about the format of bearer tokens (ie `JWT`), when `scheme` is `bearer`.
+	 */
+	bearerFormat?: string;
+
+	/**
+	 * Where the API key is sent, when `type` is `apiKey`.
+	 */
+	in?: 'header' | 'query' | 'cookie';
+
+	/**
+	 * The name of the header, query parameter or cookie which holds the API key, when `type` is `apiKey`.
+	 */
+	name?: string;
+
+	/**
+	 * The URL of the OpenID Connect discovery document, when `type` is `openIdConnect`.
+	 */
+	openIdConnectUrl?: string;
+}
+
+/**
+ * Maps the names of security schemes to the scopes they require. Satisfied when all of the schemes are satisfied.
+ */
+export type SecurityRequirement = Record<string, string[]>;
+
+export interface GuardSecurity {
+	/**
+	 * The security schemes used by the guard, by name.
+	 */
+	schemes: Record<string, SecurityScheme>;
+
+	/**
+	 * Alternative requirements, any of which satisfies the guard. An empty requirement indicates that the guard
+	 * can be satisfied without credentials.
+	 */
+	requirements: SecurityRequirement[];
+}
+
+/**
+ * The roles and permissions required by a guard, for use in documentation.
+ */
+export interface GuardAuthorization {
+	/**
+	 * Alternative roles, any of which satisfies the guard.
+	 */
+	roles?: string[];
+
+	/**
+	 * Permissions, all of which are required to satisfy the guard.
+	 */
+	permissions?: string[];
+}
+
+/**
+ * Decides whether a request may be handled by a route. Guards run after CORS and rate limiting, but before the
+ * middleware of the route and before the body is parsed. Return false to reject the request with
+ * `403 Forbidden`, or throw an `HttpError` to reject it with a different response.
+ */
+export interface Guard {
+	canActivate(event: WebEvent): boolean | Promise<boolean>;
+
+	/**
+	 * Describe the security requirements enforced by this guard, for use in documentation.
+	 */
+	describeSecurity?(): GuardSecurity;
+
+	/**
+	 * Describe the roles and permissions required by this guard, for use in documentation.
+	 */
+	describeAuthorization?(): GuardAuthorization;
+}
+
+/**
+ * A guard instance, or a guard class to resolve via dependency injection.
+ */
+export type GuardProvider = Guard | Constructor<Guard>;
+
+/**
+ * Attached to controllers and route methods by `@UseGuards()`.
+ */
+@MetadataName('@alterior/web-server:UseGuards')
+export class GuardsAnnotation extends Annotation {
+	constructor(readonly guards: GuardProvider[]) {
+		super();
+	}
+}
+
+/**
+ * Apply the given guards to all routes of a controller, or to a single route method. Equivalent to the `guards`
+ * option of controllers and routes. When several of these decorators are used, guards run in the order the 
+ * decorators are written.
+ */
+export function UseGuards(...guards: GuardProvider[]) {
+	return GuardsAnnotation.decorator({
+		validTargets: [ 'class', 'method' ],
+		allowMultiple: true
+	})(guards);
+}
+
+/**
+ * Resolve the given guard, instantiating guard classes via the given injector when they are not provided.
+ * @param guard
+ * @param injector
+ */
+export function resolveGuard(guard: GuardProvider, injector: Injector): Guard {
+	if (typeof guard !== 'function')
+		return guard;
+
+	return injector.get(guard, null) ?? ReflectiveInjector.resolveAndCreate([ guard ], injector).get(guard);
+}
+
+/**
+ * Combine the security requirements of the given guards. As all guards must pass, each combination of the
+ * alternatives of each guard is a possible requirement. Returns undefined when none of the guards describe their
+ * security requirements.
+ *
+ * @param guards
+ */
+export function describeGuardSecurity(guards: Guard[]): GuardSecurity {
+	let descriptions = guards.map(x => x.describeSecurity?.()).filter(x => x);
+	if (descriptions.length === 0)
+		return undefined;
+
+	let schemes: Record<string, SecurityScheme> = {};
+	let requirements: SecurityRequirement[] = [ {} ];
+
+	for (let description of descriptions) {
+		Object.assign(schemes, description.schemes);
+		requirements = requirements.flatMap(requirement =>
+			description.requirements.map(alternative => ({ ...requirement, ...alternative }))
+		);
+	}
+
+	return { schemes, requirements };
+}
+
+/**
+ * Combine the roles and permissions required by the given guards. Returns undefined when none of the guards describe
+ * the roles or permissions they require.
+ *
+ * @param guards
+ */
+export function describeGuardAuthorization(guards: Guard[]): GuardAuthorization {
+	let descriptions = guards.map(x => x.describeAuthorization?.()).filter(x => x);
+	if (descriptions.length === 0)
+		return undefined;
+
+	let roles = descriptions.filter(x => x.roles?.length > 0).map(x => x.roles);
+	let permissions = Array.from(new Set(descriptions.flatMap(x => x.permissions ?? [])));
+
+	// As all guards must pass, a user needs one of the roles of each guard. When several guards require roles, only 
+	// roles which satisfy all of them can be listed.
+
+	let allowedRoles = roles.length > 0 
+		? roles.reduce((a, b) => a.filter(x => b.includes(x))) 
+		: []
+	;
+
+	return {
+		...(roles.length > 0 ? { roles: allowedRoles } : {}),
+		...(permissions.length > 0 ? { permissions } : {})
+	};
+}
+
+/**
+ * Produce middleware which runs the given guards in order, rejecting the request with `403 Forbidden` as soon as one
+ * of them does not pass.
+ *
+ * @param guards
+ */
+export function guardMiddleware(guards: Guard[]): ConnectMiddleware {
+	return async function applyGuards(req, res, next) {
+		try {
+			for (let guard of guards) {
+				if (!await guard.canActivate(WebEvent.current)) {
+					next(new HttpError(403, {
+						error: 'forbidden',
+						message: `You are not allowed to access this resource.`
+					}));
+					return;
+				}
+			}
+		} catch (e) {
+			next(e);
+			return;
+		}
+
+		next();
+	};
+}
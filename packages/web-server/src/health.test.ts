@@ -0,0 +1,82 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import { Application, HEALTH_CHECKS } from '@alterior/runtime';
+import { Mount } from './metadata';
+import { WebService } from './service';
+import { teststrap } from './teststrap';
+import { HealthController } from './health';
+import * as fetch from 'node-fetch';
+
+suite(describe => {
+	describe('HealthController', it => {
+		it('reports liveness and readiness', async () => {
+			let queueAvailable = true;
+
+			@WebService({
+				server: { port: 32594, silent: true },
+				providers: [
+					{ provide: HEALTH_CHECKS, useValue: { name: 'process', liveness: true, check: () => {} }, multi: true },
+					{
+						provide: HEALTH_CHECKS,
+						useValue: {
+							name: 'queue',
+							check: () => {
+								if (!queueAvailable)
+									throw new Error('Connection refused');
+							}
+						},
+						multi: true
+					}
+				]
+			})
+			class FakeApp {
+				@Mount('/health')
+				health: HealthController;
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true, shutdownSignals: false });
+
+			try {
+				await app.start();
+
+				let live = await fetch('http://localhost:32594/health/live');
+				expect(live.status).to.equal(200);
+				expect(live.headers.get('cache-control')).to.equal('no-store');
+				expect(Object.keys((await live.json()).checks)).to.eql([ 'process' ]);
+
+				let ready = await fetch('http://localhost:32594/health/ready');
+				let report = await ready.json();
+				expect(ready.status).to.equal(200);
+				expect(report.status).to.equal('pass');
+				expect(Object.keys(report.checks).sort()).to.eql([ 'lifecycle', 'process', 'queue', 'web-server' ]);
+
+				queueAvailable = false;
+
+				ready = await fetch('http://localhost:32594/health/ready');
+				report = await ready.json();
+				expect(ready.status).to.equal(503);
+				expect(report.checks.queue).to.include({ status: 'fail', error: 'Connection refused' });
+
+				live = await fetch('http://localhost:32594/health/live');
+				expect(live.status).to.equal(200);
+			} finally {
+				await app.stop();
+			}
+		});
+
+		it('is not ready until the application has started', async () => {
+			@WebService()
+			class FakeApp {
+				@Mount('/health')
+				health: HealthController;
+			}
+
+			await teststrap(FakeApp).get('/health/ready')
+				.expect(503)
+				.expect(res => {
+					expect(res.body.checks.lifecycle).to.include({ status: 'fail' });
+					expect(res.body.checks['web-server']).to.include({ status: 'fail' });
+				});
+		});
+	});
+});
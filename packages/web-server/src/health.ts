@@ -0,0 +1,56 @@
+import { HealthReport, HealthService } from '@alterior/runtime';
+import { Controller, Get, WebEvent } from './metadata';
+import { Response } from './response';
+
+/**
+ * Exposes the health of the application (see `HealthService` from `@alterior/runtime`) for use by orchestrators and
+ * load balancers. Mount it wherever the health endpoints should be served:
+ *
+ * ```typescript
+ * @Mount('/health')
+ * health: HealthController;
+ * ```
+ *
+ * Both routes respond with `200 OK` when healthy and `503 Service Unavailable` otherwise, with a JSON report of each
+ * check.
+ */
+@Controller('', { group: 'health' })
+export class HealthController {
+	constructor(
+		private health: HealthService
+	) {
+	}
+
+	/**
+	 * Whether the process is alive. Only checks which apply to liveness are run.
+	 */
+	@Get('/live')
+	async live() {
+		return this.respond(await this.health.checkLiveness());
+	}
+
+	/**
+	 * Whether the application is ready to handle requests. Fails until the application has started, and as soon as
+	 * the web server begins shutting down.
+	 */
+	@Get('/ready')
+	async ready(event: WebEvent) {
+		let report = await this.health.checkReadiness();
+
+		report.checks['web-server'] = {
+			status: event.server.ready ? 'pass' : 'fail',
+			duration: 0,
+			details: { draining: event.server.draining }
+		};
+
+		if (!event.server.ready)
+			report.status = 'fail';
+
+		return this.respond(report);
+	}
+
+	private respond(report: HealthReport) {
+		let response = report.status === 'pass' ? Response.ok(report) : Response.serviceUnavailable(report);
+		return response.header('Cache-Control', 'no-store');
+	}
+}
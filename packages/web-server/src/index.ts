@@ -20,4 +20,23 @@ export * from './web-service-compiler';
 export * from './certificate-generator';
 export * from './web-conduit';
 export * from './intercept';
-export * from './session';
\ No newline at end of file
+export * from './session';
+export * from './guards';
+export * from './auth';
+export * from './authorization';
+export * from './jwt';
+export * from './validation';
+export * from './cookies';
+export * from './serializers';
+export * from './streaming';
+export * from './event-stream';
+export * from './event-conduit';
+export * from './rpc';
+export * from './rate-limit';
+export * from './cors';
+export * from './csrf';
+export * from './conditional';
+export * from './compression';
+export * from './static-files';
+export * from './health';
+export * from './metrics';
@@ -1,12 +1,14 @@
 import { MetadataName, Annotation } from "@alterior/annotations";
+import { UploadOptions } from "./upload";
 
-type InputType = 'queryParam' | 'queryParams' | 'path' | 'body';
+type InputType = 'queryParam' | 'queryParams' | 'path' | 'body' | 'header' | 'cookie' | 'uploadedFile' | 'uploadedFiles' | 'user';
 
 export interface InputOptions {
 	type: InputType;
 	name: string;
 	default?: any;
 	format?: any;
+	upload?: UploadOptions;
 }
 
 /**
@@ -23,6 +25,7 @@ export class InputAnnotation extends Annotation {
 	name: string;
 	default?: any;
 	format?: any;
+	upload?: UploadOptions;
 }
 
 export interface QueryParamOptions {
@@ -77,14 +80,70 @@ export function PathParam(name?: string) {
 	});
 }
 
+export interface HeaderOptions {
+	/**
+	 * Specify a default value for this parameter when the header is not present 
+	 * in the request.
+	 */
+	default?: any;
+}
+
+/**
+ * Apply to a parameter to indicate that it represents a request header (ie `If-None-Match`). Header names are 
+ * matched case-insensitively. 
+ * @param name 
+ */
+export function Header(name?: string, options?: HeaderOptions) {
+	return InputAnnotation.decorator({
+		validTargets: ['parameter'],
+		allowMultiple: false
+	})({
+		type: 'header',
+		name,
+		default: options?.default
+	});
+}
+
+export interface CookieOptions {
+	/**
+	 * Specify a default value for this parameter when the cookie is not present 
+	 * in the request.
+	 */
+	default?: any;
+}
+
+/**
+ * Apply to a parameter to indicate that it represents a cookie sent with the request (via the `Cookie` header).
+ * @param name 
+ */
+export function Cookie(name?: string, options?: CookieOptions) {
+	return InputAnnotation.decorator({
+		validTargets: ['parameter'],
+		allowMultiple: false
+	})({
+		type: 'cookie',
+		name,
+		default: options?.default
+	});
+}
+
 export interface BodyOptions {
 	/**
 	 * Override the default format selection based on type.
 	 * This can be useful if the default selection doesn't match your use case.
 	 * For instance, using the type `string` causes plain text body parsing. If you want to receive JSON strings
 	 * instead, you can use `format: 'json'`.
+	 * 
+	 * Use `form` to parse URL-encoded form bodies (`application/x-www-form-urlencoded`). Use `multipart` to parse 
+	 * `multipart/form-data` bodies, in which case the body will contain the non-file fields, and the files can be 
+	 * received using `@UploadedFile()` / `@UploadedFiles()`.
+	 */
+	format?: 'json' | 'text' | 'raw' | 'form' | 'multipart';
+
+	/**
+	 * Limits and storage options used when `format` is `multipart`.
 	 */
-	format?: 'json' | 'text' | 'raw';
+	upload?: UploadOptions;
 }
 
 /**
@@ -100,3 +159,55 @@ export function Body(options?: BodyOptions) {
 		...(options ?? {})
 	});
 }
+
+/**
+ * Apply to a parameter to indicate that it represents a file uploaded using a `multipart/form-data` request body.
+ * The parameter will be a `FileUpload`, or `undefined` if no such file was uploaded. When used, the request body 
+ * is parsed as multipart automatically.
+ * 
+ * @param name The name of the form field containing the file
+ * @param options Limits and storage options for parsing the request body
+ */
+export function UploadedFile(name?: string, options?: UploadOptions) {
+	return InputAnnotation.decorator({
+		validTargets: ['parameter'],
+		allowMultiple: false
+	})({
+		type: 'uploadedFile',
+		name,
+		upload: options
+	});
+}
+
+/**
+ * Apply to a parameter to indicate that it represents the files uploaded using a `multipart/form-data` request 
+ * body. The parameter will be an array of `FileUpload`. When used, the request body is parsed as multipart 
+ * automatically.
+ * 
+ * @param name When specified, only files uploaded within the form field with this name are included
+ * @param options Limits and storage options for parsing the request body
+ */
+export function UploadedFiles(name?: string, options?: UploadOptions) {
+	return InputAnnotation.decorator({
+		validTargets: ['parameter'],
+		allowMultiple: false
+	})({
+		type: 'uploadedFiles',
+		name: name ?? null,
+		upload: options
+	});
+}
+
+/**
+ * Apply to a parameter to receive the user authenticated by the guards of the route (see `AuthGuard`), which is 
+ * also available as `WebEvent.user`. The parameter is `undefined` when the request is not authenticated.
+ */
+export function CurrentUser() {
+	return InputAnnotation.decorator({
+		validTargets: ['parameter'],
+		allowMultiple: false
+	})({
+		type: 'user',
+		name: null
+	});
+}
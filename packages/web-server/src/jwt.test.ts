@@ -0,0 +1,159 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { teststrap } from './teststrap';
+import { WebService } from './service';
+import { Get, Mount, WebEvent } from './metadata';
+import { CurrentUser } from './input';
+import { AuthGuard } from './auth';
+import { JwksController, JwtError, JwtModule, JwtOptions, JwtService, JwtStrategy } from './jwt';
+
+function expectJwtError(callback: () => any, code: string) {
+	let error: any;
+	try {
+		callback();
+	} catch (e) {
+		error = e;
+	}
+
+	expect(error).to.be.an.instanceOf(JwtError);
+	expect(error.code).to.equal(code);
+}
+
+function pem(key: crypto.KeyObject) {
+	return <string>key.export({ format: 'pem', type: key.type === 'private' ? 'pkcs8' : 'spki' });
+}
+
+suite(describe => {
+	describe('JwtService', it => {
+		it('signs and verifies HS256 tokens', () => {
+			let jwt = new JwtService({ keys: [ { algorithm: 'HS256', secret: 'secret' } ] });
+			let token = jwt.sign({ sub: 'alice', role: 'admin' });
+			let claims = jwt.verify(token);
+
+			expect(claims.sub).to.equal('alice');
+			expect(claims.role).to.equal('admin');
+			expect(claims.exp - claims.iat).to.equal(3600);
+			expect(jwt.decode(token).header).to.eql({ alg: 'HS256', typ: 'JWT' });
+
+			let [ header, payload ] = token.split('.');
+			let forged = Buffer.from(JSON.stringify({ sub: 'alice', role: 'root', exp: claims.exp })).toString('base64url');
+			expectJwtError(() => jwt.verify(`${header}.${forged}.${token.split('.')[2]}`), 'invalid-signature');
+
+			let none = Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url');
+			expectJwtError(() => jwt.verify(`${none}.${payload}.`), 'unsupported-algorithm');
+			expectJwtError(() => jwt.verify('not-a-token'), 'malformed');
+		});
+
+		it('signs and verifies RS256 and ES256 tokens with keys from files', async () => {
+			let directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'alterior-jwt-'));
+
+			try {
+				let rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+				let ec = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+				await fs.promises.writeFile(path.join(directory, 'rsa.pem'), pem(rsa.privateKey));
+				await fs.promises.writeFile(path.join(directory, 'ec.pem'), pem(ec.privateKey));
+
+				let rs256 = new JwtService({ keys: [ { algorithm: 'RS256', privateKeyFile: path.join(directory, 'rsa.pem') } ] });
+				let es256 = new JwtService({ keys: [ { algorithm: 'ES256', privateKeyFile: path.join(directory, 'ec.pem') } ] });
+
+				expect(rs256.verify(rs256.sign({ sub: 'rsa' })).sub).to.equal('rsa');
+
+				let token = es256.sign({ sub: 'ec' });
+				expect(Buffer.from(token.split('.')[2], 'base64url').length).to.equal(64);
+				expect(es256.verify(token).sub).to.equal('ec');
+
+				// Verification only needs the public key
+
+				let verifier = new JwtService({ keys: [ { algorithm: 'ES256', publicKey: pem(ec.publicKey) } ] });
+				expect(verifier.verify(token).sub).to.equal('ec');
+				expect(() => verifier.sign({})).to.throw();
+
+				// Keys must suit their algorithm
+
+				expect(() => new JwtService({ keys: [ { algorithm: 'ES256', publicKey: pem(rsa.publicKey) } ] })).to.throw();
+			} finally {
+				await fs.promises.rm(directory, { recursive: true, force: true });
+			}
+		});
+
+		it('selects the verification key by kid and publishes public keys as JWKS', () => {
+			let oldKey = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+			let newKey = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+			let before = new JwtService({ keys: [ { kid: 'old', algorithm: 'ES256', privateKey: pem(oldKey.privateKey) } ] });
+			let after = new JwtService({
+				keys: [
+					{ kid: 'new', algorithm: 'ES256', privateKey: pem(newKey.privateKey) },
+					{ kid: 'old', algorithm: 'ES256', publicKey: pem(oldKey.publicKey) },
+					{ kid: 'shared', algorithm: 'HS256', secret: 'secret' }
+				]
+			});
+
+			let oldToken = before.sign({ sub: 'old' });
+			let newToken = after.sign({ sub: 'new' });
+
+			expect(after.decode(newToken).header.kid).to.equal('new');
+			expect(after.verify(oldToken).sub).to.equal('old');
+			expectJwtError(() => before.verify(newToken), 'unknown-key');
+
+			let jwks = after.jwks();
+			expect(jwks.keys.map(x => x['kid'])).to.eql([ 'new', 'old' ]);
+			expect(jwks.keys[0]).to.include({ kty: 'EC', crv: 'P-256', alg: 'ES256', use: 'sig' });
+			expect(jwks.keys[0]).not.to.have.property('d');
+		});
+
+		it('validates exp, nbf, iss and aud with clock skew', () => {
+			let options: JwtOptions = { keys: [ { algorithm: 'HS256', secret: 'secret' } ], issuer: 'me', audience: 'api', clockSkew: 30 };
+			let jwt = new JwtService(options);
+			let now = Math.floor(Date.now() / 1000);
+
+			expect(jwt.verify(jwt.sign({ exp: now - 10 })).iss).to.equal('me');
+			expectJwtError(() => jwt.verify(jwt.sign({ exp: now - 60 })), 'expired');
+
+			expect(jwt.verify(jwt.sign({ nbf: now + 10 }))).to.exist;
+			expectJwtError(() => jwt.verify(jwt.sign({ nbf: now + 60 })), 'not-yet-valid');
+
+			expectJwtError(() => jwt.verify(jwt.sign({ iss: 'someone-else' })), 'invalid-issuer');
+			expectJwtError(() => jwt.verify(jwt.sign({ aud: [ 'web', 'mobile' ] })), 'invalid-audience');
+			expect(jwt.verify(jwt.sign({ aud: [ 'web', 'api' ] }))).to.exist;
+			expect(jwt.verify(jwt.sign({ aud: 'web' }), { audience: [ 'web' ] })).to.exist;
+
+			expectJwtError(() => jwt.verify(jwt.sign({ exp: undefined })), 'missing-expiration');
+		});
+	});
+
+	describe('JwtStrategy', it => {
+		it('authenticates requests using verified tokens and serves the JWKS document', async () => {
+			let key = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+			let options: JwtOptions = { keys: [ { kid: 'k1', algorithm: 'ES256', privateKey: pem(key.privateKey) } ], audience: 'api' };
+
+			@WebService({ imports: [ JwtModule.configure(options) ] })
+			class FakeApp {
+				@Get('/me', { guards: [ new AuthGuard({ strategies: [ new JwtStrategy({ user: claims => ({ name: claims.sub }) }) ] }) ] })
+				me(@CurrentUser() user: any, event: WebEvent) {
+					return { user, scope: event.claims.scope };
+				}
+
+				@Mount('/.well-known/jwks.json')
+				jwks: JwksController;
+			}
+
+			let jwt = new JwtService(options);
+			let token = jwt.sign({ sub: 'alice', scope: 'read' });
+
+			let response = await teststrap(FakeApp).get('/me').set('Authorization', `Bearer ${token}`).expect(200);
+			expect(response.body).to.eql({ user: { name: 'alice' }, scope: 'read' });
+
+			response = await teststrap(FakeApp).get('/me').set('Authorization', `Bearer ${jwt.sign({ sub: 'alice', aud: 'other' })}`).expect(401);
+			expect(response.header['www-authenticate']).to.equal('Bearer error="invalid_token"');
+
+			response = await teststrap(FakeApp).get('/.well-known/jwks.json').expect(200);
+			expect(response.body.keys[0]).to.include({ kid: 'k1', alg: 'ES256' });
+		});
+	});
+});
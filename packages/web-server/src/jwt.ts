@@ -0,0 +1,481 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { BaseError } from '@alterior/common';
+import { Inject, Injectable, InjectionToken, Module } from '@alterior/di';
+import { Controller, Get, WebEvent } from './metadata';
+import { Response } from './response';
+import { BearerTokenStrategy } from './auth';
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+/**
+ * The claims of a JSON Web Token. Registered claims are typed, and any other claims are allowed.
+ */
+export interface JwtClaims {
+	iss?: string;
+	sub?: string;
+	aud?: string | string[];
+	exp?: number;
+	nbf?: number;
+	iat?: number;
+	jti?: string;
+	[claim: string]: any;
+}
+
+export interface JwtHeader {
+	alg: string;
+	typ?: string;
+	kid?: string;
+}
+
+/**
+ * A key used to sign and/or verify tokens. Key material can be given directly or read from a file. PEM (and for
+ * asymmetric keys, DER) formats are supported.
+ */
+export interface JwtKey {
+	/**
+	 * Identifies the key. Sent in the header of tokens signed using this key, so that the key used to verify them can
+	 * be found when several keys are configured (ie during key rotation). Also used in the JWKS document.
+	 */
+	kid?: string;
+
+	algorithm: JwtAlgorithm;
+
+	/**
+	 * The shared secret for `HS256`.
+	 */
+	secret?: string | Buffer;
+	secretFile?: string;
+
+	/**
+	 * The private key for `RS256` and `ES256`. Required to sign tokens. The public key is derived from it when not
+	 * specified.
+	 */
+	privateKey?: string | Buffer;
+	privateKeyFile?: string;
+
+	/**
+	 * The public key for `RS256` and `ES256`. Sufficient to verify tokens.
+	 */
+	publicKey?: string | Buffer;
+	publicKeyFile?: string;
+}
+
+export interface JwtOptions {
+	/**
+	 * The keys used to sign and verify tokens. Tokens are signed using the first key which can sign (or the key
+	 * identified by `signingKey`), and are verified using the key identified by their `kid` header. To rotate keys,
+	 * add the new key first, and remove the old key once the tokens it signed have expired.
+	 */
+	keys: JwtKey[];
+
+	/**
+	 * The `kid` of the key to sign tokens with.
+	 */
+	signingKey?: string;
+
+	/**
+	 * The issuer (`iss`) of tokens. When set, it is included in signed tokens and verified tokens must match it.
+	 */
+	issuer?: string;
+
+	/**
+	 * The audience (`aud`) of tokens. When set, it is included in signed tokens and verified tokens must include one
+	 * of the given audiences.
+	 */
+	audience?: string | string[];
+
+	/**
+	 * How long (in seconds) signed tokens are valid for. Defaults to 1 hour.
+	 */
+	expiresIn?: number;
+
+	/**
+	 * The tolerance (in seconds) used when checking `exp` and `nbf`, to account for clocks which differ between
+	 * servers. Defaults to 30 seconds.
+	 */
+	clockSkew?: number;
+
+	/**
+	 * When true (the default), tokens without an `exp` claim are rejected.
+	 */
+	requireExpiration?: boolean;
+}
+
+export const JWT_OPTIONS = new InjectionToken<JwtOptions>('JWT_OPTIONS');
+
+export type JwtErrorCode = 'malformed' | 'unsupported-algorithm' | 'unknown-key' | 'invalid-signature'
+	| 'expired' | 'not-yet-valid' | 'invalid-issuer' | 'invalid-audience' | 'missing-expiration';
+
+/**
+ * Thrown when a token cannot be verified. The `code` indicates why.
+ */
+export class JwtError extends BaseError {
+	constructor(readonly code: JwtErrorCode, message: string) {
+		super(message);
+	}
+}
+
+export interface JwtSignOptions {
+	/**
+	 * How long (in seconds) the token is valid for. Defaults to the `expiresIn` option of the module.
+	 */
+	expiresIn?: number;
+
+	/**
+	 * The `kid` of the key to sign with. Defaults to the signing key of the module.
+	 */
+	kid?: string;
+}
+
+export interface JwtVerifyOptions {
+	/**
+	 * Overrides the `issuer` option of the module.
+	 */
+	issuer?: string;
+
+	/**
+	 * Overrides the `audience` option of the module.
+	 */
+	audience?: string | string[];
+}
+
+interface ResolvedKey {
+	kid: string;
+	algorithm: JwtAlgorithm;
+	signingKey: crypto.KeyObject;
+	verificationKey: crypto.KeyObject;
+}
+
+function base64url(value: string | Buffer) {
+	return Buffer.from(value).toString('base64url');
+}
+
+function readKey(value: string | Buffer, file: string) {
+	return value ?? (file ? fs.readFileSync(file) : undefined);
+}
+
+function loadAsymmetricKey(material: string | Buffer, kind: 'private' | 'public'): crypto.KeyObject {
+	let isPem = (typeof material === 'string' ? material : material.toString('latin1')).includes('-----BEGIN');
+	let options: any = isPem ? { key: material } : { key: material, format: 'der', type: kind === 'private' ? 'pkcs8' : 'spki' };
+
+	return kind === 'private' ? crypto.createPrivateKey(options) : crypto.createPublicKey(options);
+}
+
+function resolveKey(key: JwtKey): ResolvedKey {
+	let name = key.kid ? `'${key.kid}'` : `(${key.algorithm})`;
+
+	if (key.algorithm === 'HS256') {
+		let secret = readKey(key.secret, key.secretFile);
+		if (!secret || secret.length === 0)
+			throw new Error(`JWT key ${name}: A secret is required for HS256`);
+
+		let keyObject = crypto.createSecretKey(Buffer.from(secret));
+		return { kid: key.kid, algorithm: key.algorithm, signingKey: keyObject, verificationKey: keyObject };
+	}
+
+	if (key.algorithm !== 'RS256' && key.algorithm !== 'ES256')
+		throw new Error(`JWT key ${name}: Unsupported algorithm '${key.algorithm}'`);
+
+	let privateMaterial = readKey(key.privateKey, key.privateKeyFile);
+	let publicMaterial = readKey(key.publicKey, key.publicKeyFile);
+	let signingKey = privateMaterial ? loadAsymmetricKey(privateMaterial, 'private') : undefined;
+	let verificationKey = publicMaterial 
+		? loadAsymmetricKey(publicMaterial, 'public') 
+		: (signingKey ? crypto.createPublicKey(signingKey) : undefined);
+
+	if (!verificationKey)
+		throw new Error(`JWT key ${name}: A private or public key is required for ${key.algorithm}`);
+
+	let expectedType = key.algorithm === 'RS256' ? 'rsa' : 'ec';
+	if (verificationKey.asymmetricKeyType !== expectedType)
+		throw new Error(`JWT key ${name}: ${key.algorithm} requires an ${expectedType.toUpperCase()} key`);
+
+	if (key.algorithm === 'ES256' && verificationKey.asymmetricKeyDetails?.namedCurve !== 'prime256v1')
+		throw new Error(`JWT key ${name}: ES256 requires a P-256 key`);
+
+	return { kid: key.kid, algorithm: key.algorithm, signingKey, verificationKey };
+}
+
+function createSignature(key: ResolvedKey, data: string): Buffer {
+	if (key.algorithm === 'HS256')
+		return crypto.createHmac('sha256', key.signingKey).update(data).digest();
+
+	// JWS uses the raw (r || s) encoding of ECDSA signatures rather than DER
+
+	return crypto.sign('sha256', Buffer.from(data), {
+		key: key.signingKey,
+		...(key.algorithm === 'ES256' ? { dsaEncoding: 'ieee-p1363' } : {})
+	});
+}
+
+function verifySignature(key: ResolvedKey, data: string, signature: Buffer): boolean {
+	if (key.algorithm === 'HS256') {
+		let expected = createSignature(key, data);
+		return expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+	}
+
+	try {
+		return crypto.verify('sha256', Buffer.from(data), {
+			key: key.verificationKey,
+			...(key.algorithm === 'ES256' ? { dsaEncoding: 'ieee-p1363' } : {})
+		}, signature);
+	} catch (e) {
+		// Signatures of the wrong size are rejected with an error
+		return false;
+	}
+}
+
+/**
+ * Signs and verifies JSON Web Tokens using the keys configured via `JwtModule.configure()`.
+ */
+@Injectable()
+export class JwtService {
+	constructor(
+		@Inject(JWT_OPTIONS) readonly options: JwtOptions
+	) {
+		if (!options?.keys?.length)
+			throw new Error(`JwtService: At least one key is required (see JwtModule.configure())`);
+
+		this.keys = options.keys.map(x => resolveKey(x));
+	}
+
+	private keys: ResolvedKey[];
+
+	private get now() {
+		return Math.floor(Date.now() / 1000);
+	}
+
+	private get signingKey(): ResolvedKey {
+		let signingKeyId = this.options.signingKey;
+		let key = signingKeyId
+			? this.keys.find(x => x.kid === signingKeyId)
+			: this.keys.find(x => x.signingKey);
+
+		if (!key?.signingKey)
+			throw new Error(`JwtService: No key is available to sign tokens with`);
+
+		return key;
+	}
+
+	/**
+	 * Sign a token containing the given claims. The `iat` and `exp` claims are added, as are `iss` and `aud` when
+	 * configured, unless the given claims specify them.
+	 *
+	 * @param claims
+	 * @param options
+	 */
+	sign(claims: JwtClaims = {}, options: JwtSignOptions = {}): string {
+		let key = options.kid ? this.keys.find(x => x.kid === options.kid) : this.signingKey;
+		if (!key?.signingKey)
+			throw new Error(`JwtService: Key '${options.kid}' cannot be used to sign tokens`);
+
+		let now = this.now;
+		let header: JwtHeader = { alg: key.algorithm, typ: 'JWT', ...(key.kid ? { kid: key.kid } : {}) };
+		let payload: JwtClaims = {
+			...(this.options.issuer ? { iss: this.options.issuer } : {}),
+			...(this.options.audience ? { aud: this.options.audience } : {}),
+			iat: now,
+			exp: now + (options.expiresIn ?? this.options.expiresIn ?? 3600),
+			...claims
+		};
+
+		let data = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(payload))}`;
+		return `${data}.${base64url(createSignature(key, data))}`;
+	}
+
+	/**
+	 * Decode the given token without verifying it. Throws a `JwtError` if the token is malformed.
+	 * @param token
+	 */
+	decode(token: string): { header: JwtHeader, claims: JwtClaims } {
+		let parts = String(token ?? '').split('.');
+		if (parts.length !== 3)
+			throw new JwtError('malformed', `The token is malformed`);
+
+		try {
+			let header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf-8'));
+			let claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf-8'));
+
+			if (typeof header !== 'object' || typeof claims !== 'object' || !header || !claims || Array.isArray(claims))
+				throw new Error();
+
+			return { header, claims };
+		} catch (e) {
+			throw new JwtError('malformed', `The token is malformed`);
+		}
+	}
+
+	/**
+	 * Verify the signature and claims of the given token, returning its claims. Throws a `JwtError` if the token is
+	 * not valid.
+	 *
+	 * @param token
+	 * @param options
+	 */
+	verify(token: string, options: JwtVerifyOptions = {}): JwtClaims {
+		let { header, claims } = this.decode(token);
+		let [ encodedHeader, encodedClaims, encodedSignature ] = token.split('.');
+
+		// The algorithm must match the key, so that (for instance) a public key cannot be used as an HMAC secret
+
+		let candidates = this.keys.filter(x => x.algorithm === header.alg);
+		if (candidates.length === 0)
+			throw new JwtError('unsupported-algorithm', `Tokens signed using '${header.alg}' are not accepted`);
+
+		if (header.kid !== undefined)
+			candidates = candidates.filter(x => x.kid === header.kid);
+		if (candidates.length === 0)
+			throw new JwtError('unknown-key', `The token was signed using an unknown key`);
+
+		let data = `${encodedHeader}.${encodedClaims}`;
+		let signature = Buffer.from(encodedSignature, 'base64url');
+		if (!candidates.some(key => verifySignature(key, data, signature)))
+			throw new JwtError('invalid-signature', `The signature of the token is not valid`);
+
+		this.validateClaims(claims, options);
+		return claims;
+	}
+
+	private validateClaims(claims: JwtClaims, options: JwtVerifyOptions) {
+		let now = this.now;
+		let skew = this.options.clockSkew ?? 30;
+
+		if (claims.exp === undefined) {
+			if (this.options.requireExpiration ?? true)
+				throw new JwtError('missing-expiration', `The token does not expire`);
+		} else if (typeof claims.exp !== 'number' || now > claims.exp + skew) {
+			throw new JwtError('expired', `The token has expired`);
+		}
+
+		if (claims.nbf !== undefined && (typeof claims.nbf !== 'number' || now + skew < claims.nbf))
+			throw new JwtError('not-yet-valid', `The token is not valid yet`);
+
+		let issuer = options.issuer ?? this.options.issuer;
+		if (issuer && claims.iss !== issuer)
+			throw new JwtError('invalid-issuer', `The token was not issued by '${issuer}'`);
+
+		let audience = [].concat(options.audience ?? this.options.audience ?? []);
+		let tokenAudience = [].concat(claims.aud ?? []);
+		if (audience.length > 0 && !tokenAudience.some(x => audience.includes(x)))
+			throw new JwtError('invalid-audience', `The token is not intended for this audience`);
+	}
+
+	/**
+	 * Produce the JSON Web Key Set (JWKS) document containing the public keys of the asymmetric keys, which allows
+	 * other services to verify tokens. Secret (`HS256`) keys are never included.
+	 */
+	jwks(): { keys: crypto.JsonWebKey[] } {
+		return {
+			keys: this.keys
+				.filter(x => x.algorithm !== 'HS256')
+				.map(x => ({
+					...x.verificationKey.export({ format: 'jwk' }),
+					...(x.kid ? { kid: x.kid } : {}),
+					alg: x.algorithm,
+					use: 'sig'
+				}))
+		};
+	}
+}
+
+/**
+ * Serves the JSON Web Key Set of the `JwtService`. Mount it wherever other services expect to find it, usually
+ * `/.well-known/jwks.json`:
+ *
+ * ```typescript
+ * @Mount('/.well-known/jwks.json')
+ * jwks: JwksController;
+ * ```
+ */
+@Controller('', { group: 'jwks' })
+export class JwksController {
+	constructor(
+		private jwt: JwtService
+	) {
+	}
+
+	@Get('')
+	jwks() {
+		return Response.ok(this.jwt.jwks())
+			.header('Cache-Control', 'public, max-age=300');
+	}
+}
+
+export interface JwtStrategyOptions {
+	/**
+	 * Produce the authenticated user from the verified claims (for instance by loading it from a database). By
+	 * default the claims themselves are the user.
+	 */
+	user?: (claims: JwtClaims, event: WebEvent) => any | Promise<any>;
+
+	/**
+	 * Overrides the issuer and audience options of the module.
+	 */
+	verify?: JwtVerifyOptions;
+
+	/**
+	 * The realm sent in the `WWW-Authenticate` challenge.
+	 */
+	realm?: string;
+
+	/**
+	 * The name of the strategy. Defaults to `jwt`.
+	 */
+	name?: string;
+}
+
+/**
+ * Authenticates requests which send a JSON Web Token as a bearer token, verified using the `JwtService` of the
+ * application (see `JwtModule`). The verified claims are available via `WebEvent.claims`.
+ */
+export class JwtStrategy extends BearerTokenStrategy {
+	constructor(jwtOptions: JwtStrategyOptions = {}) {
+		super({
+			name: jwtOptions.name ?? 'jwt',
+			realm: jwtOptions.realm,
+			bearerFormat: 'JWT',
+			verify: async (token, event) => {
+				let claims: JwtClaims;
+
+				try {
+					claims = event.inject(JwtService).verify(token, jwtOptions.verify);
+				} catch (e) {
+					if (e instanceof JwtError)
+						return undefined;
+					throw e;
+				}
+
+				event.claims = claims;
+				return jwtOptions.user ? await jwtOptions.user(claims, event) : claims;
+			}
+		});
+	}
+}
+
+/**
+ * Provides `JwtService`, which signs and verifies JSON Web Tokens. Import the module using `configure()`:
+ *
+ * ```typescript
+ * @WebService({
+ *     imports: [
+ *         JwtModule.configure({ keys: [ { kid: '2024-01', algorithm: 'ES256', privateKeyFile: 'jwt.pem' } ] })
+ *     ]
+ * })
+ * ```
+ */
+@Module({
+	providers: [
+		JwtService
+	]
+})
+export class JwtModule {
+	static configure(options: JwtOptions) {
+		return {
+			$module: JwtModule,
+			providers: [
+				{ provide: JWT_OPTIONS, useValue: options }
+			]
+		};
+	}
+}
@@ -1,6 +1,9 @@
 import { Annotation, MetadataName } from "@alterior/annotations";
 import { MiddlewareProvider } from "../middleware";
 import { Interceptor } from "../web-server-options";
+import { RateLimitOptions } from "../rate-limit";
+import { CorsOptions } from "../cors";
+import { GuardProvider } from "../guards";
 
 export let CONTROLLER_CLASSES = [];
 
@@ -56,6 +59,30 @@ export interface ControllerOptions {
 	 */
     postRouteMiddleware? : (MiddlewareProvider)[];
 
+	/**
+	 * Limit the rate of requests to the routes of this controller. The limit is shared by all routes of the 
+	 * controller. Routes can opt out by setting their own `rateLimit` option to `false`.
+	 */
+	rateLimit? : RateLimitOptions;
+
+	/**
+	 * Allow cross-origin requests (CORS) to the routes of this controller. Overrides the `cors` option of the 
+	 * server, and can be overridden by the `cors` option of routes. Set to `false` to disable CORS.
+	 */
+	cors? : CorsOptions | boolean;
+
+	/**
+	 * Set to `false` to exempt the routes of this controller from CSRF protection (see the `csrf` server option), ie 
+	 * for routes which are called by other services rather than by browsers. Routes can opt back in by setting their
+	 * own `csrf` option to `true`.
+	 */
+	csrf? : boolean;
+
+	/**
+	 * Guards which decide whether requests may be handled by the routes of this controller (see `Guard`), such as 
+	 * `AuthGuard`. Routes can opt out by setting their own `guards` option to `false`. See also `@UseGuards()`.
+	 */
+	guards? : GuardProvider[];
 }
 
 @MetadataName('@alterior/web-server:Controller')
@@ -3,6 +3,11 @@ import { Provider } from '@alterior/di';
 import { Expose } from '@alterior/runtime';
 import { MiddlewareProvider } from '../middleware';
 import { Interceptor } from '../web-server-options';
+import { StreamFormat, StreamOptions } from '../streaming';
+import { RateLimitOptions } from '../rate-limit';
+import { CorsOptions } from '../cors';
+import { ConditionalOptions } from '../conditional';
+import { GuardProvider } from '../guards';
 
 export class RouteReflector {
 	constructor(type : Function, mountPath? : string) {
@@ -69,6 +74,75 @@ export interface RouteDefinition {
 	path : string;
 }
 
+export interface ResponseHeaderDeclaration {
+	description?: string;
+
+	/**
+	 * The type of the header value (ie String or Number). Defaults to String.
+	 */
+	type?: Function;
+}
+
+/**
+ * Constructs an error to be thrown by a REST client (see `WebService.clientFor()`) when a response matching a 
+ * `ResponseDeclaration` is received. `RestClientError` and its subclasses satisfy this signature.
+ */
+export type ResponseErrorConstructor = new (message: string, response: any, body?: any) => Error;
+
+/**
+ * Declares a response which a route may produce. Used for documentation (see `OpenApiController`) and by REST 
+ * clients (see `WebService.clientFor()`) to interpret responses.
+ */
+export interface ResponseDeclaration {
+	/**
+	 * The status code of the response. Can also be a range (ie '4XX') or 'default'.
+	 */
+	status: number | string;
+	description?: string;
+
+	/**
+	 * The content type of the body. Defaults to 'application/json' when a body is declared.
+	 */
+	contentType?: string;
+
+	/**
+	 * The type of the body. Use a class with validation constraints or a `Presentation<T>` subclass to document 
+	 * its structure.
+	 */
+	body?: Function;
+
+	/**
+	 * When true, the body is an array of `body`.
+	 */
+	array?: boolean;
+
+	/**
+	 * Headers which are included in the response.
+	 */
+	headers?: Record<string, ResponseHeaderDeclaration>;
+
+	/**
+	 * The error thrown by REST clients when receiving this response. Only meaningful for error statuses. The 
+	 * constructor receives the status text, the fetch() response and the decoded body.
+	 */
+	error?: ResponseErrorConstructor;
+}
+
+/**
+ * Find the declaration which best matches the given status code. Exact matches are preferred over ranges (ie 
+ * '4XX'), which are preferred over 'default'.
+ * 
+ * @param declarations 
+ * @param status 
+ */
+export function findResponseDeclaration(declarations: ResponseDeclaration[], status: number): ResponseDeclaration {
+	declarations ??= [];
+
+	return declarations.find(x => Number(x.status) === status)
+		?? declarations.find(x => String(x.status).toUpperCase() === `${String(status).charAt(0)}XX`)
+		?? declarations.find(x => x.status === 'default');
+}
+
 export interface RouteOptions {
 	middleware?: MiddlewareProvider[];
 	description?: string;
@@ -81,6 +155,80 @@ export interface RouteOptions {
 	interceptors?: Interceptor[];
 	summary?: string;
 	group?: string;
+
+	/**
+	 * Declare the responses this route can produce, for use in documentation and by REST clients.
+	 */
+	responses?: ResponseDeclaration[];
+
+	/**
+	 * The media types this route can produce, in order of preference. The media type of the response is negotiated 
+	 * from these using the `Accept` header of the request. When not specified, any media type with a registered 
+	 * serializer can be produced (preferring JSON). When none are acceptable, the request fails with 
+	 * `406 Not Acceptable`.
+	 */
+	produces?: string[];
+
+	/**
+	 * How to write the items of an `AsyncIterable`, Observable or `Readable` stream returned by this route. 
+	 * Defaults to `raw` for `Readable` streams and `ndjson` otherwise. See `StreamFormat`.
+	 */
+	stream?: StreamFormat;
+
+	/**
+	 * Options used when streaming server-sent events (`stream: 'sse'`). See also `@EventStream()`.
+	 */
+	eventStream?: Pick<StreamOptions, 'keepAliveInterval' | 'retry'>;
+
+	/**
+	 * Marks this route as a WebSocket route. See `@Socket()`.
+	 */
+	socket?: SocketRouteOptions;
+
+	/**
+	 * Limit the rate of requests to this route. Requests which exceed the limit are rejected with 
+	 * `429 Too Many Requests`. Applies in addition to the `rateLimit` of the controller, unless set to `false`, in 
+	 * which case neither applies.
+	 */
+	rateLimit?: RateLimitOptions | false;
+
+	/**
+	 * Allow cross-origin requests (CORS) to this route. Overrides the `cors` option of the controller and server. 
+	 * Set to `false` to disable CORS.
+	 */
+	cors?: CorsOptions | boolean;
+
+	/**
+	 * Set to `false` to exempt this route from CSRF protection (see the `csrf` server option), ie for a webhook 
+	 * which is called by another service rather than by browsers. Overrides the `csrf` option of the controller.
+	 */
+	csrf?: boolean;
+
+	/**
+	 * Enable conditional requests for this route. Successful GET responses receive an `ETag` (computed by hashing
+	 * the serialized body) and optionally a `Last-Modified` header, and requests with a matching `If-None-Match` or 
+	 * `If-Modified-Since` header receive `304 Not Modified`. See `ConditionalOptions`.
+	 */
+	conditional?: ConditionalOptions | boolean;
+
+	/**
+	 * Guards which decide whether requests may be handled by this route (see `Guard`), such as `AuthGuard`. These 
+	 * run after the guards of the controller, unless set to `false`, in which case neither applies (ie for a public 
+	 * route within a controller which requires authentication). See also `@UseGuards()`.
+	 */
+	guards?: GuardProvider[] | false;
+}
+
+export interface SocketRouteOptions {
+	/**
+	 * Providers which are instantiated once for each connection. These (as well as `WebConduit` and `WebEvent`) can 
+	 * be injected into the parameters of the route method and into each other. Providers of the controller and 
+	 * application are also available to them.
+	 */
+	providers?: Provider[];
+}
+
+export interface SocketOptions extends RouteOptions, SocketRouteOptions {
 }
 
 export function Get(path? : string, options? : RouteOptions) { return Route('GET', path, options); }
@@ -90,6 +238,27 @@ export function Delete(path? : string, options? : RouteOptions) { return Route('
 export function Options(path? : string, options? : RouteOptions) { return Route('OPTIONS', path, options); }
 export function Patch(path? : string, options? : RouteOptions) { return Route('PATCH', path, options); }
 
+/**
+ * Declare a WebSocket route. Requests to the route are upgraded to a WebSocket connection before the method is 
+ * called, and requests which do not ask for an upgrade are rejected with `426 Upgrade Required`. Parameters of type 
+ * `WebConduit` receive the connection. Parameters whose type is one of the `providers` receive an instance created 
+ * for the connection.
+ * 
+ * ```typescript
+ * @Socket('/chat', { providers: [ ChatSession ] })
+ * chat(conduit: WebConduit, session: ChatSession) {
+ *     conduit.message.subscribe(message => session.receive(message.data));
+ * }
+ * ```
+ * 
+ * @param path 
+ * @param options 
+ */
+export function Socket(path? : string, options? : SocketOptions) {
+	let { providers, ...routeOptions } = options ?? {};
+	return Route('GET', path, { ...routeOptions, socket: { providers: providers ?? [] } });
+}
+
 export function Route(method : string, path? : string, options? : RouteOptions) {
     return function (target: Object, propertyKey: string, descriptor: PropertyDescriptor) {
 		disallowNativeAsync(target[propertyKey]);
@@ -2,12 +2,29 @@ import * as http from 'http';
 import type { WebServer } from '../web-server';
 import { RouteInstance } from '../route';
 import { InjectionToken } from '@alterior/di';
-import { AnyConstructor } from '@alterior/runtime';
+import { AnyConstructor, Span } from '@alterior/runtime';
+import { formatServerSentEvent } from '../streaming';
 
-export interface ServerSentEvent {
+export interface ServerSentEvent<T = any> {
+	/**
+	 * The type of the event. When not specified, clients treat the event as a `message` event.
+	 */
 	event?: string;
-	data?: any;
+
+	/**
+	 * The payload of the event, which is serialized as JSON.
+	 */
+	data?: T;
+
+	/**
+	 * The ID of the event. Clients send the ID of the last event they received via the `Last-Event-ID` header when 
+	 * reconnecting.
+	 */
 	id?: string;
+
+	/**
+	 * The reconnection delay (in milliseconds) the client should use.
+	 */
 	retry?: number;
 }
 
@@ -41,6 +58,27 @@ export class WebEvent<
 
 	requestId: string;
 
+	/**
+	 * The server span which traces the handling of this request. Spans started while handling the request (and 
+	 * outgoing requests made via `HttpClient` or `WebService.clientFor()`) become part of its trace.
+	 */
+	span: Span;
+
+	/**
+	 * The user authenticated by the guards of the route (see `AuthGuard`), if any.
+	 */
+	user: any;
+
+	/**
+	 * The name of the strategy which authenticated the user (see `AuthStrategy`), if any.
+	 */
+	authStrategy: string;
+
+	/**
+	 * The verified claims of the JSON Web Token which authenticated the request (see `JwtStrategy`), if any.
+	 */
+	claims: Record<string, any>;
+
 	inject<T>(token: InjectionToken<T> | AnyConstructor<T>): T {
 		return this.server.injector.get(token);
 	}
@@ -97,25 +135,13 @@ export class WebEvent<
 		if (!WebEvent.response.headersSent) {
 			WebEvent.response.statusCode = 200;
 			WebEvent.response.setHeader('Content-Type', 'text/event-stream');
-			WebEvent.response.setHeader('Cache-Control', 'no-cache');
+			// Events are written directly to the socket, so the response must not be compressed
+			WebEvent.response.setHeader('Cache-Control', 'no-cache, no-transform');
 			WebEvent.response.removeHeader('Transfer-Encoding');
 			WebEvent.response.flushHeaders();
 		}
 		
-		let lines: string[] = [];
-
-		if (event.event)
-			lines.push(`event: ${event.event}`);
-		if (event.id)
-			lines.push(`id: ${event.id}`);
-		if (event.retry)
-			lines.push(`retry: ${event.retry}`);
-
-		if (event.data) {
-			lines.push(`data: ${JSON.stringify(event.data)}`);
-		}
-
-		WebEvent.request.socket.write(`${lines.join("\n")}\n\n`);
+		WebEvent.request.socket.write(formatServerSentEvent(event));
 	}
 
 	static async sendEvent(event: ServerSentEvent) {
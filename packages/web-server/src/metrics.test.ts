@@ -0,0 +1,68 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import { Application, MetricsRegistry } from '@alterior/runtime';
+import { HttpError } from '@alterior/common';
+import { Get, Mount } from './metadata';
+import { PathParam } from './input';
+import { WebService } from './service';
+import { MetricsController } from './metrics';
+import * as fetch from 'node-fetch';
+
+suite(describe => {
+	describe('Metrics', it => {
+		it('records requests by route template and serves them', async () => {
+			let release: () => void;
+			let released = new Promise<void>(resolve => release = resolve);
+
+			@WebService({ server: { port: 32595, silent: true, metrics: true, hungRequestThreshold: 20 } })
+			class FakeApp {
+				@Get('/things/:id')
+				thing(@PathParam('id') id: string) {
+					if (id === 'missing')
+						throw new HttpError(404, { error: 'not-found' });
+					return { id };
+				}
+
+				@Get('/slow')
+				async slow() {
+					await released;
+					return { done: true };
+				}
+
+				@Mount('/metrics')
+				metrics: MetricsController;
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true, shutdownSignals: false });
+
+			try {
+				await fetch('http://localhost:32595/things/1');
+				await fetch('http://localhost:32595/things/2');
+				await fetch('http://localhost:32595/things/missing');
+
+				let slow = fetch('http://localhost:32595/slow');
+				await new Promise(resolve => setTimeout(resolve, 50));
+
+				let registry = app.inject(MetricsRegistry);
+				let inFlight = <any>registry.get('http_requests_in_flight');
+				expect(inFlight.get({ method: 'GET', route: '/slow' })).to.equal(1);
+
+				release();
+				await slow;
+
+				let response = await fetch('http://localhost:32595/metrics');
+				let text = await response.text();
+
+				expect(response.headers.get('content-type')).to.equal(MetricsRegistry.CONTENT_TYPE);
+				expect(text).to.include(`http_requests_total{method="GET",route="/things/:id",status="200"} 2`);
+				expect(text).to.include(`http_requests_total{method="GET",route="/things/:id",status="404"} 1`);
+				expect(text).to.include(`http_request_duration_seconds_count{method="GET",route="/things/:id",status="200"} 2`);
+				expect(text).to.include(`http_requests_in_flight{method="GET",route="/slow"} 0`);
+				expect(text).to.include(`http_requests_hung_total{method="GET",route="/slow"} 1`);
+				expect(text).not.to.include('/things/1');
+			} finally {
+				await app.stop();
+			}
+		});
+	});
+});
@@ -0,0 +1,138 @@
+import { Counter, Gauge, Histogram, MetricLabels, MetricsRegistry } from '@alterior/runtime';
+import { Controller, Get, WebEvent } from './metadata';
+import { Response } from './response';
+import { RequestReportingEvent } from './web-server-options';
+
+export interface MetricsOptions {
+	/**
+	 * A prefix for the names of the request metrics (ie `myapp_`). Defaults to no prefix.
+	 */
+	prefix?: string;
+
+	/**
+	 * The buckets (in seconds) of the request duration histogram. Defaults to `DEFAULT_BUCKETS` from
+	 * `@alterior/runtime`.
+	 */
+	buckets?: number[];
+}
+
+/**
+ * Normalize the `metrics` server option. Returns undefined when metrics are not enabled.
+ */
+export function resolveMetricsOptions(option: MetricsOptions | boolean): MetricsOptions {
+	if (!option)
+		return undefined;
+
+	return option === true ? {} : option;
+}
+
+const METRICS_STATE = Symbol('Metrics state');
+
+interface RequestMetricsState {
+	labels: MetricLabels;
+	stopTimer: (labels?: MetricLabels) => number;
+	hungTimeout: ReturnType<typeof setTimeout>;
+	done: boolean;
+}
+
+/**
+ * Records metrics about the requests handled by routes. Requests are labelled by the path template of the route
+ * (ie `/users/:id`) rather than the requested URL, so that the number of distinct series remains bounded. Requests
+ * which do not match a route are not recorded.
+ */
+export class RequestMetrics {
+	constructor(
+		readonly registry: MetricsRegistry,
+		options: MetricsOptions = {}
+	) {
+		let prefix = options.prefix ?? '';
+
+		this.requests = registry.counter(
+			`${prefix}http_requests_total`,
+			`The number of HTTP requests handled, by route and status code`,
+			[ 'method', 'route', 'status' ]
+		);
+
+		this.duration = registry.histogram(
+			`${prefix}http_request_duration_seconds`,
+			`The time taken to handle HTTP requests, by route and status code`,
+			[ 'method', 'route', 'status' ],
+			options.buckets
+		);
+
+		this.inFlight = registry.gauge(
+			`${prefix}http_requests_in_flight`,
+			`The number of HTTP requests currently being handled, by route`,
+			[ 'method', 'route' ]
+		);
+
+		this.hung = registry.counter(
+			`${prefix}http_requests_hung_total`,
+			`The number of HTTP requests which exceeded the hung request threshold, by route`,
+			[ 'method', 'route' ]
+		);
+	}
+
+	readonly requests: Counter;
+	readonly duration: Histogram;
+	readonly inFlight: Gauge;
+	readonly hung: Counter;
+
+	/**
+	 * Record the given reporting event (see `WebServer.reportRequest()`). The request is considered to be finished
+	 * once its response has been sent, or once it has been upgraded to a WebSocket connection.
+	 */
+	record(reportingEvent: RequestReportingEvent, event: WebEvent) {
+		let state: RequestMetricsState = event.metadata[METRICS_STATE];
+
+		if (reportingEvent === 'middleware' && !state) {
+			let labels = {
+				method: String(event.request.method).toUpperCase(),
+				route: event.route?.mountedPath ?? ''
+			};
+
+			state = event.metadata[METRICS_STATE] = {
+				labels,
+				stopTimer: this.duration.startTimer(labels),
+				hungTimeout: setTimeout(() => this.hung.inc(labels), event.server.hungRequestThreshold),
+				done: false
+			};
+
+			state.hungTimeout.unref?.();
+			this.inFlight.inc(labels);
+		} else if ((reportingEvent === 'finished' || reportingEvent === 'connected') && state && !state.done) {
+			let status = reportingEvent === 'connected' ? 101 : event.response.statusCode;
+
+			state.done = true;
+			clearTimeout(state.hungTimeout);
+			this.inFlight.dec(state.labels);
+			this.requests.inc({ ...state.labels, status });
+			state.stopTimer({ status });
+		}
+	}
+}
+
+/**
+ * Serves the metrics of the application (see `MetricsRegistry` from `@alterior/runtime`) in the Prometheus text
+ * exposition format. Mount it wherever the metrics should be scraped from:
+ *
+ * ```typescript
+ * @Mount('/metrics')
+ * metrics: MetricsController;
+ * ```
+ */
+@Controller('', { group: 'metrics' })
+export class MetricsController {
+	constructor(
+		private registry: MetricsRegistry
+	) {
+	}
+
+	@Get('')
+	metrics() {
+		return Response.ok(this.registry.render())
+			.encodeAs('raw')
+			.header('Content-Type', MetricsRegistry.CONTENT_TYPE)
+			.header('Cache-Control', 'no-store');
+	}
+}
@@ -1,7 +1,10 @@
 import { suite } from "razmin";
 import { teststrap } from "./teststrap";
 import { WebService } from "./service";
-import { Mount, Get } from "./metadata";
+import { Mount, Get, Post } from "./metadata";
+import { Body, Cookie, Header, PathParam, QueryParam, QueryParams } from "./input";
+import { ArrayOf, Max, Min, MinLength, OneOf, Required } from "./validation";
+import { Expose, Presentation } from "@alterior/common";
 import { OpenApiController } from "./openapi";
 import { expect } from "chai";
 import { AppOptionsAnnotation } from "@alterior/runtime";
@@ -33,5 +36,151 @@ suite(describe => {
             });
             
         });
+
+        it('describes typed parameters, request bodies and responses', async () => {
+            class LineItemDto {
+                @Required() sku : string;
+                @Min(1) quantity : number;
+            }
+
+            class CreateOrderDto {
+                @Required() @MinLength(3) customer : string;
+                @OneOf(['standard', 'express']) shipping : string;
+                @ArrayOf(LineItemDto, { minItems: 1 }) items : LineItemDto[];
+            }
+
+            class OrderSearchDto {
+                @Required() customer : string;
+                @Max(100) limit : number;
+            }
+
+            class Order {
+                id : number;
+                customer : string;
+            }
+
+            class OrderPresentation extends Presentation<Order> {
+                @Expose() id : number;
+                @Expose() customer : string;
+            }
+
+            @WebService()
+            class TestApp {
+                @Mount('/openapi')
+                openapi : OpenApiController;
+
+                @Get('/orders/:id')
+                get(
+                    @PathParam('id') id : number, 
+                    @QueryParam('verbose') verbose : boolean,
+                    @Header('X-Tenant') tenant : string,
+                    @Cookie('session') session : string
+                ) : OrderPresentation {
+                    return null;
+                }
+
+                @Get('/orders')
+                search(@QueryParams() query : OrderSearchDto) {
+                    return null;
+                }
+
+                @Post('/orders')
+                create(@Body() order : CreateOrderDto) {
+                    return null;
+                }
+            }
+
+            let response = await teststrap(TestApp)
+                .get('/openapi')
+                .expect(200);
+
+            let getOp = response.body.paths['/orders/{id}'].get;
+            expect(getOp.parameters).to.eql([
+                { in: 'path', name: 'id', schema: { type: 'number' }, required: true },
+                { in: 'query', name: 'verbose', schema: { type: 'boolean' }, required: false },
+                { in: 'header', name: 'X-Tenant', schema: { type: 'string' }, required: false },
+                { in: 'cookie', name: 'session', schema: { type: 'string' }, required: false }
+            ]);
+            expect(getOp.responses['200'].content['application/json'].schema)
+                .to.eql({ $ref: '#/components/schemas/OrderPresentation' });
+
+            let searchOp = response.body.paths['/orders'].get;
+            expect(searchOp.parameters).to.eql([
+                { in: 'query', name: 'customer', schema: { type: 'string' }, required: true },
+                { in: 'query', name: 'limit', schema: { type: 'number', maximum: 100 }, required: false }
+            ]);
+
+            let createOp = response.body.paths['/orders'].post;
+            expect(createOp.requestBody.content['application/json'].schema)
+                .to.eql({ $ref: '#/components/schemas/CreateOrderDto' });
+            expect(createOp.responses).to.have.property('400');
+
+            let schemas = response.body.components.schemas;
+            expect(schemas.CreateOrderDto).to.eql({
+                type: 'object',
+                properties: {
+                    customer: { type: 'string', minLength: 3 },
+                    shipping: { type: 'string', enum: ['standard', 'express'] },
+                    items: { type: 'array', items: { $ref: '#/components/schemas/LineItemDto' }, minItems: 1 }
+                },
+                required: ['customer']
+            });
+            expect(schemas.LineItemDto).to.eql({
+                type: 'object',
+                properties: {
+                    sku: { type: 'string' },
+                    quantity: { type: 'number', minimum: 1 }
+                },
+                required: ['sku']
+            });
+            expect(schemas.OrderPresentation).to.eql({
+                type: 'object',
+                properties: {
+                    id: { type: 'number' },
+                    customer: { type: 'string' }
+                }
+            });
+        });
+
+        it('describes declared responses', async () => {
+            class ProblemDto {
+                @Required() code : string;
+            }
+
+            @WebService()
+            class TestApp {
+                @Mount('/openapi')
+                openapi : OpenApiController;
+
+                @Post('/things', {
+                    responses: [
+                        { status: 201, body: ProblemDto, array: true, headers: { Location: { description: 'The new thing' } } },
+                        { status: 409, description: 'Already exists', body: ProblemDto },
+                        { status: '5XX', contentType: 'text/plain' }
+                    ]
+                })
+                create() {
+                    return null;
+                }
+            }
+
+            let response = await teststrap(TestApp)
+                .get('/openapi')
+                .expect(200);
+
+            let responses = response.body.paths['/things'].post.responses;
+            expect(Object.keys(responses)).to.eql(['201', '409', '5XX', '4XX']);
+            expect(responses['201']).to.eql({
+                description: 'Created',
+                headers: { Location: { description: 'The new thing', schema: { type: 'string' } } },
+                content: { 
+                    'application/json': { 
+                        schema: { type: 'array', items: { $ref: '#/components/schemas/ProblemDto' } } 
+                    } 
+                }
+            });
+            expect(responses['409'].description).to.equal('Already exists');
+            expect(responses['5XX']).to.eql({ description: '', content: { 'text/plain': {} } });
+        });
     });
-});
\ No newline at end of file
+});
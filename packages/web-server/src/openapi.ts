@@ -1,5 +1,21 @@
 import { Controller, Get, WebEvent } from "./metadata";
 import { ServiceDescriptionRef } from "./service-description-ref";
+import { RouteDescription, RouteParamDescription } from "./route";
+import { ResponseDeclaration } from "./metadata";
+import { HTTP_MESSAGES } from "./http-messages";
+import { ConstraintOptions, getConstrainedProperties, hasConstraints } from "./validation";
+import { Presentation, PresentedProperty } from "@alterior/common";
+import { SecurityRequirement, SecurityScheme } from "./guards";
+
+/**
+ * Maps route parameter input types to the corresponding OpenAPI parameter location.
+ */
+const OPENAPI_PARAMETER_LOCATIONS : Record<string, string> = {
+    path: 'path',
+    queryParam: 'query',
+    header: 'header',
+    cookie: 'cookie'
+};
 
 export interface OpenApiContact {
     name : string;
@@ -14,8 +30,7 @@ export interface OpenApiServiceInfo {
     version : string;
 }
 
-export interface OpenApiSecurityDefinition {
-
+export interface OpenApiSecurityDefinition extends SecurityScheme {
 }
 
 export interface OpenApiSecurityDefinitionMap {
@@ -29,6 +44,7 @@ export interface OpenApiTag {
 
 export interface OpenApiComponents {
     schemas : OpenApiMap<OpenApiSchema>;
+    securitySchemes? : OpenApiSecurityDefinitionMap;
 }
 export interface OpenApiService {
     info : OpenApiServiceInfo;
@@ -42,20 +58,33 @@ export interface OpenApiResponseMap {
     [status : string] : OpenApiResponse;
 }
 
+export interface OpenApiMediaType {
+    schema? : OpenApiSchema;
+}
+
+export interface OpenApiHeader {
+    description? : string;
+    schema? : OpenApiSchema;
+}
+
 export interface OpenApiResponse {
     description? : string;
-    schema? : OpenApiSchemaRef;
+    headers? : OpenApiMap<OpenApiHeader>;
+    content? : OpenApiMap<OpenApiMediaType>;
 }
 
-export interface OpenApiSchemaRef {
-    type? : string;
-    $ref? : string;
+export interface OpenApiRequestBody {
+    description? : string;
+    required? : boolean;
+    content : OpenApiMap<OpenApiMediaType>;
 }
 
+export type OpenApiSchemaRef = OpenApiSchema;
+
 export interface OpenApiParameter {
     in? : string;
     name? : string;
-    schema? : OpenApiSchemaRef;
+    schema? : OpenApiSchema;
     format? : string;
     required? : boolean;
     example? : any;
@@ -66,7 +95,19 @@ export interface OpenApiOperation {
     summary : string;
     description : string;
     parameters : OpenApiParameter[];
+    requestBody? : OpenApiRequestBody;
     responses : OpenApiResponseMap;
+    security? : SecurityRequirement[];
+
+    /**
+     * The roles required by the route, any of which allows access (see `@RequireRoles()`).
+     */
+    'x-roles'? : string[];
+
+    /**
+     * The permissions required by the route (see `@RequirePermission()`).
+     */
+    'x-permissions'? : string[];
     tags : (OpenApiTag | string)[];
 }
 
@@ -75,21 +116,131 @@ export interface OpenApiMap<T> {
 }
 
 export interface OpenApiSchema {
-    type : "object";
-    properties : OpenApiDefinitionPropertyMap;
-    required : string[];
-    description : string;
+    type? : string;
+    format? : string;
+    description? : string;
+    $ref? : string;
+    properties? : OpenApiDefinitionPropertyMap;
+    required? : string[];
+    items? : OpenApiSchema;
+    enum? : any[];
+    minimum? : number;
+    maximum? : number;
+    minLength? : number;
+    maxLength? : number;
+    pattern? : string;
+    minItems? : number;
+    maxItems? : number;
+    allOf? : OpenApiSchema[];
 }
 
 export interface OpenApiDefinitionPropertyMap {
     [name : string] : OpenApiDefinitionProperty;
 }
 
-export interface OpenApiDefinitionProperty {
-    type? : string;
-    format? : string;
-    description? : string;
-    $ref? : string;
+export type OpenApiDefinitionProperty = OpenApiSchema;
+
+/**
+ * Produces OpenAPI schemas for Typescript types as emitted via `emitDecoratorMetadata`. Classes with validation 
+ * constraints (see `@Required()` etc) and `Presentation<T>` subclasses are registered as named schemas in 
+ * `components` and referenced using `$ref`.
+ */
+export class OpenApiSchemaBuilder {
+    readonly schemas : OpenApiMap<OpenApiSchema> = {};
+    private names = new Map<Function, string>();
+
+    /**
+     * Produce a schema for the given type, optionally refined by the given validation constraints. 
+     * Returns undefined if nothing is known about the type.
+     */
+    schemaFor(type : Function, constraints? : ConstraintOptions): OpenApiSchema {
+        type = constraints?.type ?? type;
+
+        let schema : OpenApiSchema;
+
+        if (constraints?.items) {
+            schema = { type: 'array', items: this.schemaFor(constraints.items) ?? {} };
+        } else if (type === String) {
+            schema = { type: 'string' };
+        } else if (type === Number) {
+            schema = { type: 'number' };
+        } else if (type === Boolean) {
+            schema = { type: 'boolean' };
+        } else if (type === Date) {
+            schema = { type: 'string', format: 'date-time' };
+        } else if (type === Buffer) {
+            schema = { type: 'string', format: 'binary' };
+        } else if (type === Array) {
+            schema = { type: 'array', items: {} };
+        } else if (type === Object) {
+            schema = { type: 'object' };
+        } else if (this.isDescribable(type)) {
+            schema = { $ref: `#/components/schemas/${this.register(type)}` };
+        }
+
+        if (!schema || !constraints)
+            return schema;
+
+        if (constraints.enum)
+            schema.enum = constraints.enum;
+        if (constraints.min !== undefined)
+            schema.minimum = constraints.min;
+        if (constraints.max !== undefined)
+            schema.maximum = constraints.max;
+        if (constraints.minLength !== undefined)
+            schema.minLength = constraints.minLength;
+        if (constraints.maxLength !== undefined)
+            schema.maxLength = constraints.maxLength;
+        if (constraints.pattern)
+            schema.pattern = constraints.pattern.source;
+        if (constraints.minItems !== undefined)
+            schema.minItems = constraints.minItems;
+        if (constraints.maxItems !== undefined)
+            schema.maxItems = constraints.maxItems;
+
+        return schema;
+    }
+
+    private isDescribable(type : Function) {
+        return typeof type === 'function' 
+            && (type.prototype instanceof Presentation || hasConstraints(type));
+    }
+
+    /**
+     * Add a named schema for the given class to `schemas` (if it is not already present) and return its name.
+     */
+    private register(type : Function): string {
+        if (this.names.has(type))
+            return this.names.get(type);
+
+        let name = type.name || 'Anonymous';
+        let existingNames = Array.from(this.names.values());
+        for (let i = 2; existingNames.includes(name); ++i)
+            name = `${type.name || 'Anonymous'}${i}`;
+        
+        this.names.set(type, name);
+
+        let schema : OpenApiSchema = { type: 'object', properties: {} };
+        this.schemas[name] = schema;
+
+        if (type.prototype instanceof Presentation) {
+            for (let property of (type as any).properties as PresentedProperty[]) {
+                let propertyType = property.options?.class ?? property.designType;
+                schema.properties[property.propertyKey] = this.schemaFor(propertyType) ?? {};
+            }
+        } else {
+            let properties = getConstrainedProperties(type);
+            let required = Object.keys(properties).filter(key => properties[key].required);
+
+            for (let key of Object.keys(properties))
+                schema.properties[key] = this.schemaFor(properties[key].type, properties[key]) ?? {};
+
+            if (required.length > 0)
+                schema.required = required;
+        }
+
+        return name;
+    }
 }
 
 @Controller('', { group: 'openapi' })
@@ -110,10 +261,16 @@ export class OpenApiController {
         };
         let paths : OpenApiMap<OpenApiMap<OpenApiOperation>> = {};
         let components : OpenApiComponents = {} as any;
+        let schemaBuilder = new OpenApiSchemaBuilder();
         let securityDefinitions : OpenApiMap<OpenApiSecurityDefinition> = {};
         let tags : (OpenApiTag | string)[] = [];
 
         for (let route of desc.routes) {
+            // WebSocket routes cannot be described by OpenAPI
+
+            if (route.socket)
+                continue;
+
             let path = route.path;
             if (route.pathPrefix)
                 path = `${route.pathPrefix}${path}`;
@@ -129,30 +286,106 @@ export class OpenApiController {
             if (!paths[oapiPathName])
                 paths[oapiPathName] = {};
 
+            let parameters : OpenApiParameter[] = [];
+            let requestBody : OpenApiRequestBody;
+            let uploads = (route.parameters ?? []).filter(x => ['uploadedFile', 'uploadedFiles'].includes(x.type));
+
+            if (uploads.length > 0)
+                requestBody = this.describeUploads(route, uploads, schemaBuilder);
+
+            for (let routeParam of route.parameters ?? []) {
+                if (routeParam.type === 'body' && uploads.length > 0) {
+                    continue;
+                } else if (routeParam.type === 'body') {
+                    requestBody = {
+                        required: routeParam.required ?? false,
+                        content: {
+                            [this.bodyMediaType(routeParam)]: {
+                                schema: schemaBuilder.schemaFor(routeParam.valueType, routeParam.constraints) ?? {}
+                            }
+                        }
+                    };
+                } else if (routeParam.type === 'queryParams') {
+                    let properties = getConstrainedProperties(routeParam.valueType);
+                    for (let key of Object.keys(properties)) {
+                        parameters.push({
+                            in: 'query',
+                            name: key,
+                            schema: schemaBuilder.schemaFor(properties[key].type, properties[key]) ?? { type: 'string' },
+                            required: properties[key].required ?? false
+                        });
+                    }
+                } else if (OPENAPI_PARAMETER_LOCATIONS[routeParam.type]) {
+                    parameters.push({
+                        in: OPENAPI_PARAMETER_LOCATIONS[routeParam.type],
+                        name: routeParam.name,
+                        schema: schemaBuilder.schemaFor(routeParam.valueType, routeParam.constraints) ?? { type: 'string' },
+                        required: routeParam.type == 'path' ? true : (routeParam.required || false)
+                    });
+                }
+            }
+
+            let responses : OpenApiResponseMap = {};
+            let declarations = route.responses ?? [];
+            let declaresSuccess = declarations.some(x => /^2/.test(String(x.status)));
+
+            if (!declaresSuccess) {
+                let returnSchema = schemaBuilder.schemaFor(route.returnType);
+                let content : OpenApiMap<OpenApiMediaType> = {};
+
+                for (let mediaType of route.produces ?? [ 'application/json' ]) {
+                    if (/^text\//.test(mediaType))
+                        content[mediaType] = { schema: { type: 'string' } };
+                    else if (returnSchema)
+                        content[mediaType] = { schema: returnSchema };
+                }
+
+                responses['200'] = {
+                    description: 'Successful response',
+                    ...(Object.keys(content).length > 0 ? { content } : {})
+                };
+            }
+
+            if (requestBody || parameters.length > 0) {
+                responses['400'] = {
+                    description: 'Invalid request'
+                };
+            }
+
+            if (route.security) {
+                Object.assign(securityDefinitions, route.security.schemes);
+                responses['401'] = { description: 'Authentication is required' };
+                responses['403'] = { description: 'Not allowed to access this resource' };
+            }
+
+            if (route.authorization)
+                responses['403'] = { description: 'Not allowed to access this resource' };
+
+            for (let declaration of declarations)
+                responses[String(declaration.status).toUpperCase()] = this.describeResponse(declaration, schemaBuilder);
+
+            responses['4XX'] ??= { description: 'Invalid request' };
+            responses['5XX'] ??= { description: 'Unexpected error' };
+
             paths[oapiPathName][loweredHttpMethod] = {
                 operationId: route.method,
                 summary: (route.definition.options || {}).summary,
                 description: (route.definition.options || {}).description,
-                parameters: route.parameters.map(routeParam => ({
-                    in: routeParam.type,
-                    name: routeParam.name,
-                    schema: {
-                        type: 'string' // TODO
-                    },
-                    required: routeParam.type == 'path' ? true : (routeParam.required || false)
-                })),
-                responses: Object.assign({
-                    '4XX': {
-                        description: 'Invalid request'
-                    },
-                    '5XX': {
-                        description: 'Unexpected error'
-                    }
-                }),
+                parameters,
+                ...(requestBody ? { requestBody } : {}),
+                responses,
+                ...(route.security ? { security: route.security.requirements } : {}),
+                ...(route.authorization?.roles ? { 'x-roles': route.authorization.roles } : {}),
+                ...(route.authorization?.permissions ? { 'x-permissions': route.authorization.permissions } : {}),
                 tags: route.group ? [ route.group ] : []
             };
         }
 
+        components.schemas = schemaBuilder.schemas;
+
+        if (Object.keys(securityDefinitions).length > 0)
+            components.securitySchemes = securityDefinitions;
+
         return {
             openapi: '3.0.0',
             info,
@@ -161,4 +394,89 @@ export class OpenApiController {
             components
         };
     }
+
+    /**
+     * Describe a multipart/form-data request body which contains the given uploaded files as well as the fields 
+     * of the body parameter (if any).
+     */
+    private describeUploads(route : RouteDescription, uploads : RouteParamDescription[], schemaBuilder : OpenApiSchemaBuilder): OpenApiRequestBody {
+        let filesSchema : OpenApiSchema = { type: 'object', properties: {} };
+        let required = uploads.filter(x => x.required && x.name).map(x => x.name);
+        let binary : OpenApiSchema = { type: 'string', format: 'binary' };
+
+        for (let upload of uploads) {
+            if (upload.type === 'uploadedFile')
+                filesSchema.properties[upload.name] = binary;
+            else
+                filesSchema.properties[upload.name ?? 'files'] = { type: 'array', items: binary };
+        }
+
+        if (required.length > 0)
+            filesSchema.required = required;
+
+        let body = route.parameters.find(x => x.type === 'body');
+        let bodySchema = body ? schemaBuilder.schemaFor(body.valueType, body.constraints) : undefined;
+
+        return {
+            required: true,
+            content: {
+                'multipart/form-data': {
+                    schema: bodySchema ? { allOf: [ bodySchema, filesSchema ] } : filesSchema
+                }
+            }
+        };
+    }
+
+    private describeResponse(declaration : ResponseDeclaration, schemaBuilder : OpenApiSchemaBuilder): OpenApiResponse {
+        let response : OpenApiResponse = {
+            description: declaration.description ?? HTTP_MESSAGES[declaration.status] ?? ''
+        };
+
+        if (declaration.headers) {
+            response.headers = {};
+            for (let name of Object.keys(declaration.headers)) {
+                let header = declaration.headers[name];
+                response.headers[name] = {
+                    ...(header.description ? { description: header.description } : {}),
+                    schema: schemaBuilder.schemaFor(header.type ?? String) ?? { type: 'string' }
+                };
+            }
+        }
+
+        if (declaration.body) {
+            let schema = schemaBuilder.schemaFor(declaration.body) ?? {};
+            if (declaration.array)
+                schema = { type: 'array', items: schema };
+            
+            response.content = {
+                [declaration.contentType ?? 'application/json']: { schema }
+            };
+        } else if (declaration.contentType) {
+            response.content = { [declaration.contentType]: {} };
+        }
+
+        return response;
+    }
+
+    private bodyMediaType(param : RouteParamDescription) {
+        let format = param.format;
+
+        if (!format) {
+            if (param.valueType === String)
+                format = 'text';
+            else if (param.valueType === Buffer)
+                format = 'raw';
+        }
+
+        if (format === 'text')
+            return 'text/plain';
+        else if (format === 'form')
+            return 'application/x-www-form-urlencoded';
+        else if (format === 'multipart')
+            return 'multipart/form-data';
+        else if (format === 'raw')
+            return 'application/octet-stream';
+        else
+            return 'application/json';
+    }
 }
\ No newline at end of file
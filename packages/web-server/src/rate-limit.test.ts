@@ -0,0 +1,209 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import { Controller, Get, Mount } from './metadata';
+import { WebService } from './service';
+import { teststrap } from './teststrap';
+import { applyRateLimit, MemoryRateLimitStore, RateLimitPolicy, RateLimitResult, RateLimitState, RateLimitStore } from './rate-limit';
+
+/**
+ * Apply the given policy to requests made at the given times, returning the outcome of each.
+ */
+function simulate(policy: RateLimitPolicy, times: number[]) {
+	let state: RateLimitState;
+	let results: RateLimitResult[] = [];
+
+	for (let time of times) {
+		let outcome = applyRateLimit(state, policy, time);
+		state = outcome.state;
+		results.push(outcome.result);
+	}
+
+	return results;
+}
+
+suite(describe => {
+	describe('applyRateLimit()', it => {
+		it('limits requests within a fixed window', () => {
+			let results = simulate({ algorithm: 'fixed-window', limit: 2, window: 1000 }, [ 100, 200, 300, 1099, 1100 ]);
+
+			expect(results.map(x => x.allowed)).to.eql([ true, true, false, false, true ]);
+			expect(results.map(x => x.remaining)).to.eql([ 1, 0, 0, 0, 1 ]);
+			expect(results[2].retryAfter).to.equal(800);
+			expect(results[4].reset).to.equal(1000);
+		});
+
+		it('weights the previous window when using a sliding window', () => {
+			let policy: RateLimitPolicy = { algorithm: 'sliding-window', limit: 4, window: 1000 };
+			let results = simulate(policy, [ 500, 600, 700, 800, 1200, 1500, 1800 ]);
+
+			// At 1200, 80% of the previous window (4 requests) still counts, leaving no room until 1250.
+			// At 1500, only 50% counts (2 requests), so 2 more requests are allowed.
+
+			expect(results.map(x => x.allowed)).to.eql([ true, true, true, true, false, true, true ]);
+			expect(results[4].retryAfter).to.equal(50);
+		});
+
+		it('refills a token bucket over time', () => {
+			let results = simulate({ algorithm: 'token-bucket', limit: 2, window: 1000 }, [ 0, 0, 0, 500, 500, 1500 ]);
+
+			expect(results.map(x => x.allowed)).to.eql([ true, true, false, true, false, true ]);
+			expect(results[2].retryAfter).to.equal(500);
+			expect(results[5].remaining).to.equal(1);
+		});
+	});
+
+	describe('Rate limiting', it => {
+		it('rejects requests over the limit of a route with 429', async () => {
+			let store = new MemoryRateLimitStore();
+
+			@WebService()
+			class FakeApp {
+				@Get('/limited', { rateLimit: { limit: 2, window: 60_000, store } })
+				limited() {
+					return { ok: true };
+				}
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.get('/limited')
+				.expect(200)
+				.expect('RateLimit-Limit', '2')
+				.expect('RateLimit-Remaining', '1')
+				.expect('RateLimit-Reset', '60')
+				.expect('RateLimit-Policy', '2;w=60');
+			await test.get('/limited').expect(200).expect('RateLimit-Remaining', '0');
+			await test.get('/limited')
+				.expect(429)
+				.expect('Retry-After', '60')
+				.expect(res => expect(res.body.error).to.equal('rate-limited'));
+		});
+
+		it('uses the store provided via dependency injection', async () => {
+			let store = new MemoryRateLimitStore();
+
+			@WebService({
+				providers: [ { provide: RateLimitStore, useValue: store } ]
+			})
+			class FakeApp {
+				@Get('/limited', { rateLimit: { limit: 1, window: 60_000, name: 'limited' } })
+				limited() {
+					return { ok: true };
+				}
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.get('/limited').expect(200);
+			await test.get('/limited').expect(429);
+
+			store.reset();
+			await test.get('/limited').expect(200);
+		});
+
+		it('keys requests by header', async () => {
+			let store = new MemoryRateLimitStore();
+
+			@WebService()
+			class FakeApp {
+				@Get('/limited', { rateLimit: { limit: 1, window: 60_000, store, key: { header: 'X-API-Key' } } })
+				limited() {
+					return { ok: true };
+				}
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.get('/limited').set('X-API-Key', 'a').expect(200);
+			await test.get('/limited').set('X-API-Key', 'a').expect(429);
+			await test.get('/limited').set('X-API-Key', 'b').expect(200);
+		});
+
+		it('keys requests using a function, skipping those without a key', async () => {
+			let store = new MemoryRateLimitStore();
+
+			@WebService()
+			class FakeApp {
+				@Get('/limited', {
+					rateLimit: {
+						limit: 1,
+						window: 60_000,
+						store,
+						key: event => <string>event.request.headers['x-user'] ?? null
+					}
+				})
+				limited() {
+					return { ok: true };
+				}
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.get('/limited').set('X-User', 'alice').expect(200);
+			await test.get('/limited').set('X-User', 'alice').expect(429);
+			await test.get('/limited').expect(200);
+			await test.get('/limited').expect(200).expect(res => expect(res.header['ratelimit-limit']).to.be.undefined);
+		});
+
+		it('shares the limit of a controller between its routes', async () => {
+			let store = new MemoryRateLimitStore();
+
+			@Controller('', { rateLimit: { limit: 2, window: 60_000, store } })
+			class LimitedController {
+				@Get('/a')
+				a() {
+					return 'a';
+				}
+
+				@Get('/b')
+				b() {
+					return 'b';
+				}
+
+				@Get('/unlimited', { rateLimit: false })
+				unlimited() {
+					return 'unlimited';
+				}
+			}
+
+			@WebService()
+			class FakeApp {
+				@Mount()
+				limited: LimitedController;
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.get('/a').expect(200);
+			await test.get('/b').expect(200);
+			await test.get('/a').expect(429);
+			await test.get('/b').expect(429);
+			await test.get('/unlimited').expect(200);
+		});
+
+		it('reports the most restrictive limit in the headers', async () => {
+			let store = new MemoryRateLimitStore();
+
+			@Controller('', { rateLimit: { limit: 10, window: 60_000, store } })
+			class LimitedController {
+				@Get('/a', { rateLimit: { limit: 2, window: 1_000, store } })
+				a() {
+					return 'a';
+				}
+			}
+
+			@WebService()
+			class FakeApp {
+				@Mount()
+				limited: LimitedController;
+			}
+
+			let test = teststrap(FakeApp);
+
+			await test.get('/a')
+				.expect(200)
+				.expect('RateLimit-Limit', '2')
+				.expect('RateLimit-Remaining', '1');
+		});
+	});
+});
@@ -0,0 +1,402 @@
+import { Injector, ReflectiveInjector } from '@alterior/di';
+import { HttpError } from '@alterior/common';
+import { Constructor } from '@alterior/runtime';
+import type * as http from 'http';
+import { WebEvent } from './metadata';
+import { ConnectMiddleware } from './web-server-engine';
+
+/**
+ * How requests are counted against a rate limit:
+ * - `fixed-window`: At most `limit` requests are allowed within a window of `window` milliseconds which begins with
+ *   the first request.
+ * - `sliding-window`: Approximates a window which slides along with the current time by weighting the count of the
+ *   previous window. Unlike a fixed window, this prevents bursts of up to twice the limit around window boundaries.
+ * - `token-bucket`: Each request takes a token from a bucket holding up to `limit` tokens, which is refilled at a rate
+ *   of `limit` tokens per `window`. Allows bursts of up to `limit` requests while enforcing the average rate.
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+export interface RateLimitPolicy {
+	algorithm: RateLimitAlgorithm;
+
+	/**
+	 * The number of requests allowed per window (or the capacity of the bucket).
+	 */
+	limit: number;
+
+	/**
+	 * The length of the window in milliseconds (or the time taken to refill the bucket).
+	 */
+	window: number;
+}
+
+/**
+ * Determines which requests count against the same limit:
+ * - `ip`: Requests from the same IP address
+ * - `{ header }`: Requests with the same value for the given header. Requests without the header are keyed by IP
+ *   address.
+ * - A function: Requests for which the function returns the same key. When the function returns `undefined` or
+ *   `null`, the request is not limited.
+ */
+export type RateLimitKey = 'ip' | { header: string } | ((event: WebEvent) => string | Promise<string>);
+
+export interface RateLimitOptions {
+	/**
+	 * The number of requests allowed per window (or the capacity of the bucket when using `token-bucket`).
+	 */
+	limit: number;
+
+	/**
+	 * The length of the window in milliseconds (or the time taken to refill the bucket when using `token-bucket`).
+	 */
+	window: number;
+
+	/**
+	 * Defaults to `fixed-window`. See `RateLimitAlgorithm`.
+	 */
+	algorithm?: RateLimitAlgorithm;
+
+	/**
+	 * Defaults to `ip`. See `RateLimitKey`.
+	 */
+	key?: RateLimitKey;
+
+	/**
+	 * Distinguishes the counts of this limit from others within the store. Defaults to the name of the controller
+	 * (for controller limits) or the controller and method (for route limits). Limits with the same name and store
+	 * share their counts.
+	 */
+	name?: string;
+
+	/**
+	 * Where to keep counts. Can be an instance or an injectable class. When not specified, the `RateLimitStore`
+	 * provided via dependency injection is used if there is one. Otherwise counts are kept in memory.
+	 */
+	store?: RateLimitStore | Constructor<RateLimitStore>;
+
+	/**
+	 * Whether to send the `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset` and `RateLimit-Policy`
+	 * headers. Defaults to true. `Retry-After` is always sent when a request is rejected.
+	 */
+	headers?: boolean;
+}
+
+export interface RateLimitResult {
+	allowed: boolean;
+	limit: number;
+	remaining: number;
+
+	/**
+	 * Milliseconds until the limit fully resets.
+	 */
+	reset: number;
+
+	/**
+	 * Milliseconds until another request will be allowed. Zero when this request was allowed.
+	 */
+	retryAfter: number;
+}
+
+/**
+ * The state of a single key, as produced and consumed by `applyRateLimit()`.
+ */
+export interface RateLimitState {
+	windowStart?: number;
+	count?: number;
+	previousCount?: number;
+	tokens?: number;
+	updatedAt?: number;
+}
+
+/**
+ * Count a request against the given state. Returns the new state along with the outcome. Stores can use this to
+ * implement the algorithms on top of any backend which can atomically replace the state of a key. The state can be
+ * discarded once `result.reset` milliseconds have passed.
+ *
+ * @param state The current state of the key, or undefined if there is none
+ * @param policy
+ * @param now The current time (in milliseconds since the epoch)
+ */
+export function applyRateLimit(state: RateLimitState, policy: RateLimitPolicy, now: number): { state: RateLimitState, result: RateLimitResult } {
+	let { limit, window } = policy;
+
+	if (policy.algorithm === 'token-bucket') {
+		let rate = limit / window;
+		let tokens = state?.tokens !== undefined ? Math.min(limit, state.tokens + (now - state.updatedAt) * rate) : limit;
+		let allowed = tokens >= 1;
+
+		if (allowed)
+			tokens -= 1;
+
+		return {
+			state: { tokens, updatedAt: now },
+			result: {
+				allowed,
+				limit,
+				remaining: Math.floor(tokens),
+				reset: Math.ceil((limit - tokens) / rate),
+				retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / rate)
+			}
+		};
+	}
+
+	if (policy.algorithm === 'sliding-window') {
+		let windowStart = Math.floor(now / window) * window;
+		let count = 0;
+		let previousCount = 0;
+
+		if (state?.windowStart === windowStart) {
+			count = state.count;
+			previousCount = state.previousCount;
+		} else if (state?.windowStart === windowStart - window) {
+			previousCount = state.count;
+		}
+
+		let estimate = (count: number) => previousCount * (1 - (now - windowStart) / window) + count;
+		let allowed = estimate(count) + 1 <= limit;
+		let retryAfter = 0;
+
+		if (allowed) {
+			count += 1;
+		} else if (count + 1 <= limit) {
+			// Allowed once enough of the previous window has slid out of view
+			retryAfter = windowStart + window * (1 - (limit - 1 - count) / previousCount) - now;
+		} else {
+			// Allowed once enough of this window has slid out of view
+			retryAfter = windowStart + window * (2 - (limit - 1) / count) - now;
+		}
+
+		return {
+			state: { windowStart, count, previousCount },
+			result: {
+				allowed,
+				limit,
+				remaining: Math.max(0, Math.floor(limit - estimate(count))),
+				reset: windowStart + (count > 0 ? 2 : 1) * window - now,
+				retryAfter: Math.ceil(retryAfter)
+			}
+		};
+	}
+
+	let windowStart = state?.windowStart;
+	let count = state?.count ?? 0;
+
+	if (windowStart === undefined || now >= windowStart + window) {
+		windowStart = now;
+		count = 0;
+	}
+
+	let allowed = count < limit;
+	if (allowed)
+		count += 1;
+
+	let reset = windowStart + window - now;
+
+	return {
+		state: { windowStart, count },
+		result: {
+			allowed,
+			limit,
+			remaining: limit - count,
+			reset,
+			retryAfter: allowed ? 0 : reset
+		}
+	};
+}
+
+/**
+ * Keeps the counts used for rate limiting. Provide a subclass via dependency injection (or via the `store` option)
+ * to share counts between processes, such as by using Redis. Implementations must count requests atomically. See
+ * `applyRateLimit()`.
+ */
+export abstract class RateLimitStore {
+	/**
+	 * Count a request for the given key and determine whether it is allowed.
+	 * @param key
+	 * @param policy
+	 */
+	abstract consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult>;
+}
+
+/**
+ * Keeps the counts used for rate limiting in memory. Counts are not shared between processes.
+ */
+export class MemoryRateLimitStore extends RateLimitStore {
+	private entries = new Map<string, { state: RateLimitState, expiresAt: number }>();
+	private lastSweep = Date.now();
+
+	/**
+	 * How often (in milliseconds) to discard expired entries.
+	 */
+	sweepInterval = 60_000;
+
+	async consume(key: string, policy: RateLimitPolicy) {
+		let now = Date.now();
+		let entry = this.entries.get(key);
+		let { state, result } = applyRateLimit(entry?.expiresAt > now ? entry.state : undefined, policy, now);
+
+		this.entries.set(key, { state, expiresAt: now + result.reset });
+		this.sweep(now);
+
+		return result;
+	}
+
+	/**
+	 * Discard the counts for the given key, or for all keys if no key is given.
+	 * @param key
+	 */
+	reset(key?: string) {
+		if (key === undefined)
+			this.entries.clear();
+		else
+			this.entries.delete(key);
+	}
+
+	private sweep(now: number) {
+		if (now - this.lastSweep < this.sweepInterval)
+			return;
+
+		this.lastSweep = now;
+		for (let [ key, entry ] of this.entries) {
+			if (entry.expiresAt <= now)
+				this.entries.delete(key);
+		}
+	}
+}
+
+/**
+ * The stores used when no store is specified or provided, one per web server.
+ */
+const DEFAULT_STORES = new WeakMap<object, RateLimitStore>();
+
+/**
+ * Applies a rate limit to requests. Created for the `rateLimit` option of controllers and routes.
+ */
+export class RateLimiter {
+	constructor(
+		readonly options: RateLimitOptions,
+		readonly name: string,
+		readonly store: RateLimitStore
+	) {
+	}
+
+	/**
+	 * Create a rate limiter, resolving its store using the given injector.
+	 *
+	 * @param options
+	 * @param defaultName The name to use when the options do not specify one
+	 * @param injector
+	 * @param owner The object whose default store should be used if no store is specified or provided (ie the web server)
+	 */
+	static create(options: RateLimitOptions, defaultName: string, injector: Injector, owner: object) {
+		let store: RateLimitStore;
+
+		if (typeof options.store === 'function') {
+			let storeClass = options.store;
+			store = injector.get(storeClass, null) ?? ReflectiveInjector.resolveAndCreate([ storeClass ], injector).get(storeClass);
+		} else {
+			store = options.store ?? injector.get(RateLimitStore, null);
+		}
+
+		if (!store) {
+			store = DEFAULT_STORES.get(owner);
+			if (!store)
+				DEFAULT_STORES.set(owner, store = new MemoryRateLimitStore());
+		}
+
+		return new RateLimiter(options, options.name ?? defaultName, store);
+	}
+
+	get policy(): RateLimitPolicy {
+		return {
+			algorithm: this.options.algorithm ?? 'fixed-window',
+			limit: this.options.limit,
+			window: this.options.window
+		};
+	}
+
+	/**
+	 * Determine the key for the given request, or undefined if the request should not be limited.
+	 * @param event
+	 */
+	async key(event: WebEvent): Promise<string> {
+		let key = this.options.key ?? 'ip';
+
+		if (typeof key === 'function')
+			return await key(event) ?? undefined;
+
+		if (typeof key === 'object') {
+			let value = event.request.headers[key.header.toLowerCase()];
+			if (Array.isArray(value))
+				value = value[0];
+			if (value)
+				return `${key.header.toLowerCase()}:${value}`;
+		}
+
+		return `ip:${event.request['ip'] ?? event.request.socket?.remoteAddress}`;
+	}
+
+	/**
+	 * Count the given request. Returns undefined if the request is not limited.
+	 * @param event
+	 */
+	async consume(event: WebEvent): Promise<RateLimitResult> {
+		let key = await this.key(event);
+		if (key === undefined || key === null)
+			return undefined;
+
+		return await this.store.consume(`${this.name}:${key}`, this.policy);
+	}
+
+	/**
+	 * Produce middleware which applies this limit, rejecting requests which exceed it with `429 Too Many Requests`.
+	 */
+	middleware(): ConnectMiddleware {
+		return async (req, res, next) => {
+			let result: RateLimitResult;
+
+			try {
+				result = await this.consume(WebEvent.current);
+			} catch (e) {
+				next(e);
+				return;
+			}
+
+			if (!result) {
+				next();
+				return;
+			}
+
+			if (this.options.headers !== false)
+				this.setHeaders(res, result);
+
+			if (!result.allowed) {
+				let retryAfter = Math.ceil(result.retryAfter / 1000);
+				next(new HttpError(429, {
+					error: 'rate-limited',
+					message: `Too many requests. Try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}.`
+				}, [
+					[ 'Retry-After', String(retryAfter) ]
+				]));
+				return;
+			}
+
+			next();
+		};
+	}
+
+	/**
+	 * Set the `RateLimit-*` headers. When several limits apply to a request, the headers describe the one with the
+	 * fewest remaining requests.
+	 */
+	private setHeaders(res: http.ServerResponse, result: RateLimitResult) {
+		let existing = res.getHeader('RateLimit-Remaining');
+		if (existing !== undefined && Number(existing) < result.remaining)
+			return;
+
+		res.setHeader('RateLimit-Limit', String(result.limit));
+		res.setHeader('RateLimit-Remaining', String(result.remaining));
+		res.setHeader('RateLimit-Reset', String(Math.ceil(result.reset / 1000)));
+		res.setHeader('RateLimit-Policy', `${result.limit};w=${Math.ceil(this.policy.window / 1000)}`);
+	}
+}
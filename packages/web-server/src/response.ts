@@ -1,4 +1,13 @@
-export type EncodingType = 'json' | 'raw';
+/**
+ * How the body of a `Response` is encoded:
+ * - `json`: The body is encoded as JSON (the default)
+ * - `raw`: The body (a string or Buffer) is sent as-is
+ * - `negotiate`: The body is serialized using the media type negotiated from the `Accept` header of the request 
+ *   (see the `produces` route option)
+ * - Any other value is treated as a media type, and the body is serialized using the serializer registered for it
+ *   (ie `text/csv`)
+ */
+export type EncodingType = 'json' | 'raw' | 'negotiate' | (string & {});
 import { HttpError } from '@alterior/common';
 
 export class Response {
@@ -431,7 +440,8 @@ export class Response {
 		throw new HttpError(this.status, this.body, this.headers);
 	}
 
-	private _encoding : 'raw' | 'json';
+	private _encoding : EncodingType;
+	private _defaultContentType : string[];
 
 	get encoding() {
 		return this._encoding;
@@ -440,11 +450,12 @@ export class Response {
 	/**
 	 * Change the encoding of the body in the response. By default, Response will encode the body contents as 
 	 * JSON, even if the type of the value is a string. To send a body which is not JSON, you must call 
-	 * encodeAs('raw').
+	 * encodeAs('raw'). To serialize the body using content negotiation, call encodeAs('negotiate'), or pass 
+	 * a media type (ie `text/csv`) to use a specific serializer. 
 	 */
 	public encodeAs(encoding : EncodingType) {
 		
-		if (!['raw', 'json'].includes(encoding))
+		if (!['raw', 'json', 'negotiate'].includes(encoding) && !encoding?.includes('/'))
 			throw new Error(`Unknown encoding '${encoding}'`);
 
 		this._encoding = encoding;
@@ -455,9 +466,14 @@ export class Response {
 			this.body = JSON.stringify(this.unencodedBody);
 			
 			if (!this.headers.find(x => x[0].toLowerCase() == 'content-type')) {
-				this.headers.push([ 'Content-Type', 'application/json; charset=utf-8' ]);
+				this._defaultContentType = [ 'Content-Type', 'application/json; charset=utf-8' ];
+				this.headers.push(this._defaultContentType);
 			}
 
+		} else if (encoding === 'negotiate' || encoding.includes('/')) {
+			// The body is serialized when the response is sent. The Content-Type is determined by the serializer.
+			this.body = this.unencodedBody;
+			this.headers = this.headers.filter(x => x !== this._defaultContentType);
 		} else {
 			throw new Error(`Unknown encoding '${encoding}'`);
 		}
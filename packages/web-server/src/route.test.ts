@@ -4,7 +4,7 @@ import { expect } from 'chai';
 import * as bodyParser from 'body-parser';
 import { Module } from '@alterior/di';
 import { teststrap } from './teststrap';
-import { QueryParam, Body, PathParam, QueryParams } from './input';
+import { QueryParam, Body, PathParam, QueryParams, Header, Cookie } from './input';
 import { WebService } from './service';
 import { HttpError } from '@alterior/common';
 import { Application } from '@alterior/runtime';
@@ -718,6 +718,65 @@ suite(describe => {
 			expect(observedR).to.equal('bar');
 		});
 
+		it('should support binding @Header', async () => {
+			let observedTag, observedCount, observedMissing;
+			@WebService()
+			class FakeApp {
+				@Get('/foo')
+				getX(
+					@Header('If-None-Match') tag : string, 
+					@Header('X-Count') count : number,
+					@Header('X-Missing', { default: 'fallback' }) missing : string
+				) {
+					observedTag = tag;
+					observedCount = count;
+					observedMissing = missing;
+
+					return Promise.resolve({ok: true});
+				}
+			}
+
+			await teststrap(FakeApp)
+				.get('/foo')
+				.set('If-None-Match', '"abc"')
+				.set('X-Count', '12')
+				.expect(200, { ok: true })
+			;
+			
+			expect(observedTag).to.equal('"abc"');
+			expect(observedCount).to.equal(12);
+			expect(observedMissing).to.equal('fallback');
+
+			await teststrap(FakeApp)
+				.get('/foo')
+				.set('X-Count', 'twelve')
+				.expect(400)
+			;
+		});
+
+		it('should support binding @Cookie', async () => {
+			let observedTenant, observedTheme;
+			@WebService()
+			class FakeApp {
+				@Get('/foo')
+				getX(@Cookie('tenant') tenant : string, @Cookie('theme', { default: 'light' }) theme : string) {
+					observedTenant = tenant;
+					observedTheme = theme;
+
+					return Promise.resolve({ok: true});
+				}
+			}
+
+			await teststrap(FakeApp)
+				.get('/foo')
+				.set('Cookie', 'other=1; tenant=acme%20corp')
+				.expect(200, { ok: true })
+			;
+			
+			expect(observedTenant).to.equal('acme corp');
+			expect(observedTheme).to.equal('light');
+		});
+
 		it('should be able to inject @Body()', async () => {
 			interface MyRequestType {
 				zoom : number;
@@ -1248,4 +1307,119 @@ suite(describe => {
 			;
 		});
 	});
+
+	describe('Implicit routes', it => {
+		function fakeApp() {
+			@WebService()
+			class FakeApp {
+				@Get('/items/:id')
+				get() {
+					return { id: 1 };
+				}
+
+				@Delete('/items/:id')
+				delete() {
+					return { deleted: true };
+				}
+
+				@Post('/actions')
+				act() {
+					return { done: true };
+				}
+
+				@Get('/stream')
+				async *stream() {
+					yield 1;
+					throw new Error(`The stream should not be consumed for HEAD requests`);
+				}
+			}
+
+			return FakeApp;
+		}
+
+		it('should respond with 405 and Allow when the method is not supported', async () => {
+			let test = teststrap(fakeApp());
+
+			await test.put('/items/1')
+				.expect(405)
+				.expect('Allow', 'GET, HEAD, DELETE, OPTIONS')
+				.expect(res => expect(res.body.error).to.equal('method-not-allowed'));
+
+			await test.get('/actions')
+				.expect(405)
+				.expect('Allow', 'POST, OPTIONS');
+		});
+
+		it('should consider every route which matches the path before responding with 405', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/users/:id')
+				get() {
+					return { id: 1 };
+				}
+
+				@Post('/users/me')
+				update() {
+					return { updated: true };
+				}
+			}
+
+			await teststrap(FakeApp).post('/users/me').expect(200, { updated: true });
+			await teststrap(FakeApp).put('/users/me')
+				.expect(405)
+				.expect('Allow', 'GET, HEAD, POST, OPTIONS');
+			await teststrap(FakeApp).put('/users/1')
+				.expect(405)
+				.expect('Allow', 'GET, HEAD, OPTIONS');
+			await teststrap(FakeApp).options('/users/me')
+				.expect(204)
+				.expect('Allow', 'GET, HEAD, POST, OPTIONS');
+		});
+
+		it('should respond with 405 and answer OPTIONS without a default handler', async () => {
+			@WebService({ server: { defaultHandler: null } })
+			class FakeApp {
+				@Get('/items/:id')
+				get() {
+					return { id: 1 };
+				}
+			}
+
+			await teststrap(FakeApp).put('/items/1')
+				.expect(405)
+				.expect('Allow', 'GET, HEAD, OPTIONS');
+			await teststrap(FakeApp).options('/items/1')
+				.expect(204)
+				.expect('Allow', 'GET, HEAD, OPTIONS');
+			await teststrap(FakeApp).get('/unknown').expect(404);
+		});
+
+		it('should still respond with 404 for unknown paths', async () => {
+			await teststrap(fakeApp())
+				.put('/unknown')
+				.expect(404);
+		});
+
+		it('should answer HEAD requests using the GET route', async () => {
+			await teststrap(fakeApp())
+				.head('/items/1')
+				.expect(200)
+				.expect('Content-Type', /^application\/json/)
+				.expect(res => expect(res.text).to.be.undefined);
+		});
+
+		it('should not consume streams for HEAD requests', async () => {
+			await teststrap(fakeApp())
+				.head('/stream')
+				.expect(200)
+				.expect('Content-Type', /^application\/x-ndjson/);
+		});
+
+		it('should answer OPTIONS requests with the allowed methods', async () => {
+			await teststrap(fakeApp())
+				.options('/items/1')
+				.expect(204)
+				.expect('Allow', 'GET, HEAD, DELETE, OPTIONS');
+		});
+	});
 })
\ No newline at end of file
@@ -1,17 +1,31 @@
 import * as bodyParser from 'body-parser';
+import * as stream from 'stream';
 import { IAnnotation } from "@alterior/annotations";
 import { BodyOptions, InputAnnotation } from "./input";
-import { WebEvent, RouteDefinition, RouteOptions } from "./metadata";
-import { Injector } from '@alterior/di';
+import { WebEvent, RouteDefinition, RouteOptions, ResponseDeclaration, ControllerOptions } from "./metadata";
+import { Injector, ReflectiveInjector } from '@alterior/di';
 import { MiddlewareProvider, prepareMiddleware } from "./middleware";
 import { Annotations } from "@alterior/annotations";
 import { WebServer } from "./web-server";
 import { WebServerSetupError } from "./web-server-setup-error";
 import { HttpError, ArgumentError, ArgumentNullError, getParameterNames, isConstructor } from "@alterior/common";
 import { Response } from './response';
-import { ellipsize } from './utils';
+import { appendVary, ellipsize } from './utils';
 import { ConnectMiddleware } from './web-server-engine';
 import { Interceptor } from './web-server-options';
+import { getRequestCookies } from './cookies';
+import { FileUpload, multipartParser, UploadOptions } from './upload';
+import { JSON_SERIALIZER, NegotiatedSerializer } from './serializers';
+import { isStreamable, sendStream, StreamFormat } from './streaming';
+import { EventChannel } from './event-stream';
+import { WebConduit } from './web-conduit';
+import { RateLimiter } from './rate-limit';
+import { CorsOptions, corsMiddleware, resolveCorsOptions } from './cors';
+import { computeETag, isNotModified, preconditionsSatisfied, resolveConditionalOptions } from './conditional';
+import { ConstraintAnnotation, ConstraintOptions, hasConstraints, mergeConstraints, validateConstraints, ValidationFailure } from './validation';
+import { parseTraceparent, Span } from '@alterior/runtime';
+import { csrfProtection, resolveCsrfOptions } from './csrf';
+import { describeGuardAuthorization, describeGuardSecurity, Guard, GuardAuthorization, GuardsAnnotation, GuardSecurity, guardMiddleware, resolveGuard } from './guards';
 
 export interface RouteDescription {
 	definition : RouteDefinition;
@@ -24,15 +38,81 @@ export interface RouteDescription {
 	
 	description? : string;
 	parameters? : RouteParamDescription[];
+
+	/**
+	 * The return type of the route method as emitted by Typescript (`design:returntype`), if available.
+	 */
+	returnType? : any;
+	/**
+	 * The responses declared via the `responses` route option.
+	 */
+	responses? : ResponseDeclaration[];
+
+	/**
+	 * The media types declared via the `produces` route option.
+	 */
+	produces? : string[];
+
+	/**
+	 * True when this is a WebSocket route (see `@Socket()`).
+	 */
+	socket? : boolean;
+
+	/**
+	 * The security requirements enforced by the guards of this route, if any of them describe their requirements.
+	 */
+	security? : GuardSecurity;
+
+	/**
+	 * The roles and permissions required by the guards of this route (see `@RequireRoles()` and 
+	 * `@RequirePermission()`), if any.
+	 */
+	authorization? : GuardAuthorization;
+}
+
+/**
+ * An entry in the table of routes built while preparing controllers.
+ */
+export interface RouteTableEntry {
+	controller : Function;
+	route : RouteDefinition;
+	instance : RouteInstance;
 }
 
 export interface RouteParamDescription {
+	/**
+	 * The name of the input, ie the name of the query parameter or path parameter.
+	 */
 	name : string;
+
+	/**
+	 * Where the value comes from (`path`, `queryParam`, `queryParams`, `body` etc).
+	 */
 	type : string;
 	description? : string;
 	required? : boolean;
+
+	/**
+	 * The type of the method parameter as emitted by Typescript (`design:paramtypes`), if available.
+	 */
+	valueType? : any;
+
+	/**
+	 * The validation constraints which apply to this parameter, if any.
+	 */
+	constraints? : ConstraintOptions;
+
+	/**
+	 * The format of the input, when specified (see `BodyOptions.format`)
+	 */
+	format? : string;
 }
 
+/**
+ * The key within `WebEvent.metadata` which holds the injector of the current WebSocket connection.
+ */
+const CONNECTION_INJECTOR = '@alterior/web-server:connectionInjector';
+
 export interface RouteMethodMetadata {
 	returnType : any;
 	paramTypes : any[];
@@ -76,6 +156,55 @@ export class RouteMethodParameter<T = any> {
 		return this._description;
 	}
 
+	private _constraints : ConstraintOptions;
+	private _connectionScoped = false;
+
+	/**
+	 * True when the value of this parameter comes from the injector of a WebSocket connection (see `@Socket()`), 
+	 * and is thus only available once the request has been upgraded.
+	 */
+	get connectionScoped() {
+		return this._connectionScoped;
+	}
+
+	/**
+	 * The constraints which must be satisfied by the value of this parameter, or undefined if the parameter is not
+	 * validated. Derived from constraint decorators on the parameter itself as well as those on the properties of 
+	 * its type.
+	 */
+	get constraints() {
+		return this._constraints;
+	}
+
+	/**
+	 * Validate the resolved value of this parameter against its constraints.
+	 * @param value 
+	 */
+	validate(value : any): ValidationFailure[] {
+		if (!this._constraints)
+			return [];
+		
+		let inputType = this.inputAnnotation?.type ?? this._description?.type;
+		let isContainer = ['body', 'queryParams'].includes(inputType);
+
+		return validateConstraints(this._constraints, value, {
+			path: isContainer ? '' : (this.inputAnnotation?.name || this.name),
+			coerce: inputType === 'queryParams'
+		});
+	}
+
+	private prepareConstraints() {
+		let hasOwnConstraints = this.annotations.some(x => x instanceof ConstraintAnnotation);
+		if (hasOwnConstraints || hasConstraints(this.type))
+			this._constraints = mergeConstraints(this.annotations, this.type);
+		
+		if (this._constraints) {
+			this._description.constraints = this._constraints;
+			if (this._constraints.required)
+				this._description.required = true;
+		}
+	}
+
 	prepare() {
 		let inputAnnotation = this.inputAnnotation;
 		let paramName = this.name;
@@ -88,22 +217,31 @@ export class RouteMethodParameter<T = any> {
 		paramDesc = { 
 			name: paramName, 
 			type: null,
-			description: `An instance of ${paramType}`
+			description: `An instance of ${paramType}`,
+			valueType: paramType
 		};
 
 		if (inputAnnotation) {
 			paramDesc.type = inputAnnotation.type;
 
 			let inputName = inputAnnotation.name || paramName;
+			paramDesc.name = inputName;
+			paramDesc.format = inputAnnotation.format;
 
 			let typeFactories = {
 				path: (ev : WebEvent) => ev.request['params'] ? ev.request['params'][inputName] : undefined,
 				queryParam: (ev : WebEvent) => ev.request['query'] ? ev.request['query'][inputName] : undefined,
 				queryParams: (ev : WebEvent) => ev.request['query'] ?? {},
+				header: (ev : WebEvent) => ev.request.headers?.[inputName.toLowerCase()],
+				cookie: (ev : WebEvent) => getRequestCookies(ev.request)[inputName],
+				uploadedFile: (ev : WebEvent) => (<FileUpload[]>ev.request['files'] ?? []).find(x => x.fieldName === inputName),
+				uploadedFiles: (ev : WebEvent) => (<FileUpload[]>ev.request['files'] ?? [])
+					.filter(x => !inputAnnotation.name || x.fieldName === inputAnnotation.name),
 				session: (ev : WebEvent) => inputAnnotation.name ? 
 					(ev.request['session'] || {})[inputAnnotation.name]
 					: ev.request['session'],
-				body: (ev : WebEvent) => ev.request['body']
+				body: (ev : WebEvent) => ev.request['body'],
+				user: (ev : WebEvent) => ev.user
 			};
 			
 			factory = typeFactories[inputAnnotation.type];
@@ -118,7 +256,10 @@ export class RouteMethodParameter<T = any> {
 
 		} else if (paramType === WebEvent) {
 			factory = ev => ev;
-		} 
+		} else if (route.connectionScopedTokens.includes(paramType)) {
+			factory = ev => ev.metadata[CONNECTION_INJECTOR].get(paramType);
+			this._connectionScoped = true;
+		}
 		
 		// Name based matching for path parameters
 
@@ -204,6 +345,8 @@ export class RouteMethodParameter<T = any> {
 						message: `The parameter ${paramDesc.name} must be a valid timestamp`
 					});
 				}
+
+				return date;
 			}
 		}
 
@@ -220,6 +363,9 @@ export class RouteMethodParameter<T = any> {
 
 		this._factory = factory;
 		this._description = paramDesc;
+
+		if (!this._connectionScoped)
+			this.prepareConstraints();
 	}
 }
 
@@ -236,8 +382,9 @@ export class RouteInstance {
 		readonly interceptors: Interceptor[],
         readonly parentGroup: string,
         readonly controllerType : Function,
-        readonly routeTable : any[],
-		readonly definition : RouteDefinition
+        readonly routeTable : RouteTableEntry[],
+		readonly definition : RouteDefinition,
+		readonly controllerOptions : ControllerOptions = {}
 	) {
 		this.prepare();
 	}
@@ -254,7 +401,8 @@ export class RouteInstance {
 
 		this.routeTable.push({
 			controller: this.controllerType,
-			route: this.definition
+			route: this.definition,
+			instance: this
 		});
 
 		let routeParams = (this.definition.path || "").match(/:([A-Za-z][A-Za-z0-9]*)/g) || [];
@@ -274,6 +422,48 @@ export class RouteInstance {
 		return this.options.group || this.parentGroup;
 	}
 
+	/**
+	 * The CORS options which apply to this route, combined from the server, controller and route. Undefined when 
+	 * CORS is not enabled for this route.
+	 */
+	get corsOptions(): CorsOptions {
+		return resolveCorsOptions(this.server.options.cors, this.controllerOptions.cors, this.options.cors);
+	}
+
+	/**
+	 * True when requests to this route must send a CSRF token (see the `csrf` server option).
+	 */
+	get csrfProtected(): boolean {
+		return !!this.server.options.csrf && (this.options.csrf ?? this.controllerOptions.csrf ?? true);
+	}
+
+	/**
+	 * The full path of this route, including the prefix it was mounted with (see `mount()`).
+	 */
+	get mountedPath(): string {
+		return `${this.description.pathPrefix || ''}${this.definition.path}`;
+	}
+
+	/**
+	 * True when this is a WebSocket route (see `@Socket()`).
+	 */
+	get isSocket(): boolean {
+		return !!this.options.socket;
+	}
+
+	/**
+	 * The types which are resolved from the injector of each connection when this is a WebSocket route.
+	 */
+	get connectionScopedTokens(): any[] {
+		if (!this.isSocket)
+			return [];
+		
+		return [
+			WebConduit, 
+			...(this.options.socket.providers ?? []).map(x => typeof x === 'function' ? x : x?.['provide'])
+		];
+	}
+
 	private _pathParameterMap = {};
 
 	get pathParameterMap() {
@@ -288,18 +478,42 @@ export class RouteInstance {
 			group: this.group,
 			method: route.method,
 			path: this.definition.path,
+			returnType: this._methodMetadata.returnType,
+			responses: route.options?.responses ?? [],
+			produces: route.options?.produces,
+			socket: this.isSocket,
+			security: describeGuardSecurity(this.guards),
+			authorization: describeGuardAuthorization(this.guards),
 			parameters: []
 		};
 
+		// Path parameters come first (in the order they appear in the path), whether or not they are bound to a 
+		// method parameter. These are followed by the rest of the bound method parameters.
+
+		let boundParams = this._parameters
+			.map(x => x.description)
+			.filter(x => x && x.type)
+		;
+
+		let pathParams = this._methodMetadata.pathParamNames
+			.map(id => id.replace(/^:/, ''))
+			.map(name => 
+				boundParams.find(x => x.type === 'path' && x.name === name) 
+				?? <RouteParamDescription>{ name, type: 'path' }
+			)
+			.map(desc => this.pathParameterMap[desc.name] = desc)
+		;
+
 		routeDescription.parameters.push(
-			...this._methodMetadata.pathParamNames
-				.map(id => <RouteParamDescription>{
-					name: id.replace(/^:/, ''),
-					type: 'path'
-				})
-				.map(desc => this.pathParameterMap[desc.name] = desc)
+			...pathParams,
+			...boundParams.filter(x => !pathParams.includes(x))
 		);
 
+		for (let param of routeDescription.parameters) {
+			if (param.type === 'path')
+				param.required = true;
+		}
+
 		this._description = routeDescription;
 	}
 
@@ -313,8 +527,13 @@ export class RouteInstance {
 		
 		// Load up the defined middleware for this route
 		let route = this.definition;
+		let corsOptions = this.corsOptions;
 		let middleware = [
+			...(corsOptions ? [ corsMiddleware(corsOptions) ] : []),
 			...(this.server.options?.preRouteMiddleware ?? []),
+			...this.prepareRateLimiters().map(x => x.middleware()),
+			...(this.csrfProtected ? [ csrfProtection(resolveCsrfOptions(this.server.options.csrf)) ] : []),
+			...(this.guards.length > 0 ? [ guardMiddleware(this.guards) ] : []),
 			...this.preMiddleware,
 			...(route.options.middleware ?? []),
 			...this.postMiddleware,
@@ -336,18 +555,22 @@ export class RouteInstance {
 
 		let { paramTypes, paramAnnotations } = this._methodMetadata;
 		
-		let bodyAnnotation = paramAnnotations
-			.map(annots => annots.find(x => x instanceof InputAnnotation && x.type === 'body') as InputAnnotation)
-			.filter(x => x)
-			[0]
+		let inputAnnotations = paramAnnotations
+			.map(annots => annots.find(x => x instanceof InputAnnotation) as InputAnnotation)
 		;
-		let bodyIndex = paramAnnotations.findIndex(annots => annots.some(x => x === bodyAnnotation));
-		if (bodyAnnotation) {
+		let bodyAnnotation = inputAnnotations.find(x => x?.type === 'body');
+		let bodyIndex = inputAnnotations.indexOf(bodyAnnotation);
+		let uploadAnnotations = inputAnnotations.filter(x => ['uploadedFile', 'uploadedFiles'].includes(x?.type));
+
+		if (bodyAnnotation || uploadAnnotations.length > 0) {
 			// need to add bodyParser
 			const options = (bodyAnnotation ?? {}) as BodyOptions;
 			const paramType = paramTypes[bodyIndex];
 			let format = options.format;
 
+			if (uploadAnnotations.length > 0)
+				format = 'multipart';
+
 			if (!format) {
 				if (paramType === String)
 					format = 'text';
@@ -364,6 +587,10 @@ export class RouteInstance {
 				bodyMiddleware = bodyParser.raw({ type: () => true });
 			else if (format === 'json')
 				bodyMiddleware = bodyParser.json({ type: () => true, strict: false });
+			else if (format === 'form')
+				bodyMiddleware = bodyParser.urlencoded({ type: () => true, extended: true });
+			else if (format === 'multipart')
+				bodyMiddleware = multipartParser(Object.assign(<UploadOptions>{}, ...[ bodyAnnotation, ...uploadAnnotations ].map(x => x?.upload)));
 
 			if (bodyMiddleware) {
 				this.resolvedMiddleware.push(bodyMiddleware);
@@ -374,6 +601,50 @@ export class RouteInstance {
 	middleware : MiddlewareProvider[];
 	resolvedMiddleware : ConnectMiddleware[];
 
+	private _guards : Guard[];
+
+	/**
+	 * The guards which apply to this route, from the `guards` options of the controller and route and from 
+	 * `@UseGuards()`, in the order they run.
+	 */
+	get guards(): Guard[] {
+		if (this._guards)
+			return this._guards;
+
+		if (this.options.guards === false)
+			return this._guards = [];
+
+		// Decorators are applied from the bottom up, so reverse them to run guards in the order they are written
+
+		let providers = [
+			...(this.controllerOptions.guards ?? []),
+			...GuardsAnnotation.getAllForClass(this.controllerType).reverse().flatMap(x => x.guards),
+			...GuardsAnnotation.getAllForMethod(this.controllerType, this.definition.method).reverse().flatMap(x => x.guards),
+			...(this.options.guards ?? [])
+		];
+
+		return this._guards = providers.map(x => resolveGuard(x, this.injector));
+	}
+
+	/**
+	 * Create the rate limiters which apply to this route from the `rateLimit` options of the controller and route.
+	 */
+	private prepareRateLimiters() {
+		let controllerName = this.controllerType.name;
+		let routeLimit = this.options.rateLimit;
+		let limiters : RateLimiter[] = [];
+
+		if (routeLimit === false)
+			return limiters;
+
+		if (this.controllerOptions.rateLimit)
+			limiters.push(RateLimiter.create(this.controllerOptions.rateLimit, controllerName, this.injector, this.server));
+		if (routeLimit)
+			limiters.push(RateLimiter.create(routeLimit, `${controllerName}.${this.definition.method}`, this.injector, this.server));
+
+		return limiters;
+	}
+
 	private prepareMethodMetadata() {
 		let controller = this.controllerType;
 		let route = this.definition;
@@ -454,6 +725,30 @@ export class RouteInstance {
 		return this._parameters.slice();
 	}
 
+	/**
+	 * Validate the given resolved parameter values against the constraints of each parameter. If any constraints
+	 * fail, an HttpError with status 400 is thrown which lists every failure.
+	 * 
+	 * @param resolvedParams 
+	 */
+	private validateParameters(resolvedParams : any[]) {
+		let failures = this.parameters
+			.map((param, i) => param.validate(resolvedParams[i]))
+			.reduce((pv, cv) => (pv.push(...cv), pv), [])
+		;
+
+		if (failures.length === 0)
+			return;
+		
+		throw new HttpError(400, {
+			error: 'invalid-request',
+			message: failures.length === 1 
+				? failures[0].message 
+				: `${failures.length} fields are invalid: ${failures.map(x => x.path || 'value').join(', ')}`,
+			errors: failures
+		});
+	}
+
 	private async execute(instance, event : WebEvent) {
 		if (!instance) 
 			throw new ArgumentNullError('instance');
@@ -478,10 +773,12 @@ export class RouteInstance {
 
 		// Middleware
 
-		await event.context(async () => {
+		let middlewareFailed = await event.context(async () => {
 			for (let item of this.resolvedMiddleware) {
 				try {
-					await new Promise<void>((resolve, reject) => item(event.request, event.response, (err?: any) => err ? reject(err) : resolve()));
+					await this.server.tracer.trace(`middleware ${item.name || 'anonymous'}`, () => 
+						new Promise<void>((resolve, reject) => item(event.request, event.response, (err?: any) => err ? reject(err) : resolve()))
+					);
 				} catch (e) {
 					event.metadata['uncaughtError'] = e;
 					this.server.handleError(
@@ -491,11 +788,21 @@ export class RouteInstance {
 						`Middleware ${item.name || 'anonymous'}()`
 					);
 					this.server.reportRequest('finished', event, reportSource);
-					return;
+					return true;
 				}
 			}
+
+			return false;
 		});
 
+		if (middlewareFailed)
+			return;
+
+		if (this.isSocket) {
+			await this.executeSocket(instance, event, reportSource);
+			return;
+		}
+
 		// Execute our function by resolving the parameter factories into a set of parameters to provide to the 
 		// function.
 
@@ -503,6 +810,8 @@ export class RouteInstance {
 
 		try {
 			resolvedParams = await Promise.all(this.parameters.map(x => x.resolve(event)));
+			this.validateParameters(resolvedParams);
+			await this.checkPreconditions(event);
 		} catch (e) {
 			event.metadata['uncaughtError'] = e;
 			this.server.handleError(e, event, this, reportSource);
@@ -532,23 +841,8 @@ export class RouteInstance {
 
 			let result;
 
-			let interceptors = [
-				...this.server.options.interceptors ?? [],
-				...this.interceptors ?? [],
-				...this.definition.options.interceptors ?? [],
-			].reverse();
-
 			try {
-				result = await event.context(async () => {
-					let action = (...params) => instance[route.method](...params);
-					for (let interceptor of interceptors) {
-						let inner = action;
-						action = (...params) => interceptor(inner, ...params);
-					}
-
-					return await action(...resolvedParams);
-
-				});
+				result = await this.invoke(instance, event, resolvedParams);
 			} catch (e) {
 				event.metadata['uncaughtError'] = e;
 				this.server.handleError(e, event, this, reportSource);
@@ -565,7 +859,18 @@ export class RouteInstance {
 			}
 
 			if (result === null) {
-				this.server.engine.sendJsonBody(event, result);
+				this.sendNegotiatedBody(event, result, route.options.produces, reportSource);
+				return;
+			}
+
+			if (result instanceof EventChannel) {
+				let lastEventId = <string>event.request.headers['last-event-id'];
+				await this.sendStreamedBody(event, result.events(lastEventId), reportSource, 'sse');
+				return;
+			}
+
+			if (isStreamable(result)) {
+				await this.sendStreamedBody(event, result, reportSource);
 				return;
 			}
 
@@ -577,10 +882,15 @@ export class RouteInstance {
 					response.headers.forEach(x => event.response.setHeader(x[0], x[1]));
 					
 					if (response.encoding === 'raw') {
+						if (this.sendNotModified(event, response.body, () => response.body))
+							return;
+
+						let body : Buffer;
+
 						if (response.body instanceof Buffer) {
-							event.response.write(response.body);
+							body = response.body;
 						} else if (typeof response.body === 'string') {
-							event.response.write(Buffer.from(response.body)); 
+							body = Buffer.from(response.body); 
 						} else if (response.body === undefined || response.body === null) {
 							if (!event.response.headersSent && event.response.statusCode === 200)
 								event.response.statusCode = 204;
@@ -588,15 +898,33 @@ export class RouteInstance {
 							throw new Error(`Unknown response body type ${response.body}`);
 						}
 
-						event.response.end();
+						event.response.end(body);
 					} else if (response.encoding === 'json') {
-						if (response.unencodedBody)
+						let serialized : string;
+						let serialize = () => serialized ??= (response.unencodedBody ? JSON.stringify(response.unencodedBody) : '');
+
+						if (this.sendNotModified(event, response.unencodedBody, serialize))
+							return;
+
+						// When an ETag was computed, send the exact body it was computed from
+
+						if (serialized) {
+							event.response.setHeader('Content-Type', JSON_SERIALIZER.contentType);
+							event.response.end(serialized);
+						} else if (response.unencodedBody) {
 							this.server.engine.sendJsonBody(event, response.unencodedBody);
-						else
+						} else {
 							event.response.end();
+						}
 
+					} else if (response.encoding === 'negotiate') {
+						this.sendNegotiatedBody(event, response.unencodedBody, route.options.produces, reportSource);
 					} else {
-						throw new Error(`Unknown encoding type ${response.encoding}`);
+						let serializer = this.server.serializers.get(response.encoding);
+						if (!serializer)
+							throw new Error(`No serializer is registered for media type '${response.encoding}'`);
+						
+						this.sendSerializedBody(event, response.unencodedBody, { mediaType: response.encoding, serializer });
 					}
 
 				} else {
@@ -606,7 +934,7 @@ export class RouteInstance {
 					// ;
 
 					event.response.statusCode = 200;
-					this.server.engine.sendJsonBody(event, result);
+					this.sendNegotiatedBody(event, result, route.options.produces, reportSource);
 				}
 			} catch (e) {
 				console.error(`Caught exception:`);
@@ -619,6 +947,234 @@ export class RouteInstance {
 		}
 	}
 
+	/**
+	 * Call the route method with the given parameters, wrapped by the applicable interceptors.
+	 */
+	private async invoke(instance, event : WebEvent, resolvedParams : any[]) {
+		let interceptors = [
+			...this.server.options.interceptors ?? [],
+			...this.interceptors ?? [],
+			...this.definition.options.interceptors ?? [],
+		].reverse();
+
+		return await event.context(async () => {
+			let action = (...params) => instance[this.definition.method](...params);
+			for (let interceptor of interceptors) {
+				let inner = action;
+				action = (...params) => this.server.tracer.trace(
+					`interceptor ${interceptor.name || 'anonymous'}`, 
+					() => interceptor(inner, ...params)
+				);
+			}
+
+			return await action(...resolvedParams);
+		});
+	}
+
+	/**
+	 * Handle a request for a WebSocket route (see `@Socket()`). Parameters which do not depend on the connection are 
+	 * resolved and validated first, so that invalid requests receive a normal HTTP error response. The request is 
+	 * then upgraded, the connection-scoped providers are resolved from a child injector and the method is called. 
+	 * The lifecycle of the connection is reported via the `connected` and `disconnected` reporting events.
+	 */
+	private async executeSocket(instance, event : WebEvent, reportSource : string) {
+		let resolvedParams : any[];
+
+		try {
+			if (!event.request['__upgradeHead']) {
+				event.response.setHeader('Upgrade', 'websocket');
+				throw new HttpError(426, {
+					error: 'upgrade-required',
+					message: `This route only accepts WebSocket connections`
+				});
+			}
+
+			resolvedParams = await Promise.all(this.parameters.map(x => x.connectionScoped ? undefined : x.resolve(event)));
+			this.validateParameters(resolvedParams);
+		} catch (e) {
+			event.metadata['uncaughtError'] = e;
+			this.server.handleError(e, event, this, reportSource);
+			this.server.reportRequest('finished', event, reportSource);
+			return;
+		}
+
+		let conduit = await event.context(() => this.server.startConduit());
+
+		event.metadata[CONNECTION_INJECTOR] = ReflectiveInjector.resolveAndCreate([
+			{ provide: WebConduit, useValue: conduit },
+			{ provide: WebEvent, useValue: event },
+			...(this.options.socket.providers ?? [])
+		], this.injector);
+
+		conduit.closed.subscribe(closeEvent => {
+			event.metadata['socketClose'] = { code: closeEvent.code, reason: closeEvent.reason };
+			this.server.reportRequest('disconnected', event, reportSource);
+		});
+
+		this.server.reportRequest('connected', event, reportSource);
+
+		try {
+			for (let param of this.parameters.filter(x => x.connectionScoped))
+				resolvedParams[param.index] = await param.resolve(event);
+
+			await this.invoke(instance, event, resolvedParams);
+		} catch (e) {
+			// The error will be logged when the disconnection is reported
+
+			event.metadata['uncaughtError'] = e;
+			conduit.socket.close(1011, 'Internal error');
+		}
+	}
+
+	/**
+	 * Send the given value using the serializer negotiated from the `Accept` header of the request. When `produces`
+	 * is provided, only those media types are considered. Responds with 406 Not Acceptable when none of the 
+	 * candidate media types are acceptable to the client.
+	 */
+	private sendNegotiatedBody(event : WebEvent, body : any, produces : string[], reportSource : string) {
+		let serializers = this.server.serializers;
+		let negotiated = serializers.negotiate(event.request.headers.accept, body, produces);
+		let candidates = produces ?? serializers.mediaTypes;
+
+		if (candidates.length > 1)
+			appendVary(event.response, 'Accept');
+
+		if (!negotiated) {
+			this.server.handleError(
+				new HttpError(406, {
+					error: 'not-acceptable',
+					message: `None of the acceptable media types can be produced. Available: ${candidates.join(', ')}`,
+					available: candidates
+				}),
+				event, 
+				this, 
+				reportSource
+			);
+			return;
+		}
+
+		this.sendSerializedBody(event, body, negotiated);
+	}
+
+	/**
+	 * Stream the items produced by the given AsyncIterable, Observable or Readable to the client. Errors raised 
+	 * before the response has started are handled as usual. Errors raised afterwards can no longer be reported to 
+	 * the client, so they are logged and the connection is terminated to indicate that the response is incomplete.
+	 */
+	private async sendStreamedBody(event : WebEvent, source : any, reportSource : string, defaultFormat? : StreamFormat) {
+		let options = this.definition.options;
+		let format = options.stream ?? defaultFormat ?? (source instanceof stream.Readable ? 'raw' : 'ndjson');
+
+		try {
+			await event.context(() => sendStream(event, source, {
+				format,
+				contentType: format === 'raw' ? options.produces?.[0] : undefined,
+				...options.eventStream
+			}));
+		} catch (e) {
+			event.metadata['uncaughtError'] = e;
+
+			if (!event.response.headersSent) {
+				this.server.handleError(e, event, this, reportSource);
+				return;
+			}
+
+			if (!this.server.options.silentErrors)
+				this.server.logger.error(`Error while streaming response for ${reportSource}: ${e.stack || e.message || e}`);
+			event.response.destroy();
+		}
+	}
+
+	private sendSerializedBody(event : WebEvent, body : any, negotiated : NegotiatedSerializer) {
+		let { mediaType, serializer } = negotiated;
+		let serialized : string | Uint8Array;
+		let serialize = () => serialized ??= serializer.serialize(body);
+
+		if (this.sendNotModified(event, body, serialize))
+			return;
+
+		// The default JSON serializer defers to the engine, which may have its own (optimized) JSON handling. When an 
+		// ETag was computed though, the exact body it was computed from must be sent.
+
+		if (serializer === JSON_SERIALIZER && serialized === undefined) {
+			this.server.engine.sendJsonBody(event, body);
+			return;
+		}
+
+		event.response.setHeader('Content-Type', serializer.contentType ?? mediaType);
+		event.response.end(serialize());
+	}
+
+	/**
+	 * For routes with the `conditional` option, set the `ETag` and `Last-Modified` headers of a successful GET/HEAD 
+	 * response and respond with `304 Not Modified` (without a body) if the client's cached copy is still current. 
+	 * Returns true if a 304 response was sent.
+	 * 
+	 * @param event 
+	 * @param value The value returned by the route
+	 * @param serialize Produces the body which will be sent, for computing the ETag
+	 */
+	private sendNotModified(event : WebEvent, value : any, serialize : () => string | Uint8Array) {
+		let options = resolveConditionalOptions(this.options.conditional);
+		let response = event.response;
+
+		if (!options || ![ 'GET', 'HEAD' ].includes(event.request.method) || response.statusCode !== 200)
+			return false;
+
+		if (options.etag !== false && !response.hasHeader('ETag'))
+			response.setHeader('ETag', computeETag(serialize() ?? '', options.etag === 'weak'));
+
+		if (options.lastModified && !response.hasHeader('Last-Modified')) {
+			let lastModified = options.lastModified(value);
+			if (lastModified)
+				response.setHeader('Last-Modified', lastModified.toUTCString());
+		}
+
+		let etag = <string>response.getHeader('ETag');
+		let lastModified = response.getHeader('Last-Modified');
+		let validators = {
+			etag,
+			lastModified: lastModified ? new Date(String(lastModified)) : undefined
+		};
+
+		if (!isNotModified(event.request, validators))
+			return false;
+
+		response.removeHeader('Content-Type');
+		response.removeHeader('Content-Length');
+		response.statusCode = 304;
+		response.end();
+
+		return true;
+	}
+
+	/**
+	 * For routes with the `conditional` option, evaluate the `If-Match`, `If-None-Match` and `If-Unmodified-Since` 
+	 * preconditions of unsafe requests against the current state of the resource (see `ConditionalOptions.current`).
+	 * Throws `412 Precondition Failed` when they are not satisfied, before the route method is called.
+	 */
+	private async checkPreconditions(event : WebEvent) {
+		let options = resolveConditionalOptions(this.options.conditional);
+		let headers = event.request.headers;
+
+		if (!options?.current || [ 'GET', 'HEAD' ].includes(event.request.method))
+			return;
+
+		if (!headers['if-match'] && !headers['if-none-match'] && !headers['if-unmodified-since'])
+			return;
+
+		let current = await event.context(async () => await options.current(event));
+
+		if (!preconditionsSatisfied(event.request, current)) {
+			let response = Response.preconditionFailed({
+				error: 'precondition-failed',
+				message: `The resource does not match the preconditions of the request`
+			});
+
+			throw new HttpError(response.status, response.unencodedBody);
+		}
+	}
+
 	/**
 	 * Installs this route into the given web server application. 
 	 * @param app 
@@ -629,28 +1185,70 @@ export class RouteInstance {
 		this.server.addRoute(
 			this.description,
 			this.definition.httpMethod, 
-			`${pathPrefix || ''}${this.definition.path}`,
-			async ev => {
-				// SECURITY-SENSITIVE: Prevent denial-of-service by exploiting a fault within Alterior's request handling.
-				// Return a 500 error to the client and log.
-
-				try {
-					return await this.execute(this.controllerInstance, ev);
-				} catch (e) {
-					this.server.logger.fatal(`Alterior failed to process request ${ev.request.method} ${ev.request.url}: ${e.stack || e.message || e}`);
-					this.server.logger.fatal(`The above error was caught using Alterior's last-chance error handler. This is always a bug. Please report this issue.`);
-					
-					ev.metadata['uncaughtError'] = e;
-					this.server.handleError(
-						e,
-						ev, 
-						this,
-						`Last-chance error handler (Alterior bug)`
-					);
-					this.server.reportRequest('finished', ev, `Last-chance error handler (Alterior bug)`);
-				}
-			},
+			this.mountedPath,
+			ev => this.handle(ev),
 			[]
 		);
 	}
+
+	/**
+	 * Handle a request for this route. Also used to answer HEAD requests for GET routes (see 
+	 * `WebServer.addImplicitRoutes()`).
+	 * @param ev 
+	 */
+	async handle(ev : WebEvent) {
+		// SECURITY-SENSITIVE: Prevent denial-of-service by exploiting a fault within Alterior's request handling.
+		// Return a 500 error to the client and log.
+
+		let span = this.startSpan(ev);
+
+		try {
+			return await this.server.tracer.run(span, () => this.execute(this.controllerInstance, ev));
+		} catch (e) {
+			this.server.logger.fatal(`Alterior failed to process request ${ev.request.method} ${ev.request.url}: ${e.stack || e.message || e}`);
+			this.server.logger.fatal(`The above error was caught using Alterior's last-chance error handler. This is always a bug. Please report this issue.`);
+			
+			ev.metadata['uncaughtError'] = e;
+			this.server.handleError(
+				e,
+				ev, 
+				this,
+				`Last-chance error handler (Alterior bug)`
+			);
+			this.server.reportRequest('finished', ev, `Last-chance error handler (Alterior bug)`);
+		} finally {
+			this.endSpan(ev, span);
+		}
+	}
+
+	/**
+	 * Start the server span for the given request, continuing the trace given by the `traceparent` header (if any).
+	 */
+	private startSpan(event : WebEvent) {
+		let headers = event.request.headers;
+
+		return event.span = this.server.tracer.startSpan(`${event.request.method} ${this.mountedPath}`, {
+			kind: 'server',
+			parent: parseTraceparent(<string>headers['traceparent'], <string>headers['tracestate']) ?? null,
+			attributes: {
+				'http.method': event.request.method,
+				'http.route': this.mountedPath,
+				'http.target': event.request.url
+			}
+		});
+	}
+
+	private endSpan(event : WebEvent, span : Span) {
+		let status = event.response.statusCode;
+		let error = event.metadata['uncaughtError'];
+
+		span.setAttribute('http.status_code', status);
+
+		if (error && !(error instanceof HttpError && error.statusCode < 500))
+			span.recordException(error);
+		else if (status >= 500)
+			span.setStatus('error');
+
+		span.end();
+	}
 }
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import { take } from 'rxjs/operators';
+import { HttpError } from '@alterior/common';
+import { Application } from '@alterior/runtime';
+import { WebService } from './service';
+import { Get } from './metadata';
+import { RpcConnection, RpcError, RpcMethod, RpcTimeoutError, RPC_ERROR_CODES } from './rpc';
+
+suite(describe => {
+	describe('RpcConnection', it => {
+		class CalculatorService {
+			@Get('/rpc')
+			async rpc() {
+				await RpcConnection.accept(this);
+			}
+
+			@RpcMethod()
+			add(a: number, b: number) {
+				return a + b;
+			}
+
+			@RpcMethod()
+			async fail(): Promise<void> {
+				throw new HttpError(409, { message: 'Conflict!' });
+			}
+
+			@RpcMethod()
+			watch(topic: string) {
+				let connection = RpcConnection.current;
+				setTimeout(() => connection.notify('news', { topic }), 10);
+			}
+
+			@RpcMethod({ timeout: 50 })
+			slow() {
+				return new Promise<void>(resolve => setTimeout(resolve, 500));
+			}
+
+			notExposed() {
+				return 'secret';
+			}
+		}
+
+		// Each test uses its own port, as stopping the application does not release the port immediately
+
+		let nextPort = 32566;
+
+		async function withClient(callback: (connection: RpcConnection) => Promise<void>) {
+			let port = nextPort++;
+
+			@WebService({ server: { port, silent: true } })
+			class TestService extends CalculatorService {}
+
+			let app = await Application.bootstrap(TestService, { silent: true });
+			let connection = RpcConnection.connect(`ws://localhost:${port}/rpc`);
+
+			try {
+				await callback(connection);
+			} finally {
+				connection.close();
+				app.stop();
+			}
+		}
+
+		it('calls methods via a proxy', async () => {
+			await withClient(async connection => {
+				let client = connection.proxy(CalculatorService);
+				expect(await client.add(1, 2)).to.equal(3);
+				expect(await Promise.all([ client.add(1, 1), client.add(2, 2) ])).to.eql([2, 4]);
+				expect((<any>client).notExposed).to.be.undefined;
+			});
+		});
+
+		it('rejects with the error thrown by the method', async () => {
+			await withClient(async connection => {
+				let error: RpcError;
+				try {
+					await connection.proxy(CalculatorService).fail();
+				} catch (e) {
+					error = e;
+				}
+
+				expect(error).to.be.an.instanceOf(RpcError);
+				expect(error.code).to.equal(409);
+				expect(error.message).to.equal('Conflict!');
+				expect(error.data).to.eql({ message: 'Conflict!' });
+			});
+		});
+
+		it('rejects calls to methods which are not exposed', async () => {
+			await withClient(async connection => {
+				let error: RpcError;
+				try {
+					await connection.call('notExposed');
+				} catch (e) {
+					error = e;
+				}
+
+				expect(error.code).to.equal(RPC_ERROR_CODES.methodNotFound);
+
+				for (let method of [ 'toString', 'constructor', 'hasOwnProperty', '__defineGetter__' ]) {
+					error = undefined;
+					try {
+						await connection.call(method);
+					} catch (e) {
+						error = e;
+					}
+
+					expect(error?.code, method).to.equal(RPC_ERROR_CODES.methodNotFound);
+				}
+			});
+		});
+
+		it('receives notifications pushed by the server', async () => {
+			await withClient(async connection => {
+				let news = connection.on('news').pipe(take(1)).toPromise();
+				await connection.proxy(CalculatorService).watch('weather');
+				expect(await news).to.eql({ topic: 'weather' });
+			});
+		});
+
+		it('times out calls which take too long', async () => {
+			await withClient(async connection => {
+				let error: RpcError;
+				try {
+					await connection.proxy(CalculatorService).slow();
+				} catch (e) {
+					error = e;
+				}
+
+				expect(error).to.be.an.instanceOf(RpcTimeoutError);
+				expect(error.code).to.equal(RPC_ERROR_CODES.timeout);
+			});
+		});
+	});
+});
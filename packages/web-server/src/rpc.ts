@@ -0,0 +1,390 @@
+import { Annotation, Annotations, MetadataName } from "@alterior/annotations";
+import { HttpError } from "@alterior/common";
+import { Constructor } from "@alterior/runtime";
+import { Observable, Subject } from "rxjs";
+import { filter, map } from "rxjs/operators";
+import { WebConduit } from "./web-conduit";
+import { WebServer } from "./web-server";
+
+export interface RpcMethodOptions {
+	/**
+	 * How long (in milliseconds) clients should wait for a response before failing the call. Overrides the
+	 * `timeout` of the connection.
+	 */
+	timeout?: number;
+}
+
+@MetadataName('@alterior/web-server:RpcMethod')
+export class RpcMethodAnnotation extends Annotation {
+	constructor(options?: RpcMethodOptions) {
+		super(options);
+	}
+
+	timeout?: number;
+}
+
+/**
+ * Mark a method as callable by the other side of an `RpcConnection` which serves an instance of the class.
+ */
+export function RpcMethod(options?: RpcMethodOptions) {
+	return RpcMethodAnnotation.decorator({
+		validTargets: ['method'],
+		allowMultiple: false
+	})(options ?? {});
+}
+
+/**
+ * Retrieve the methods of the given class which are callable via RPC (see `@RpcMethod()`), including those
+ * inherited from superclasses.
+ */
+export function getRpcMethods(type: Function): Record<string, RpcMethodOptions> {
+	let map = Annotations.getMapForClassProperties(type.prototype);
+	let methods: Record<string, RpcMethodOptions> = Object.create(null);
+
+	for (let key of Object.keys(map)) {
+		let annotation = RpcMethodAnnotation.filter(map[key])[0];
+		if (annotation)
+			methods[key] = { timeout: annotation.timeout };
+	}
+
+	return methods;
+}
+
+/**
+ * A JSON-RPC 2.0 request. Requests without an `id` are notifications, which receive no response.
+ */
+export interface RpcRequest {
+	jsonrpc: '2.0';
+	id?: number | string;
+	method: string;
+	params?: any[];
+}
+
+/**
+ * A JSON-RPC 2.0 response.
+ */
+export interface RpcResponse {
+	jsonrpc: '2.0';
+	id: number | string;
+	result?: any;
+	error?: { code: number, message: string, data?: any };
+}
+
+/**
+ * A notification received from the other side of an `RpcConnection`.
+ */
+export interface RpcNotification<T = any> {
+	event: string;
+	data?: T;
+}
+
+/**
+ * Standard JSON-RPC 2.0 error codes, along with the codes used by Alterior.
+ */
+export const RPC_ERROR_CODES = {
+	parseError: -32700,
+	invalidRequest: -32600,
+	methodNotFound: -32601,
+	internalError: -32603,
+	timeout: -32000,
+	connectionClosed: -32001
+};
+
+/**
+ * Thrown when an RPC call fails. When the remote method throws an `HttpError`, `code` is the status code and `data`
+ * is the body of the error.
+ */
+export class RpcError extends Error {
+	constructor(message: string, readonly code: number, readonly data?: any) {
+		super(message);
+	}
+}
+
+/**
+ * Thrown when no response to an RPC call is received in time.
+ */
+export class RpcTimeoutError extends RpcError {
+}
+
+export type RpcClient<T> = {
+	[P in keyof T as T[P] extends ((...args) => any) ? P : never]:
+		T[P] extends ((...args) => any)
+			? (...args: Parameters<T[P]>) => (
+				ReturnType<T[P]> extends Promise<any>
+					? ReturnType<T[P]>
+					: Promise<ReturnType<T[P]>>
+			)
+			: never
+	;
+};
+
+export interface RpcConnectionOptions {
+	/**
+	 * How long (in milliseconds) to wait for responses to calls before failing them with `RpcTimeoutError`.
+	 * Defaults to 30 seconds.
+	 */
+	timeout?: number;
+}
+
+interface PendingCall {
+	resolve: (result: any) => void;
+	reject: (error: any) => void;
+	timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Provides JSON-RPC 2.0 over a `WebConduit`. Either side of the connection can serve an object whose `@RpcMethod()`
+ * methods the other side can call, call methods served by the other side, and push notifications to the other side.
+ *
+ * On the server, use `RpcConnection.accept()` while handling a request to upgrade it. On the client, use
+ * `RpcConnection.connect()` and `proxy()` to call methods in a type-safe way:
+ *
+ * ```typescript
+ * let connection = RpcConnection.connect('wss://example.com/rpc');
+ * let chat = connection.proxy(ChatController);
+ * await chat.send('hello');
+ * ```
+ */
+export class RpcConnection {
+	constructor(
+		readonly conduit: WebConduit,
+		readonly options: RpcConnectionOptions = {}
+	) {
+		conduit.message.subscribe(message => this.receive(message.data));
+		conduit.open.subscribe(() => this.flush());
+		conduit.closed.subscribe(() => this.handleClose());
+	}
+
+	private _target: any;
+	private _methods: Record<string, RpcMethodOptions> = Object.create(null);
+	private _pending = new Map<number | string, PendingCall>();
+	private _queue: string[] = [];
+	private _nextId = 1;
+	private _notifications = new Subject<RpcNotification>();
+
+	/**
+	 * Upgrade the current request to a WebSocket and serve the given object over it. Can only be called while
+	 * handling a request.
+	 *
+	 * @param target The object whose `@RpcMethod()` methods should be callable by the client
+	 * @param options
+	 */
+	static async accept(target: any, options?: RpcConnectionOptions) {
+		return new RpcConnection(await WebServer.startConduit(), options).serve(target);
+	}
+
+	/**
+	 * Connect to the given WebSocket URL. Uses the global `WebSocket` when available (ie in the browser), and the
+	 * `ws` package otherwise.
+	 *
+	 * @param url
+	 * @param options
+	 */
+	static connect(url: string, options?: RpcConnectionOptions) {
+		let WebSocketImpl: typeof WebSocket = typeof WebSocket !== 'undefined' ? WebSocket : require('ws');
+		return new RpcConnection(new WebConduit(new WebSocketImpl(url)), options);
+	}
+
+	/**
+	 * The connection which is calling the current RPC method, if any. Use this within an `@RpcMethod()` method to
+	 * push notifications to the caller.
+	 */
+	static get current(): RpcConnection {
+		return Zone.current.get('@alterior/web-server:RpcConnection.current');
+	}
+
+	/**
+	 * Notifications received from the other side of the connection.
+	 */
+	get notifications(): Observable<RpcNotification> {
+		return this._notifications;
+	}
+
+	/**
+	 * Observe the data of notifications with the given event name.
+	 * @param event
+	 */
+	on<T = any>(event: string): Observable<T> {
+		return this._notifications.pipe(filter(x => x.event === event), map(x => x.data));
+	}
+
+	/**
+	 * Allow the other side of the connection to call the `@RpcMethod()` methods of the given object.
+	 * @param target
+	 */
+	serve(target: any) {
+		this._target = target;
+		this._methods = getRpcMethods(target.constructor);
+		return this;
+	}
+
+	/**
+	 * Call a method served by the other side of the connection.
+	 *
+	 * @param method The name of the method
+	 * @param params The parameters to pass
+	 * @param options
+	 */
+	call<T = any>(method: string, params: any[] = [], options?: RpcMethodOptions): Promise<T> {
+		let id = this._nextId++;
+		let timeout = options?.timeout ?? this.options.timeout ?? 30_000;
+
+		return new Promise<T>((resolve, reject) => {
+			let timer = setTimeout(() => {
+				this._pending.delete(id);
+				reject(new RpcTimeoutError(`Call to ${method}() timed out after ${timeout}ms`, RPC_ERROR_CODES.timeout));
+			}, timeout);
+
+			this._pending.set(id, { resolve, reject, timer });
+			this.send(<RpcRequest>{ jsonrpc: '2.0', id, method, params });
+		});
+	}
+
+	/**
+	 * Push a notification to the other side of the connection.
+	 *
+	 * @param event The name of the event
+	 * @param data The data to send
+	 */
+	notify(event: string, data?: any) {
+		this.send(<RpcRequest>{ jsonrpc: '2.0', method: event, params: data === undefined ? [] : [ data ] });
+	}
+
+	/**
+	 * Produce a client for the `@RpcMethod()` methods of the given class, which is being served by the other side of
+	 * the connection.
+	 *
+	 * @param klass
+	 */
+	proxy<T>(klass: Constructor<T>): RpcClient<T> {
+		let methods = getRpcMethods(klass);
+
+		return <RpcClient<T>>new Proxy({}, {
+			get: (target, prop) => {
+				if (typeof prop !== 'string' || !methods[prop])
+					return undefined;
+
+				return (...params: any[]) => this.call(prop, params, methods[prop]);
+			}
+		});
+	}
+
+	/**
+	 * Close the connection. Pending calls fail with an `RpcError`.
+	 */
+	close() {
+		this.conduit.socket.close();
+	}
+
+	private send(message: RpcRequest | RpcResponse) {
+		let text = JSON.stringify(message);
+
+		if (this.conduit.socket.readyState === 0) {
+			this._queue.push(text);
+			return;
+		}
+
+		this.conduit.socket.send(text);
+	}
+
+	private flush() {
+		for (let text of this._queue.splice(0))
+			this.conduit.socket.send(text);
+	}
+
+	private handleClose() {
+		for (let call of this._pending.values()) {
+			clearTimeout(call.timer);
+			call.reject(new RpcError(`Connection closed`, RPC_ERROR_CODES.connectionClosed));
+		}
+
+		this._pending.clear();
+		this._notifications.complete();
+	}
+
+	private receive(text: any) {
+		let message: any;
+
+		try {
+			message = JSON.parse(String(text));
+		} catch (e) {
+			this.send({ jsonrpc: '2.0', id: null, error: { code: RPC_ERROR_CODES.parseError, message: `Parse error` } });
+			return;
+		}
+
+		if (message?.jsonrpc !== '2.0')
+			return;
+
+		if ('result' in message || 'error' in message) {
+			let call = this._pending.get(message.id);
+			if (!call)
+				return;
+
+			this._pending.delete(message.id);
+			clearTimeout(call.timer);
+
+			if (message.error)
+				call.reject(new RpcError(message.error.message, message.error.code, message.error.data));
+			else
+				call.resolve(message.result);
+
+			return;
+		}
+
+		if (typeof message.method === 'string')
+			this.handleRequest(message);
+	}
+
+	private async handleRequest(request: RpcRequest) {
+		let isNotification = request.id === undefined || request.id === null;
+		let params = Array.isArray(request.params) ? request.params : (request.params === undefined ? [] : [ request.params ]);
+
+		// Only methods marked with @RpcMethod() can be called, never inherited members such as `toString`
+
+		if (typeof request.method !== 'string' || !Object.prototype.hasOwnProperty.call(this._methods, request.method)) {
+			if (isNotification)
+				this._notifications.next({ event: request.method, data: params[0] });
+			else
+				this.send({
+					jsonrpc: '2.0',
+					id: request.id,
+					error: { code: RPC_ERROR_CODES.methodNotFound, message: `Method not found: ${request.method}` }
+				});
+			return;
+		}
+
+		let response: RpcResponse;
+
+		try {
+			let zone = Zone.current.fork({
+				name: `RpcConnectionZone`,
+				properties: {
+					'@alterior/web-server:RpcConnection.current': this
+				}
+			});
+
+			let result = await zone.run(() => this._target[request.method](...params));
+			response = { jsonrpc: '2.0', id: request.id, result: result ?? null };
+		} catch (e) {
+			response = { jsonrpc: '2.0', id: request.id, error: this.describeError(e) };
+		}
+
+		if (!isNotification)
+			this.send(response);
+	}
+
+	private describeError(error: any): RpcResponse['error'] {
+		if (error instanceof HttpError) {
+			return {
+				code: error.statusCode,
+				message: error.body?.message ?? error.message ?? `HTTP ${error.statusCode}`,
+				data: error.body
+			};
+		}
+
+		if (error instanceof RpcError)
+			return { code: error.code, message: error.message, data: error.data };
+
+		return { code: RPC_ERROR_CODES.internalError, message: error?.message ?? 'Internal error' };
+	}
+}
@@ -0,0 +1,171 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import { CSV_SERIALIZER, MSGPACK_SERIALIZER, NDJSON_SERIALIZER, ResponseSerializer, SerializerRegistry, selectMediaType } from './serializers';
+import { WebService } from './service';
+import { Get } from './metadata';
+import { Response } from './response';
+import { teststrap } from './teststrap';
+
+suite(describe => {
+	describe('selectMediaType()', it => {
+		it('prefers the first available media type when anything is accepted', () => {
+			expect(selectMediaType(undefined, ['application/json', 'text/csv'])).to.equal('application/json');
+			expect(selectMediaType('*/*', ['application/json', 'text/csv'])).to.equal('application/json');
+		});
+
+		it('respects quality values', () => {
+			expect(selectMediaType('application/json;q=0.5, text/csv', ['application/json', 'text/csv'])).to.equal('text/csv');
+			expect(selectMediaType('text/*;q=0.9, */*;q=0.1', ['application/json', 'text/csv'])).to.equal('text/csv');
+		});
+
+		it('uses the most specific matching range', () => {
+			expect(selectMediaType('text/*, text/csv;q=0', ['text/csv', 'text/plain'])).to.equal('text/plain');
+		});
+
+		it('returns undefined when nothing is acceptable', () => {
+			expect(selectMediaType('application/xml', ['application/json', 'text/csv'])).to.be.undefined;
+		});
+	});
+
+	describe('SerializerRegistry', it => {
+		it('skips serializers which cannot represent the value', () => {
+			let registry = new SerializerRegistry();
+			expect(registry.negotiate('text/csv, text/plain;q=0.5', 'hello').mediaType).to.equal('text/plain');
+			expect(registry.negotiate('text/plain', { a: 1 })).to.be.undefined;
+		});
+
+		it('replaces default serializers with the same media type', () => {
+			let csv: ResponseSerializer = { mediaType: 'text/csv', serialize: () => 'custom' };
+			let registry = new SerializerRegistry([ csv ]);
+			expect(registry.get('text/csv')).to.equal(csv);
+		});
+	});
+
+	describe('CSV_SERIALIZER', it => {
+		it('produces a header row from the keys of each object', () => {
+			expect(CSV_SERIALIZER.serialize([
+				{ name: 'Alice', note: 'says "hi", often' },
+				{ name: 'Bob', age: 40 }
+			])).to.equal(
+				'name,note,age\r\n'
+				+ 'Alice,"says ""hi"", often",\r\n'
+				+ 'Bob,,40\r\n'
+			);
+		});
+
+		it('produces rows without a header for arrays of arrays', () => {
+			expect(CSV_SERIALIZER.serialize([[1, 'a'], [2, 'b\nc']])).to.equal('1,a\r\n2,"b\nc"\r\n');
+		});
+	});
+
+	describe('NDJSON_SERIALIZER', it => {
+		it('produces one line per item', () => {
+			expect(NDJSON_SERIALIZER.serialize([{ a: 1 }, 2, null])).to.equal('{"a":1}\n2\nnull\n');
+		});
+	});
+
+	describe('MSGPACK_SERIALIZER', it => {
+		it('encodes values', () => {
+			let encoded = <Buffer>MSGPACK_SERIALIZER.serialize({ a: 1, b: [true, null, -1], c: 'hi', d: 1.5, e: 300 });
+			expect(encoded.toString('hex')).to.equal(
+				'85'
+				+ 'a161' + '01'
+				+ 'a162' + '93c3c0ff'
+				+ 'a163' + 'a26869'
+				+ 'a164' + 'cb3ff8000000000000'
+				+ 'a165' + 'cd012c'
+			);
+		});
+	});
+
+	describe('Content negotiation', it => {
+		@WebService()
+		class ReportService {
+			@Get('/report')
+			report() {
+				return [ { id: 1, name: 'Alice' }, { id: 2, name: 'Bob' } ];
+			}
+
+			@Get('/limited', { produces: [ 'text/csv', 'application/json' ] })
+			limited() {
+				return [ { id: 1 } ];
+			}
+
+			@Get('/explicit')
+			explicit() {
+				return Response.ok([ { id: 1 } ]).encodeAs('text/csv');
+			}
+		}
+
+		it('responds with JSON by default', async () => {
+			await teststrap(ReportService)
+				.get('/report')
+				.expect('Content-Type', /^application\/json/)
+				.expect(200, [ { id: 1, name: 'Alice' }, { id: 2, name: 'Bob' } ]);
+		});
+
+		it('responds with the media type requested via Accept', async () => {
+			let response = await teststrap(ReportService)
+				.get('/report')
+				.set('Accept', 'text/csv')
+				.expect('Content-Type', /^text\/csv/)
+				.expect('Vary', 'Accept')
+				.expect(200);
+
+			expect(response.text).to.equal('id,name\r\n1,Alice\r\n2,Bob\r\n');
+
+			await teststrap(ReportService)
+				.get('/report')
+				.set('Accept', 'application/x-ndjson')
+				.expect('Content-Type', /^application\/x-ndjson/)
+				.expect(200, '{"id":1,"name":"Alice"}\n{"id":2,"name":"Bob"}\n');
+		});
+
+		it('prefers the order given by produces', async () => {
+			await teststrap(ReportService)
+				.get('/limited')
+				.expect('Content-Type', /^text\/csv/)
+				.expect(200, 'id\r\n1\r\n');
+		});
+
+		it('responds with 406 when no acceptable media type can be produced', async () => {
+			let response = await teststrap(ReportService)
+				.get('/limited')
+				.set('Accept', 'application/msgpack')
+				.expect(406);
+
+			expect(response.body.error).to.equal('not-acceptable');
+			expect(response.body.available).to.eql([ 'text/csv', 'application/json' ]);
+		});
+
+		it('uses the media type given to Response.encodeAs()', async () => {
+			await teststrap(ReportService)
+				.get('/explicit')
+				.set('Accept', 'application/json')
+				.expect('Content-Type', /^text\/csv/)
+				.expect(200, 'id\r\n1\r\n');
+		});
+
+		it('uses serializers provided via server options', async () => {
+			@WebService({
+				server: {
+					serializers: [
+						{ mediaType: 'application/xml', serialize: value => `<value>${value}</value>` }
+					]
+				}
+			})
+			class FakeApp {
+				@Get('/value')
+				value() {
+					return 123;
+				}
+			}
+
+			await teststrap(FakeApp)
+				.get('/value')
+				.set('Accept', 'application/xml')
+				.expect('Content-Type', /^application\/xml/)
+				.expect(200, '<value>123</value>');
+		});
+	});
+});
@@ -0,0 +1,392 @@
+/**
+ * Converts values returned from route methods into response bodies of a specific media type.
+ */
+export interface ResponseSerializer {
+	/**
+	 * The media type produced by this serializer, ie `text/csv`.
+	 */
+	mediaType : string;
+
+	/**
+	 * Additional media types which should be handled by this serializer, ie `application/x-msgpack`.
+	 */
+	aliases? : string[];
+
+	/**
+	 * The value of the `Content-Type` header to send. Defaults to the negotiated media type.
+	 */
+	contentType? : string;
+
+	/**
+	 * Determine whether this serializer can represent the given value. When not provided, all values are
+	 * considered serializable. Serializers which cannot represent the value are skipped during negotiation.
+	 */
+	canSerialize?(value : any): boolean;
+
+	/**
+	 * Produce the response body for the given value.
+	 */
+	serialize(value : any): string | Buffer;
+}
+
+/**
+ * The result of content negotiation.
+ */
+export interface NegotiatedSerializer {
+	mediaType : string;
+	serializer : ResponseSerializer;
+}
+
+/**
+ * A media range found within an `Accept` header.
+ */
+export interface AcceptedMediaRange {
+	type : string;
+	subtype : string;
+	q : number;
+}
+
+export const JSON_SERIALIZER : ResponseSerializer = {
+	mediaType: 'application/json',
+	contentType: 'application/json; charset=utf-8',
+	serialize: value => JSON.stringify(value)
+};
+
+export const NDJSON_SERIALIZER : ResponseSerializer = {
+	mediaType: 'application/x-ndjson',
+	contentType: 'application/x-ndjson; charset=utf-8',
+	serialize: value => (Array.isArray(value) ? value : [ value ]).map(x => `${JSON.stringify(x ?? null)}\n`).join('')
+};
+
+export const CSV_SERIALIZER : ResponseSerializer = {
+	mediaType: 'text/csv',
+	contentType: 'text/csv; charset=utf-8',
+	canSerialize: value => value !== null && typeof value === 'object' && !Buffer.isBuffer(value),
+	serialize: value => formatCsv(value)
+};
+
+export const MSGPACK_SERIALIZER : ResponseSerializer = {
+	mediaType: 'application/msgpack',
+	aliases: [ 'application/x-msgpack', 'application/vnd.msgpack' ],
+	serialize: value => encodeMessagePack(value)
+};
+
+export const TEXT_SERIALIZER : ResponseSerializer = {
+	mediaType: 'text/plain',
+	contentType: 'text/plain; charset=utf-8',
+	canSerialize: value => [ 'string', 'number', 'boolean', 'bigint' ].includes(typeof value),
+	serialize: value => String(value)
+};
+
+/**
+ * The serializers available to every web server. JSON is preferred when the client accepts any media type.
+ */
+export const DEFAULT_SERIALIZERS : ResponseSerializer[] = [
+	JSON_SERIALIZER,
+	NDJSON_SERIALIZER,
+	CSV_SERIALIZER,
+	MSGPACK_SERIALIZER,
+	TEXT_SERIALIZER
+];
+
+/**
+ * Holds the set of response serializers available to a web server, keyed by media type, and performs content
+ * negotiation against them.
+ */
+export class SerializerRegistry {
+	constructor(serializers : ResponseSerializer[] = []) {
+		for (let serializer of [ ...DEFAULT_SERIALIZERS, ...serializers ])
+			this.register(serializer);
+	}
+
+	private _serializers = new Map<string, ResponseSerializer>();
+
+	/**
+	 * Register a serializer. Any serializer previously registered for the same media types is replaced.
+	 * @param serializer
+	 */
+	register(serializer : ResponseSerializer) {
+		for (let mediaType of [ serializer.mediaType, ...(serializer.aliases ?? []) ])
+			this._serializers.set(mediaType.toLowerCase(), serializer);
+	}
+
+	/**
+	 * Retrieve the serializer registered for the given media type, if any.
+	 * @param mediaType
+	 */
+	get(mediaType : string): ResponseSerializer {
+		return this._serializers.get(mediaType.toLowerCase());
+	}
+
+	/**
+	 * The media types which have a registered serializer, in order of preference.
+	 */
+	get mediaTypes() {
+		return Array.from(this._serializers.keys());
+	}
+
+	/**
+	 * Select the serializer to use for the given value based on the given `Accept` header. When `produces` is
+	 * provided, only those media types are considered (in the given order of preference). Returns undefined when
+	 * none of the acceptable media types can be produced.
+	 *
+	 * @param accept The value of the `Accept` header
+	 * @param value The value which will be serialized
+	 * @param produces The media types which may be produced
+	 */
+	negotiate(accept : string | string[], value : any, produces? : string[]): NegotiatedSerializer {
+		let candidates = (produces ?? this.mediaTypes)
+			.filter(mediaType => {
+				let serializer = this.get(mediaType);
+				return serializer && (!serializer.canSerialize || serializer.canSerialize(value));
+			});
+
+		let mediaType = selectMediaType(accept, candidates);
+		if (!mediaType)
+			return undefined;
+
+		return { mediaType, serializer: this.get(mediaType) };
+	}
+}
+
+/**
+ * Parse the given `Accept` header into its media ranges, ordered by preference (quality, then specificity).
+ * Ranges with a quality of zero are included so that they can exclude otherwise matching media types.
+ *
+ * @param header
+ */
+export function parseAccept(header : string | string[]): AcceptedMediaRange[] {
+	if (Array.isArray(header))
+		header = header.join(',');
+
+	if (!header)
+		return [ { type: '*', subtype: '*', q: 1 } ];
+
+	let ranges : AcceptedMediaRange[] = [];
+
+	for (let part of header.split(',')) {
+		let [ range, ...params ] = part.split(';').map(x => x.trim());
+		let [ type, subtype ] = range.toLowerCase().split('/');
+
+		if (!type || !subtype)
+			continue;
+
+		let q = 1;
+		for (let param of params) {
+			let [ key, value ] = param.split('=').map(x => x.trim());
+			if (key === 'q')
+				q = Math.min(1, Math.max(0, Number(value) || 0));
+		}
+
+		ranges.push({ type, subtype, q });
+	}
+
+	return ranges.sort((a, b) => b.q - a.q || specificity(b) - specificity(a));
+}
+
+function specificity(range : AcceptedMediaRange) {
+	return (range.type === '*' ? 0 : 1) + (range.subtype === '*' ? 0 : 1);
+}
+
+/**
+ * Select the most acceptable of the given media types according to the given `Accept` header. When several media
+ * types are equally acceptable, the earliest one is selected. Returns undefined when none are acceptable.
+ *
+ * @param accept The value of the `Accept` header
+ * @param mediaTypes The media types which are available, in order of preference
+ */
+export function selectMediaType(accept : string | string[], mediaTypes : string[]): string {
+	let ranges = parseAccept(accept);
+	let selected : string;
+	let selectedQuality = 0;
+
+	for (let mediaType of mediaTypes) {
+		let [ type, subtype ] = mediaType.toLowerCase().split('/');
+
+		// The most specific matching range determines the quality of the media type
+
+		let match = ranges
+			.filter(x => (x.type === '*' || x.type === type) && (x.subtype === '*' || x.subtype === subtype))
+			.sort((a, b) => specificity(b) - specificity(a))[0];
+
+		if (match && match.q > selectedQuality) {
+			selected = mediaType;
+			selectedQuality = match.q;
+		}
+	}
+
+	return selected;
+}
+
+function formatCsvCell(value : any) {
+	if (value === undefined || value === null)
+		return '';
+
+	if (value instanceof Date)
+		value = value.toISOString();
+	else if (typeof value === 'object')
+		value = JSON.stringify(value);
+
+	let text = String(value);
+
+	if (/[",\r\n]/.test(text) || text.trim() !== text)
+		return `"${text.replace(/"/g, '""')}"`;
+
+	return text;
+}
+
+/**
+ * Format the given value as RFC 4180 CSV. Arrays of objects produce a header row (the union of the keys of each
+ * object) followed by one row per object. Arrays of arrays produce one row per array with no header row.
+ *
+ * @param value
+ */
+function formatCsv(value : any) {
+	let rows : any[] = Array.isArray(value) ? value : [ value ];
+	let lines : string[];
+
+	if (rows.every(row => Array.isArray(row))) {
+		lines = rows.map(row => row.map(formatCsvCell).join(','));
+	} else {
+		let columns : string[] = [];
+		for (let row of rows) {
+			if (row && typeof row === 'object') {
+				for (let key of Object.keys(row)) {
+					if (!columns.includes(key))
+						columns.push(key);
+				}
+			}
+		}
+
+		lines = [
+			columns.map(formatCsvCell).join(','),
+			...rows.map(row => row && typeof row === 'object'
+				? columns.map(column => formatCsvCell(row[column])).join(',')
+				: formatCsvCell(row)
+			)
+		];
+	}
+
+	return lines.map(line => `${line}\r\n`).join('');
+}
+
+/**
+ * Encode the given value as MessagePack. Values are converted the same way as with JSON: objects with `toJSON()`
+ * (such as dates) are encoded as the result of that method, and undefined properties are omitted. Buffers are
+ * encoded as binary.
+ *
+ * @param value
+ */
+function encodeMessagePack(value : any): Buffer {
+	let chunks : Buffer[] = [];
+
+	let header = (byte : number, length : number, size : 0 | 1 | 2 | 4) => {
+		let buffer = Buffer.alloc(1 + size);
+		buffer[0] = byte;
+		if (size === 1)
+			buffer.writeUInt8(length, 1);
+		else if (size === 2)
+			buffer.writeUInt16BE(length, 1);
+		else if (size === 4)
+			buffer.writeUInt32BE(length, 1);
+		chunks.push(buffer);
+	};
+
+	let encode = (value : any) => {
+		if (value && typeof value.toJSON === 'function')
+			value = value.toJSON();
+
+		if (value === undefined || value === null) {
+			header(0xc0, 0, 0);
+		} else if (typeof value === 'boolean') {
+			header(value ? 0xc3 : 0xc2, 0, 0);
+		} else if (typeof value === 'number') {
+			if (Number.isInteger(value) && value >= 0 && value <= 0xffffffff) {
+				if (value < 0x80)
+					header(value, 0, 0);
+				else if (value < 0x100)
+					header(0xcc, value, 1);
+				else if (value < 0x10000)
+					header(0xcd, value, 2);
+				else
+					header(0xce, value, 4);
+			} else if (Number.isInteger(value) && value < 0 && value >= -0x80000000) {
+				let buffer : Buffer;
+				if (value >= -32) {
+					buffer = Buffer.alloc(1);
+					buffer.writeInt8(value, 0);
+				} else if (value >= -0x80) {
+					buffer = Buffer.from([ 0xd0, 0 ]);
+					buffer.writeInt8(value, 1);
+				} else if (value >= -0x8000) {
+					buffer = Buffer.from([ 0xd1, 0, 0 ]);
+					buffer.writeInt16BE(value, 1);
+				} else {
+					buffer = Buffer.from([ 0xd2, 0, 0, 0, 0 ]);
+					buffer.writeInt32BE(value, 1);
+				}
+				chunks.push(buffer);
+			} else {
+				let buffer = Buffer.alloc(9);
+				buffer[0] = 0xcb;
+				buffer.writeDoubleBE(value, 1);
+				chunks.push(buffer);
+			}
+		} else if (typeof value === 'bigint') {
+			let buffer = Buffer.alloc(9);
+			if (value >= BigInt(0)) {
+				buffer[0] = 0xcf;
+				buffer.writeBigUInt64BE(value, 1);
+			} else {
+				buffer[0] = 0xd3;
+				buffer.writeBigInt64BE(value, 1);
+			}
+			chunks.push(buffer);
+		} else if (typeof value === 'string') {
+			let data = Buffer.from(value, 'utf8');
+			if (data.length < 32)
+				header(0xa0 | data.length, 0, 0);
+			else if (data.length < 0x100)
+				header(0xd9, data.length, 1);
+			else if (data.length < 0x10000)
+				header(0xda, data.length, 2);
+			else
+				header(0xdb, data.length, 4);
+			chunks.push(data);
+		} else if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+			let data = Buffer.from(value);
+			if (data.length < 0x100)
+				header(0xc4, data.length, 1);
+			else if (data.length < 0x10000)
+				header(0xc5, data.length, 2);
+			else
+				header(0xc6, data.length, 4);
+			chunks.push(data);
+		} else if (Array.isArray(value)) {
+			if (value.length < 16)
+				header(0x90 | value.length, 0, 0);
+			else if (value.length < 0x10000)
+				header(0xdc, value.length, 2);
+			else
+				header(0xdd, value.length, 4);
+			value.forEach(item => encode(item));
+		} else if (typeof value === 'object') {
+			let keys = Object.keys(value).filter(key => value[key] !== undefined && typeof value[key] !== 'function');
+			if (keys.length < 16)
+				header(0x80 | keys.length, 0, 0);
+			else if (keys.length < 0x10000)
+				header(0xde, keys.length, 2);
+			else
+				header(0xdf, keys.length, 4);
+			for (let key of keys) {
+				encode(key);
+				encode(value[key]);
+			}
+		} else {
+			header(0xc0, 0, 0);
+		}
+	};
+
+	encode(value);
+	return Buffer.concat(chunks);
+}
@@ -1,7 +1,10 @@
 import { describe, it } from "razmin";
 import { teststrap } from "./teststrap";
-import { WebService, WebServiceAnnotation } from "./service";
+import { RestClientError, WebService, WebServiceAnnotation } from "./service";
 import { Mount, Get } from "./metadata";
+import { Cookie, Header, PathParam } from "./input";
+import { HttpError } from "@alterior/common";
+import { Application } from "@alterior/runtime";
 import { OpenApiController } from "./openapi";
 import { expect } from "chai";
 import { AppOptionsAnnotation } from "@alterior/runtime";
@@ -71,4 +74,82 @@ describe("WebServiceDecorator", () => {
            
         expect(instances.length).to.equal(1, 'Only one instance of TestService should have been created');
     });
-});
\ No newline at end of file
+
+    it('clientFor() should map declared error responses to typed errors', async () => {
+        class NotFoundError extends RestClientError {}
+
+        @WebService({
+            server: { port: 32560, silent: true }
+        })
+        class TestService {
+            @Get('/things/:id', {
+                responses: [
+                    { status: 200, body: Object },
+                    { status: 404, description: 'No such thing', error: NotFoundError }
+                ]
+            })
+            getThing(@PathParam('id') id : string) {
+                if (id !== '1')
+                    throw new HttpError(404, { error: 'not-found' });
+                return { id };
+            }
+
+            @Get('/fail')
+            fail() {
+                throw new HttpError(409, { error: 'conflict' });
+            }
+        }
+
+        let app = await Application.bootstrap(TestService, { silent: true });
+
+        try {
+            let client = WebService.clientFor(TestService, 'http://localhost:32560');
+
+            expect(await client.getThing('1')).to.eql({ id: '1' });
+
+            let error : any;
+            try {
+                await client.getThing('2');
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).to.be.an.instanceOf(NotFoundError);
+            expect(error.body).to.eql({ error: 'not-found' });
+
+            error = undefined;
+            try {
+                await client.fail();
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).to.be.an.instanceOf(RestClientError);
+            expect(error).not.to.be.an.instanceOf(NotFoundError);
+            expect(error.body).to.eql({ error: 'conflict' });
+        } finally {
+            app.stop();
+        }
+    });
+
+    it('clientFor() should send @Header and @Cookie parameters', async () => {
+        @WebService({
+            server: { port: 32561, silent: true }
+        })
+        class TestService {
+            @Get('/whoami')
+            whoami(@Header('X-Tenant') tenant : string, @Cookie('user') user : string) {
+                return { tenant, user };
+            }
+        }
+
+        let app = await Application.bootstrap(TestService, { silent: true });
+
+        try {
+            let client = WebService.clientFor(TestService, 'http://localhost:32561');
+            expect(await client.whoami('acme', 'alice smith')).to.eql({ tenant: 'acme', user: 'alice smith' });
+        } finally {
+            app.stop();
+        }
+    });
+});
@@ -2,15 +2,17 @@ import { Annotation, Annotations } from "@alterior/annotations";
 import { MetadataName } from "@alterior/annotations";
 import { ModuleOptions, Module } from "@alterior/di";
 import { WebServerOptions } from "./web-server-options";
-import { ApplicationOptions, AppOptions, Application, RolesService, Service, Constructor } from "@alterior/runtime";
-import { Controller } from "./metadata";
+import { ApplicationOptions, AppOptions, Application, RolesService, Service, Constructor, Tracer } from "@alterior/runtime";
+import { Controller, WebEvent } from "./metadata";
 import { WebServiceCompiler } from './web-service-compiler';
 import { Logger, LoggingModule } from '@alterior/logging';
 import { WebServer } from './web-server';
 import { ControllerInstance } from './controller';
-import { RouteDefinition } from './metadata/route';
+import { RouteTableEntry } from './route';
+import { RouteDefinition, ResponseDeclaration, findResponseDeclaration } from './metadata/route';
 import { InputAnnotation } from "./input";
 import { getParameterNames } from "@alterior/common";
+import { serializeCookie } from "./cookies";
 
 export type RestClient<T> = {
     [P in keyof T as T[P] extends ((...args) => any) ? P : never]: 
@@ -99,7 +101,7 @@ export const WebService : WebServiceDecorator = <any>WebServiceAnnotation.decora
                 let  webserver : WebServer;
 
                 webserver = new WebServer(this.app.runtime.injector, options.server, this.logger, this.app.options);
-                let allRoutes = [];
+                let allRoutes : RouteTableEntry[] = [];
                 let serviceInstance = new ControllerInstance(
                     webserver, 
                     site.target, 
@@ -111,9 +113,20 @@ export const WebService : WebServiceDecorator = <any>WebServiceAnnotation.decora
 
                 serviceInstance.initialize();
                 serviceInstance.mount(webserver);
+                webserver.addImplicitRoutes(allRoutes);
 
-                if (webserver.options.defaultHandler !== null) {
+                if (webserver.options.defaultHandler === null) {
+                    // Requests which are not answered here are left to the enclosing application
+
+                    webserver.engine.addConnectMiddleware('/', (req, res, next) => {
+                        if (!webserver.handleUnroutedRequest(new WebEvent(req, res)))
+                            next();
+                    });
+                } else {
                     webserver.engine.addAnyRoute(ev => {
+                        if (webserver.handleUnroutedRequest(ev))
+                            return;
+
                         if (webserver.options.defaultHandler) {
                             webserver.options.defaultHandler(ev);
                             return;
@@ -135,9 +148,10 @@ export const WebService : WebServiceDecorator = <any>WebServiceAnnotation.decora
                         await webserver.start();
                         serviceInstance.start();
                         serviceInstance.listen(webserver);
+                        this.app.handleShutdownSignals(this.logger);
                     },
                     stop: async () => {
-                        webserver.stop();
+                        await webserver.stop();
                         serviceInstance.stop();
                     }
                 })
@@ -159,12 +173,57 @@ export const WebService : WebServiceDecorator = <any>WebServiceAnnotation.decora
     }
 });
 
+/**
+ * Thrown by REST clients (see `WebService.clientFor()`) when an error response is received. Subclasses can be 
+ * associated with specific responses using the `error` property of a route's response declarations 
+ * (see `RouteOptions.responses`).
+ */
 export class RestClientError extends Error {
-    constructor(message : string, readonly response : Response) {
+    constructor(message : string, readonly response : Response, readonly body? : any) {
         super(message);
     }
 }
 
+/**
+ * Perform the given fetch() request. When a trace is in progress (see `Tracer.currentSpan`), the request is traced by 
+ * a client span and the trace is propagated via the `traceparent` header.
+ */
+async function tracedFetch(fetchp : typeof fetch, url : string, init : RequestInit, name : string): Promise<Response> {
+    let parent = Tracer.currentSpan;
+    if (!parent)
+        return await fetchp(url, init);
+
+    return await parent.tracer.trace(name, async span => {
+        init.headers['traceparent'] = span.traceparent;
+        if (span.context.traceState)
+            init.headers['tracestate'] = span.context.traceState;
+
+        let response = await fetchp(url, init);
+        span.setAttribute('http.status_code', response.status);
+        return response;
+    }, { kind: 'client', attributes: { 'http.method': init.method, 'http.url': url } });
+}
+
+/**
+ * Decode the body of the given fetch() response. The content type of the matching response declaration is 
+ * preferred over the Content-Type header of the response.
+ */
+async function decodeResponseBody(response : Response, declaration : ResponseDeclaration) {
+    if (response.status === 204)
+        return undefined;
+
+    let contentType = declaration?.contentType ?? response.headers?.get('content-type') ?? 'application/json';
+    let text = await response.text();
+
+    if (!/[/+]json\b/.test(contentType))
+        return text;
+    
+    if (text === '')
+        return undefined;
+
+    return JSON.parse(text);
+}
+
 WebService.clientClassFor = function<T>(klass : Constructor<T>): RestClientConstructor<RestClient<T>> {
     function ctor(endpoint : string, options? : ClientOptions) {
         let routes : RouteDefinition[] = klass.prototype['alterior:routes'] || [];
@@ -223,6 +282,15 @@ WebService.clientClassFor = function<T>(klass : Constructor<T>): RestClientConst
                                 query[inputAnnot.name || paramName] = value;
                             } else if (inputAnnot.type === 'queryParams') {
                                 // TODO
+                            } else if (inputAnnot.type === 'header') {
+                                if (value !== undefined && value !== null)
+                                    request.headers[inputAnnot.name || paramName] = String(value);
+                            } else if (inputAnnot.type === 'cookie') {
+                                if (value !== undefined && value !== null) {
+                                    let cookie = serializeCookie(inputAnnot.name || paramName, String(value));
+                                    let existing = request.headers['Cookie'];
+                                    request.headers['Cookie'] = existing ? `${existing}; ${cookie}` : cookie;
+                                }
                             }
                         } else {
                             if (paramName === 'body') {
@@ -241,7 +309,7 @@ WebService.clientClassFor = function<T>(klass : Constructor<T>): RestClientConst
                     }
                 });
 
-                let pathVars = route.path.match(/:[^:/]/g);
+                let pathVars = route.path.match(/:[A-Za-z0-9]+/g) ?? [];
                 let pathChunks : string[] = [];
                 let unconsumedPath = route.path;
                 for (let pathVar of pathVars) {
@@ -264,7 +332,7 @@ WebService.clientClassFor = function<T>(klass : Constructor<T>): RestClientConst
                 return async (...args : any[]) => {
                     let init : RequestInit = {
                         method: route.httpMethod,
-                        headers: []
+                        headers: {}
                     };
                     let path : Record<string,string> = {};
                     let query : Record<string,string> = {};
@@ -286,13 +354,22 @@ WebService.clientClassFor = function<T>(klass : Constructor<T>): RestClientConst
                     if (queryString !== '')
                         url = `${url}?${queryString}`;
 
-                    let response = await fetchp(url, init);
+                    let response = await tracedFetch(fetchp, url, init, `${route.httpMethod} ${route.path}`);
+                    let declaration = findResponseDeclaration(route.options?.responses, response.status);
+
+                    if (response.status >= 400) {
+                        let body : any;
+                        try {
+                            body = await decodeResponseBody(response, declaration);
+                        } catch (e) {
+                            // The error body is not required to be decodable
+                        }
 
-                    if (response.status >= 400)
-                        throw new RestClientError(`${response.status} ${response.statusText}`, response);
+                        let errorType = declaration?.error ?? RestClientError;
+                        throw new errorType(`${response.status} ${response.statusText}`, response, body);
+                    }
                     
-                    // TODO: more exotic response body types
-                    return await response.json();
+                    return await decodeResponseBody(response, declaration);
                 };
             }
         });
@@ -1,8 +1,19 @@
 import { describe } from "razmin";
-import { Session } from "./session";
+import { FileSessionStore, MemorySessionStore, Session, signSessionId, unsignSessionId } from "./session";
 import { expect } from "chai";
-import { WebEvent } from './metadata';
+import { Get, Post, WebEvent } from './metadata';
 import { Injectable } from '@alterior/di';
+import { Application } from '@alterior/runtime';
+import { WebService } from './service';
+import { Max, Min, ValidateAs } from './validation';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as fetch from 'node-fetch';
+
+function cookieOf(response : Response) {
+    return response.headers.get('set-cookie')?.split(';')[0];
+}
 
 describe('Session', it => {
     it('transparently requests properties via get()', () => {
@@ -20,6 +31,27 @@ describe('Session', it => {
             expect(FooSession.current().bar).to.equal(123);
         });
     });
+    it('reads session properties rather than initializers of typed sessions', () => {
+        class CartSession extends Session {
+            cartTotal = 0;
+            regenerated : boolean;
+        }
+
+        let event = new WebEvent(<any>{
+            session: {
+                cartTotal: 12,
+                regenerated: true
+            }
+        }, <any>{});
+
+        WebEvent.with(event, () => {
+            let session = CartSession.current();
+
+            expect(session.cartTotal).to.equal(12);
+            expect(session.regenerated).to.be.true;
+            expect(session.get('cartTotal')).to.equal(12);
+        });
+    });
     it.skip('transparently coerces properties based on type', () => {
         function nothing() {
             return (t, p) => {};
@@ -53,4 +85,219 @@ describe('Session', it => {
             expect(FooSession.current().bar).to.be.a('number');
         });
     });
-});
\ No newline at end of file
+});
+
+describe('Session middleware', it => {
+    it('only creates a session once it holds data, and loads it on later requests', async () => {
+        let store = new MemorySessionStore();
+
+        @WebService({ server: { port: 32598, silent: true, session: { secret: 'secret', store } } })
+        class FakeApp {
+            @Get('/count')
+            count() {
+                let count = Session.current().get('count', 0);
+                return { count };
+            }
+
+            @Post('/count')
+            increment() {
+                let session = Session.current();
+                session.set('count', session.get('count', 0) + 1);
+                return { count: session.get('count') };
+            }
+        }
+
+        let app = await Application.bootstrap(FakeApp, { silent: true, shutdownSignals: false });
+
+        try {
+            let response = await fetch('http://localhost:32598/count');
+            expect(response.headers.get('set-cookie')).to.be.null;
+            expect(store.size).to.equal(0);
+
+            response = await fetch('http://localhost:32598/count', { method: 'POST' });
+            let cookie = cookieOf(response);
+            expect(cookie).to.match(/^sid=/);
+            expect(response.headers.get('set-cookie')).to.include('HttpOnly');
+            expect(store.size).to.equal(1);
+
+            response = await fetch('http://localhost:32598/count', { method: 'POST', headers: { cookie } });
+            expect(await response.json()).to.eql({ count: 2 });
+
+            response = await fetch('http://localhost:32598/count', { headers: { cookie: `${cookie}x` } });
+            expect(await response.json()).to.eql({ count: 0 });
+        } finally {
+            await app.stop();
+        }
+    });
+
+    it('regenerates and destroys sessions', async () => {
+        let store = new MemorySessionStore();
+
+        @WebService({ server: { port: 32599, silent: true, session: { secret: [ 'new', 'old' ], store, rolling: false } } })
+        class FakeApp {
+            @Post('/visit')
+            visit() {
+                Session.current().set('visited', true);
+            }
+
+            @Get('/whoami')
+            whoami() {
+                return { user: Session.current().get('user', null), visited: Session.current().get('visited', false) };
+            }
+
+            @Post('/login')
+            login() {
+                let session = Session.current();
+                session.regenerate();
+                session.set('user', 'alice');
+            }
+
+            @Post('/logout')
+            logout() {
+                Session.current().destroy();
+            }
+        }
+
+        let app = await Application.bootstrap(FakeApp, { silent: true, shutdownSignals: false });
+
+        try {
+            let response = await fetch('http://localhost:32599/visit', { method: 'POST' });
+            let anonymous = cookieOf(response);
+
+            // Sessions which do not roll only send the cookie when the session is created
+
+            response = await fetch('http://localhost:32599/whoami', { headers: { cookie: anonymous } });
+            expect(response.headers.get('set-cookie')).to.be.null;
+
+            response = await fetch('http://localhost:32599/login', { method: 'POST', headers: { cookie: anonymous } });
+            let authenticated = cookieOf(response);
+            expect(authenticated).not.to.equal(anonymous);
+            expect(store.size).to.equal(1);
+
+            response = await fetch('http://localhost:32599/whoami', { headers: { cookie: authenticated } });
+            expect(await response.json()).to.eql({ user: 'alice', visited: true });
+
+            response = await fetch('http://localhost:32599/whoami', { headers: { cookie: anonymous } });
+            expect(await response.json()).to.eql({ user: null, visited: false });
+
+            // Cookies signed with an older secret are accepted
+
+            let id = unsignSessionId(decodeURIComponent(authenticated.split('=')[1]), [ 'new' ]);
+            let oldCookie = `sid=${encodeURIComponent(signSessionId(id, 'old'))}`;
+            response = await fetch('http://localhost:32599/whoami', { headers: { cookie: oldCookie } });
+            expect(await response.json()).to.eql({ user: 'alice', visited: true });
+
+            response = await fetch('http://localhost:32599/logout', { method: 'POST', headers: { cookie: authenticated } });
+            expect(response.headers.get('set-cookie')).to.include('Max-Age=0');
+            expect(store.size).to.equal(0);
+        } finally {
+            await app.stop();
+        }
+    });
+
+    it('only saves unchanged sessions when rolling', async () => {
+        let store = new MemorySessionStore();
+        let saves = 0;
+        let set = store.set;
+        store.set = (id, record) => (saves += 1, set.call(store, id, record));
+
+        await store.set('abc', { data: { user: 'alice' }, expiresAt: Date.now() + 60_000 });
+        saves = 0;
+
+        for (let [ port, rolling ] of <[ number, boolean ][]>[ [ 32601, undefined ], [ 32602, true ] ]) {
+            @WebService({ server: { port, silent: true, session: { secret: 'secret', store, rolling } } })
+            class FakeApp {
+                @Get('/asset')
+                asset() {
+                    return 'asset';
+                }
+            }
+
+            let app = await Application.bootstrap(FakeApp, { silent: true, shutdownSignals: false });
+
+            try {
+                let response = await fetch(`http://localhost:${port}/asset`, { headers: { cookie: `sid=${signSessionId('abc', 'secret')}` } });
+                await response.text();
+
+                if (rolling) {
+                    expect(response.headers.get('set-cookie')).to.include('Max-Age=');
+                    expect(saves).to.equal(1);
+                } else {
+                    expect(response.headers.get('set-cookie')).to.be.null;
+                    expect(saves).to.equal(0);
+                }
+            } finally {
+                await app.stop();
+            }
+        }
+    });
+
+    it('discards properties of typed sessions which fail validation', async () => {
+        let store = new MemorySessionStore();
+        let id = 'abc';
+
+        await store.set(id, { data: { cartTotal: -5, items: 3, lastVisit: '2020-01-01T00:00:00.000Z' }, expiresAt: Date.now() + 60_000 });
+
+        class CartSession extends Session {
+            @Min(0) cartTotal : number;
+            @Max(10) items : number;
+            @ValidateAs(Date) lastVisit : Date;
+        }
+
+        @WebService({ server: { port: 32600, silent: true, session: { secret: 'secret', store } } })
+        class FakeApp {
+            @Get('/cart')
+            cart() {
+                let session = CartSession.current();
+                return {
+                    cartTotal: session.cartTotal ?? null,
+                    items: session.items,
+                    lastVisit: session.lastVisit instanceof Date
+                };
+            }
+        }
+
+        let app = await Application.bootstrap(FakeApp, { silent: true, shutdownSignals: false });
+
+        try {
+            let response = await fetch('http://localhost:32600/cart', { headers: { cookie: `sid=${signSessionId(id, 'secret')}` } });
+            expect(await response.json()).to.eql({ cartTotal: null, items: 3, lastVisit: true });
+            expect((await store.get(id)).data.cartTotal).to.be.undefined;
+        } finally {
+            await app.stop();
+        }
+    });
+});
+
+describe('FileSessionStore', it => {
+    it('keeps sessions as files and discards expired sessions', async () => {
+        let directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'alterior-sessions-'));
+        let store = new FileSessionStore(path.join(directory, 'sessions'));
+
+        try {
+            expect(await store.get('missing')).to.be.undefined;
+
+            await store.set('one', { data: { a: 1 }, expiresAt: Date.now() + 60_000 });
+            await store.set('two', { data: { b: 2 }, expiresAt: Date.now() - 1 });
+
+            expect((await store.get('one')).data).to.eql({ a: 1 });
+            expect(await new FileSessionStore(store.directory).get('one')).to.exist;
+
+            await store.prune();
+            expect(await fs.promises.readdir(store.directory)).to.eql([ 'one.json' ]);
+
+            await store.destroy('one');
+            expect(await store.get('one')).to.be.undefined;
+
+            let error : any;
+            try {
+                await store.get('../escape');
+            } catch (e) {
+                error = e;
+            }
+            expect(error).to.exist;
+        } finally {
+            await fs.promises.rm(directory, { recursive: true, force: true });
+        }
+    });
+});
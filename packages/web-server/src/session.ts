@@ -1,21 +1,525 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type * as http from 'http';
 import { WebEvent } from './metadata';
 import { Constructor } from '@alterior/runtime';
-import { Injectable } from '@alterior/di';
+import { Injectable, Injector, ReflectiveInjector } from '@alterior/di';
+import { Logger } from '@alterior/logging';
+import { CookieAttributes, getRequestCookies, setResponseCookie } from './cookies';
+import { hasConstraints, validate } from './validation';
+import { ConnectMiddleware } from './web-server-engine';
 
+export type SessionData = Record<string, any>;
+
+/**
+ * A session as kept by a `SessionStore`.
+ */
+export interface SessionRecord {
+    data : SessionData;
+
+    /**
+     * When the session expires (in milliseconds since the epoch).
+     */
+    expiresAt : number;
+}
+
+/**
+ * Keeps the data of sessions. Provide a subclass via dependency injection (or via the `store` session option) to
+ * share sessions between processes, such as by using Redis.
+ */
+export abstract class SessionStore {
+    /**
+     * Retrieve the session with the given ID. Resolves to undefined if there is no such session or it has expired.
+     * @param id
+     */
+    abstract get(id : string): Promise<SessionRecord>;
+
+    /**
+     * Create or replace the session with the given ID.
+     * @param id
+     * @param record
+     */
+    abstract set(id : string, record : SessionRecord): Promise<void>;
+
+    /**
+     * Remove the session with the given ID, if it exists.
+     * @param id
+     */
+    abstract destroy(id : string): Promise<void>;
+}
+
+/**
+ * Keeps sessions in memory. Sessions are not shared between processes and are lost when the process exits.
+ */
+export class MemorySessionStore extends SessionStore {
+    private sessions = new Map<string, { data : string, expiresAt : number }>();
+    private lastSweep = Date.now();
+
+    /**
+     * How often (in milliseconds) to discard expired sessions.
+     */
+    sweepInterval = 60_000;
+
+    async get(id : string): Promise<SessionRecord> {
+        let entry = this.sessions.get(id);
+        if (!entry || entry.expiresAt <= Date.now())
+            return undefined;
+
+        // Data is kept serialized so that later changes to the loaded object do not affect the stored session
+        return { data: JSON.parse(entry.data), expiresAt: entry.expiresAt };
+    }
+
+    async set(id : string, record : SessionRecord) {
+        this.sessions.set(id, { data: JSON.stringify(record.data), expiresAt: record.expiresAt });
+        this.sweep();
+    }
+
+    async destroy(id : string) {
+        this.sessions.delete(id);
+    }
+
+    /**
+     * The number of sessions currently kept (including expired sessions which have not been discarded yet).
+     */
+    get size() {
+        return this.sessions.size;
+    }
+
+    private sweep() {
+        let now = Date.now();
+        if (now - this.lastSweep < this.sweepInterval)
+            return;
+
+        this.lastSweep = now;
+        for (let [ id, entry ] of this.sessions) {
+            if (entry.expiresAt <= now)
+                this.sessions.delete(id);
+        }
+    }
+}
+
+/**
+ * Keeps each session as a JSON file within the given directory, which is created if necessary. Sessions survive
+ * restarts, and can be shared between processes on the same machine. Expired sessions are removed when they are
+ * next requested, or via `prune()`.
+ */
+export class FileSessionStore extends SessionStore {
+    constructor(
+        readonly directory : string
+    ) {
+        super();
+    }
+
+    private fileFor(id : string) {
+        if (!/^[A-Za-z0-9_-]+$/.test(id))
+            throw new Error(`Invalid session ID`);
+
+        return path.join(this.directory, `${id}.json`);
+    }
+
+    async get(id : string): Promise<SessionRecord> {
+        let record : SessionRecord;
+
+        try {
+            record = JSON.parse(await fs.promises.readFile(this.fileFor(id), 'utf-8'));
+        } catch (e) {
+            if (e.code === 'ENOENT' || e instanceof SyntaxError)
+                return undefined;
+            throw e;
+        }
+
+        if (!(record?.expiresAt > Date.now())) {
+            await this.destroy(id);
+            return undefined;
+        }
+
+        return record;
+    }
+
+    async set(id : string, record : SessionRecord) {
+        let file = this.fileFor(id);
+        let temporaryFile = `${file}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+
+        // Write to a temporary file first so that concurrent readers never observe a partially written session
+
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        await fs.promises.writeFile(temporaryFile, JSON.stringify(record));
+        await fs.promises.rename(temporaryFile, file);
+    }
+
+    async destroy(id : string) {
+        await fs.promises.rm(this.fileFor(id), { force: true });
+    }
+
+    /**
+     * Remove all expired sessions.
+     */
+    async prune() {
+        let files : string[];
+
+        try {
+            files = await fs.promises.readdir(this.directory);
+        } catch (e) {
+            if (e.code === 'ENOENT')
+                return;
+            throw e;
+        }
+
+        for (let file of files.filter(x => x.endsWith('.json')))
+            await this.get(file.slice(0, -'.json'.length));
+    }
+}
+
+export interface SessionOptions {
+    /**
+     * The secret used to sign session cookies. When an array is given, cookies are signed using the first secret,
+     * but cookies signed with any of the secrets are accepted. This allows secrets to be rotated.
+     */
+    secret : string | string[];
+
+    /**
+     * The name of the session cookie. Defaults to `sid`.
+     */
+    cookieName? : string;
+
+    /**
+     * How long (in milliseconds) sessions last. Defaults to 24 hours.
+     */
+    maxAge? : number;
+
+    /**
+     * When true, the expiry of the session is extended by `maxAge` on each request, so that the session only
+     * expires after `maxAge` of inactivity. This saves the session to the store on every request which sends the
+     * session cookie, whether or not the session was changed. Otherwise sessions expire `maxAge` after they are
+     * created, and are only saved when changed. Defaults to false.
+     */
+    rolling? : boolean;
+
+    /**
+     * Attributes of the session cookie. Defaults to `Path=/`, `HttpOnly` and `SameSite=Lax`. The expiry of the
+     * cookie is determined by `maxAge`.
+     */
+    cookie? : Omit<CookieAttributes, 'maxAge' | 'expires'>;
+
+    /**
+     * The store to keep sessions in. Can be an instance or a class to resolve via dependency injection. Defaults to
+     * the `SessionStore` provided via dependency injection, or else an in-memory store (see `MemorySessionStore`).
+     */
+    store? : SessionStore | Constructor<SessionStore>;
+}
+
+interface SessionState {
+    id : string;
+    isNew : boolean;
+    expiresAt : number;
+    snapshot : string;
+    destroyed : boolean;
+    regenerated : boolean;
+    previousIds : string[];
+    validated : WeakSet<Function>;
+}
+
+const SESSION_STATE = Symbol('Session state');
+const DEFAULT_MAX_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * The stores used when no store is specified or provided, one per web server.
+ */
+const DEFAULT_STORES = new WeakMap<object, SessionStore>();
+
+/**
+ * Determine the store to use for sessions.
+ *
+ * @param options
+ * @param injector
+ * @param owner The object whose default store should be used if no store is specified or provided (ie the web server)
+ */
+export function resolveSessionStore(options : SessionOptions, injector : Injector, owner : object): SessionStore {
+    let store : SessionStore;
+
+    if (typeof options.store === 'function') {
+        let storeClass = options.store;
+        store = injector.get(storeClass, null) ?? ReflectiveInjector.resolveAndCreate([ storeClass ], injector).get(storeClass);
+    } else {
+        store = options.store ?? injector.get(SessionStore, null);
+    }
+
+    if (!store) {
+        store = DEFAULT_STORES.get(owner);
+        if (!store)
+            DEFAULT_STORES.set(owner, store = new MemorySessionStore());
+    }
+
+    return store;
+}
+
+function sign(id : string, secret : string) {
+    return crypto.createHmac('sha256', secret).update(id).digest('base64url');
+}
+
+/**
+ * Produce the value of a session cookie for the given session ID.
+ *
+ * @param id
+ * @param secret
+ */
+export function signSessionId(id : string, secret : string) {
+    return `${id}.${sign(id, secret)}`;
+}
+
+/**
+ * Verify the signature of the given session cookie value, returning the session ID if it was signed by one of the
+ * given secrets, or undefined otherwise.
+ *
+ * @param value
+ * @param secrets
+ */
+export function unsignSessionId(value : string, secrets : string[]): string {
+    let index = value?.lastIndexOf('.') ?? -1;
+    if (index <= 0)
+        return undefined;
+
+    let id = value.slice(0, index);
+    let signature = Buffer.from(value.slice(index + 1));
+
+    for (let secret of secrets) {
+        let expected = Buffer.from(sign(id, secret));
+        if (expected.length === signature.length && crypto.timingSafeEqual(expected, signature))
+            return id;
+    }
+
+    return undefined;
+}
+
+function generateSessionId() {
+    return crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * Produce middleware which loads the session identified by the (signed) session cookie of the request into
+ * `request.session`, where it is accessed via `Session`. Changes are saved to the store once the response ends.
+ * The cookie is only sent once the session contains data, and is refreshed on each response when `rolling` is
+ * enabled. Otherwise, sessions are only saved when they change.
+ *
+ * @param options
+ * @param store
+ * @param logger Used to report failures to save sessions
+ */
+export function sessionMiddleware(options : SessionOptions, store : SessionStore, logger? : Logger): ConnectMiddleware {
+    let secrets = [].concat(options.secret ?? []).filter(x => x);
+    if (secrets.length === 0)
+        throw new Error(`Sessions require a secret (see SessionOptions.secret)`);
+
+    let cookieName = options.cookieName ?? 'sid';
+    let maxAge = options.maxAge ?? DEFAULT_MAX_AGE;
+    let rolling = options.rolling ?? false;
+    let cookieAttributes : CookieAttributes = { path: '/', httpOnly: true, sameSite: 'lax', ...options.cookie };
+
+    return async (req : http.IncomingMessage, res : http.ServerResponse, next) => {
+        let id = unsignSessionId(getRequestCookies(req)[cookieName], secrets);
+        let record : SessionRecord;
+
+        try {
+            record = id ? await store.get(id) : undefined;
+        } catch (e) {
+            next(e);
+            return;
+        }
+
+        let data : SessionData = record?.data ?? {};
+        let state : SessionState = {
+            id: record ? id : generateSessionId(),
+            isNew: !record,
+            expiresAt: record?.expiresAt ?? Date.now() + maxAge,
+            snapshot: JSON.stringify(data),
+            destroyed: false,
+            regenerated: false,
+            previousIds: [],
+            validated: new WeakSet()
+        };
+
+        req['session'] = data;
+        req[SESSION_STATE] = state;
+
+        // Sessions which have never held any data are not kept
+
+        let isEmpty = () => Object.keys(data).length === 0;
+        let isChanged = () => JSON.stringify(data) !== state.snapshot;
+        let response : any = res;
+        let writeHead = res.writeHead;
+        let end = res.end;
+
+        let cookieSent = false;
+        let sendCookie = () => {
+            if (cookieSent || res.headersSent)
+                return;
+
+            cookieSent = true;
+
+            if (state.destroyed) {
+                if (!state.isNew)
+                    setResponseCookie(res, cookieName, '', { ...cookieAttributes, maxAge: 0, expires: new Date(0) });
+            } else if (!(state.isNew && isEmpty())) {
+                if (rolling)
+                    state.expiresAt = Date.now() + maxAge;
+
+                if (rolling || state.isNew || state.regenerated) {
+                    setResponseCookie(res, cookieName, signSessionId(state.id, secrets[0]), {
+                        ...cookieAttributes,
+                        maxAge: Math.max(0, (state.expiresAt - Date.now()) / 1000)
+                    });
+                }
+            }
+        };
+
+        response.writeHead = (...args : any[]) => {
+            sendCookie();
+            return writeHead.apply(res, args);
+        };
+
+        response.end = (...args : any[]) => {
+            let save = async () => {
+                for (let previousId of state.previousIds)
+                    await store.destroy(previousId);
+
+                if (state.destroyed)
+                    await store.destroy(state.id);
+                else if (state.isNew && isEmpty())
+                    return;
+                else if (state.isNew || state.regenerated || rolling || isChanged())
+                    await store.set(state.id, { data, expiresAt: state.expiresAt });
+            };
+
+            // Decide the cookie before saving, as this determines the new expiry of rolling sessions
+
+            sendCookie();
+            save()
+                .catch(e => logger ? logger.error(`Failed to save session: ${e.stack ?? e}`) : console.error(e))
+                .then(() => end.apply(res, args));
+
+            return res;
+        };
+
+        next();
+    };
+}
+
+function currentSessionData(): SessionData {
+    return WebEvent.current.request['session'];
+}
+
+function currentSessionState(operation? : string): SessionState {
+    let state : SessionState = WebEvent.current.request[SESSION_STATE];
+
+    if (operation) {
+        if (!state)
+            throw new Error(`Cannot ${operation} the session: Sessions are not enabled (see the session server option)`);
+
+        if (WebEvent.current.response.headersSent)
+            throw new Error(`Cannot ${operation} the session after the response headers have been sent`);
+    }
+
+    return state;
+}
+
+/**
+ * Discard the properties of the current session which do not satisfy the constraints declared by the given session
+ * class. Sessions are validated once per request for each session class.
+ */
+function validateSession(type : Function) {
+    let state = currentSessionState();
+    if (state?.validated.has(type) || !hasConstraints(type))
+        return;
+
+    let data = currentSessionData();
+    for (let failure of validate(type, data, { coerce: true }))
+        delete data[failure.path.split(/[.[]/)[0]];
+
+    state?.validated.add(type);
+}
+
+/**
+ * Provides access to the session of the current request. Subclass to declare the properties of the session,
+ * optionally with constraints (see `@Constraint()` and friends). Properties which do not satisfy their constraints
+ * when the session is loaded are discarded.
+ *
+ * ```typescript
+ * class MySession extends Session {
+ *     @Min(0) cartTotal : number;
+ * }
+ *
+ * MySession.current().cartTotal = 12;
+ * ```
+ */
 @Injectable()
 export class Session {
     static current<T extends Session>(this : Constructor<T>): T {
+        validateSession(this);
+
         return new Proxy(new (this as Constructor<T>)(), {
-            get: (target, key : string, receiver) => target.get(key),
+            get: (target, key : string, receiver) => {
+                // Only the members of Session itself are not session properties
+
+                if (Object.prototype.hasOwnProperty.call(Session.prototype, key)) {
+                    let value = target[key];
+                    return typeof value === 'function' ? value.bind(target) : value;
+                }
+
+                return target.get(key);
+            },
             set: (target, key: string, value: any) => (target.set(key, value), true)
         });
     }
 
+    /**
+     * The ID of the session. Only available when sessions are enabled via the `session` server option.
+     */
+    get id(): string {
+        return currentSessionState()?.id;
+    }
+
+    /**
+     * True if the session was created during the current request.
+     */
+    get isNew(): boolean {
+        return currentSessionState()?.isNew ?? false;
+    }
+
     get<T>(id : string, defaultValue? : T): T {
-        return WebEvent.current.request['session'][id] ?? defaultValue;
+        return currentSessionData()[id] ?? defaultValue;
     }
 
     set<T>(id : string, value : T) {
-        WebEvent.current.request['session'][id] = value;
+        currentSessionData()[id] = value;
+    }
+
+    /**
+     * Move the session to a new ID, keeping its data. Do this whenever the privileges of the session change (such
+     * as when the user logs in) so that a session ID obtained by an attacker beforehand cannot be used to access the
+     * privileged session (session fixation).
+     */
+    regenerate() {
+        let state = currentSessionState('regenerate');
+
+        if (!state.isNew)
+            state.previousIds.push(state.id);
+
+        state.id = generateSessionId();
+        state.regenerated = true;
+        state.destroyed = false;
+    }
+
+    /**
+     * Remove all data from the session and delete it from the store. The session cookie is cleared.
+     */
+    destroy() {
+        let state = currentSessionState('destroy');
+        let data = currentSessionData();
+
+        for (let key of Object.keys(data))
+            delete data[key];
+
+        state.destroyed = true;
     }
-}
\ No newline at end of file
+}
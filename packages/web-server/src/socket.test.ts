@@ -0,0 +1,177 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import { take } from 'rxjs/operators';
+import { Injectable } from '@alterior/di';
+import { Application } from '@alterior/runtime';
+import { WebService } from './service';
+import { Get, Socket, WebEvent } from './metadata';
+import { QueryParam } from './input';
+import { WebConduit } from './web-conduit';
+import { RequestReportingEvent } from './web-server-options';
+import * as fetch from 'node-fetch';
+
+const WebSocket = require('ws');
+
+function connect(url: string) {
+	return new WebConduit(new WebSocket(url));
+}
+
+suite(describe => {
+	describe('@Socket()', it => {
+		it('provides the connection and connection-scoped providers to the method', async () => {
+			let sessions: ChatSession[] = [];
+
+			@Injectable()
+			class ChatSession {
+				constructor(readonly conduit: WebConduit) {
+					sessions.push(this);
+				}
+
+				received: string[] = [];
+
+				receive(message: string) {
+					this.received.push(message);
+					this.conduit.socket.send(`${this.received.length}: ${message}`);
+				}
+			}
+
+			@WebService({ server: { port: 32580, silent: true } })
+			class FakeApp {
+				@Socket('/chat', { providers: [ ChatSession ] })
+				chat(conduit: WebConduit, session: ChatSession, @QueryParam('name') name: string) {
+					expect(session.conduit).to.equal(conduit);
+					conduit.socket.send(`hello ${name}`);
+					conduit.message.subscribe(message => session.receive(String(message.data)));
+				}
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true });
+			let first = connect('ws://localhost:32580/chat?name=alice');
+			let second = connect('ws://localhost:32580/chat?name=bob');
+
+			try {
+				expect((await first.message.pipe(take(1)).toPromise()).data).to.equal('hello alice');
+				expect((await second.message.pipe(take(1)).toPromise()).data).to.equal('hello bob');
+
+				let reply = first.message.pipe(take(1)).toPromise();
+				first.socket.send('hi');
+				expect((await reply).data).to.equal('1: hi');
+
+				expect(sessions.length).to.equal(2);
+				expect(sessions[0]).not.to.equal(sessions[1]);
+			} finally {
+				first.socket.close();
+				second.socket.close();
+				app.stop();
+			}
+		});
+
+		it('rejects requests which are not upgrades', async () => {
+			@WebService({ server: { port: 32581, silent: true } })
+			class FakeApp {
+				@Socket('/chat')
+				chat(conduit: WebConduit) {
+				}
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true });
+
+			try {
+				let response = await fetch('http://localhost:32581/chat');
+				expect(response.status).to.equal(426);
+				expect(response.headers.get('upgrade')).to.equal('websocket');
+				expect((await response.json()).error).to.equal('upgrade-required');
+			} finally {
+				app.stop();
+			}
+		});
+
+		it('is included in the service description', async () => {
+			@WebService({ server: { port: 32582, silent: true } })
+			class FakeApp {
+				@Socket('/chat')
+				chat(conduit: WebConduit) {
+				}
+
+				@Get('/routes')
+				routes(event: WebEvent) {
+					return event.server.serviceDescription.routes.map(x => ({ method: x.method, socket: x.socket }));
+				}
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true });
+
+			try {
+				let response = await fetch('http://localhost:32582/routes');
+				expect(await response.json()).to.eql([
+					{ method: 'chat', socket: true },
+					{ method: 'routes', socket: false }
+				]);
+			} finally {
+				app.stop();
+			}
+		});
+
+		it('reports when clients connect and disconnect', async () => {
+			let reported: [ RequestReportingEvent, string ][] = [];
+			let closeCode: number;
+			let disconnected: () => void;
+			let disconnection = new Promise<void>(resolve => disconnected = resolve);
+
+			@WebService({
+				server: {
+					port: 32583,
+					requestReporter: (reportingEvent, event, source) => {
+						reported.push([ reportingEvent, source ]);
+						if (reportingEvent === 'disconnected') {
+							closeCode = event.metadata['socketClose'].code;
+							disconnected();
+						}
+					}
+				}
+			})
+			class FakeApp {
+				@Socket('/chat')
+				chat(conduit: WebConduit) {
+					conduit.socket.close(4000, 'Done');
+				}
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true });
+			let conduit = connect('ws://localhost:32583/chat');
+
+			try {
+				await disconnection;
+				expect(reported).to.eql([
+					[ 'middleware', 'FakeApp.chat()' ],
+					[ 'connected', 'FakeApp.chat()' ],
+					[ 'disconnected', 'FakeApp.chat()' ]
+				]);
+				expect(closeCode).to.equal(4000);
+			} finally {
+				conduit.socket.close();
+				app.stop();
+			}
+		});
+
+		it('closes the connection when the method fails', async () => {
+			@WebService({ server: { port: 32584, silent: true } })
+			class FakeApp {
+				@Socket('/chat')
+				chat(conduit: WebConduit) {
+					throw new Error('Failed');
+				}
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true });
+			let conduit = connect('ws://localhost:32584/chat');
+
+			try {
+				let closeEvent = await conduit.closed.pipe(take(1)).toPromise();
+				expect(closeEvent.code).to.equal(1011);
+			} finally {
+				app.stop();
+			}
+		});
+	});
+});
@@ -0,0 +1,150 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Get, Mount } from './metadata';
+import { WebService } from './service';
+import { teststrap } from './teststrap';
+import { StaticFilesController, StaticFilesOptions } from './static-files';
+
+/**
+ * Create a directory containing a small single-page application.
+ */
+function createSite() {
+	let root = fs.mkdtempSync(path.join(os.tmpdir(), 'alterior-static-'));
+
+	fs.mkdirSync(path.join(root, 'assets'));
+	fs.mkdirSync(path.join(root, 'docs'));
+	fs.writeFileSync(path.join(root, 'index.html'), '<html>app</html>');
+	fs.writeFileSync(path.join(root, 'assets', 'main.js'), 'console.log("0123456789");');
+	fs.writeFileSync(path.join(root, 'docs', 'index.html'), '<html>docs</html>');
+	fs.writeFileSync(path.join(root, '.env'), 'SECRET=1');
+	fs.writeFileSync(path.join(os.tmpdir(), 'alterior-static-secret.txt'), 'secret');
+
+	return root;
+}
+
+function createApp(options: StaticFilesOptions) {
+	@WebService()
+	class FakeApp {
+		@Get('/api/status')
+		status() {
+			return { ok: true };
+		}
+
+		@Mount('/app', { providers: StaticFilesController.configure(options) })
+		app: StaticFilesController;
+	}
+
+	return FakeApp;
+}
+
+suite(describe => {
+	describe('StaticFilesController', it => {
+		let root = createSite();
+
+		it('serves files with their content type and validators', async () => {
+			let test = teststrap(createApp({ root, maxAge: 3600, immutable: true }));
+
+			await test.get('/app/assets/main.js')
+				.buffer(true)
+				.expect(200, 'console.log("0123456789");')
+				.expect('Content-Type', 'text/javascript; charset=utf-8')
+				.expect('Content-Length', '26')
+				.expect('Cache-Control', 'public, max-age=3600, immutable')
+				.expect('Accept-Ranges', 'bytes')
+				.expect('ETag', /^"[0-9a-f]+-[0-9a-f]+"$/)
+				.expect('Last-Modified', /GMT$/);
+
+			await test.get('/api/status').expect(200, { ok: true });
+		});
+
+		it('serves index files for directories', async () => {
+			let test = teststrap(createApp({ root }));
+
+			await test.get('/app/').expect(200, '<html>app</html>').expect('Cache-Control', 'no-cache');
+			await test.get('/app/docs/').expect(200, '<html>docs</html>');
+			await test.get('/app/docs').expect(301).expect('Location', '/app/docs/');
+		});
+
+		it('does not redirect directories to other hosts', async () => {
+			@WebService()
+			class FakeApp {
+				@Mount('', { providers: StaticFilesController.configure({ root }) })
+				files: StaticFilesController;
+			}
+
+			await teststrap(FakeApp).get('//docs').expect(301).expect('Location', '/docs/');
+		});
+
+		it('responds with 304 when the client has a current copy', async () => {
+			let test = teststrap(createApp({ root }));
+			let etag: string;
+			let lastModified: string;
+
+			await test.get('/app/assets/main.js').expect(200).expect(res => {
+				etag = res.header['etag'];
+				lastModified = res.header['last-modified'];
+			});
+
+			await test.get('/app/assets/main.js').set('If-None-Match', etag).expect(304).expect('ETag', etag);
+			await test.get('/app/assets/main.js').set('If-Modified-Since', lastModified).expect(304);
+			await test.get('/app/assets/main.js').set('If-None-Match', '"other"').expect(200);
+		});
+
+		it('serves byte ranges', async () => {
+			let test = teststrap(createApp({ root }));
+
+			await test.get('/app/assets/main.js')
+				.set('Range', 'bytes=13-22')
+				.buffer(true)
+				.expect(206, '0123456789')
+				.expect('Content-Range', 'bytes 13-22/26')
+				.expect('Content-Length', '10')
+				.expect('Content-Type', 'text/javascript; charset=utf-8');
+
+			await test.get('/app/assets/main.js')
+				.set('Range', 'bytes=-3')
+				.buffer(true)
+				.expect(206, '");')
+				.expect('Content-Range', 'bytes 23-25/26');
+
+			await test.get('/app/assets/main.js')
+				.set('Range', 'bytes=100-')
+				.expect(416)
+				.expect('Content-Range', 'bytes */26');
+
+			await test.get('/app/assets/main.js')
+				.set('Range', 'bytes=0-4')
+				.set('If-Range', '"stale"')
+				.expect(200);
+		});
+
+		it('rejects paths outside of the root', async () => {
+			let test = teststrap(createApp({ root }));
+
+			await test.get('/app/%2e%2e/alterior-static-secret.txt').expect(403);
+			await test.get('/app/assets/..%2f..%2falterior-static-secret.txt').expect(403);
+			await test.get('/app/.env').expect(404);
+			await test.get('/app/missing.js').expect(404);
+		});
+
+		it('falls back to the index file for single-page applications', async () => {
+			let test = teststrap(createApp({ root, spa: true }));
+
+			await test.get('/app/users/123')
+				.set('Accept', 'text/html,application/xhtml+xml')
+				.expect(200, '<html>app</html>')
+				.expect('Cache-Control', 'no-cache');
+
+			await test.get('/app/assets/missing.js')
+				.set('Accept', 'text/html')
+				.expect(404);
+
+			await test.get('/app/users/123')
+				.set('Accept', 'application/json')
+				.expect(404);
+		});
+	});
+});
@@ -0,0 +1,303 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Inject, InjectionToken, Provider } from '@alterior/di';
+import { HttpError } from '@alterior/common';
+import { Controller, Get, WebEvent } from './metadata';
+import { Response } from './response';
+import { isNotModified } from './conditional';
+
+export interface StaticFilesOptions {
+	/**
+	 * The directory to serve files from.
+	 */
+	root: string;
+
+	/**
+	 * The file to serve for requests for a directory. Set to `false` to respond with 404 instead. Defaults to
+	 * `index.html`.
+	 */
+	index?: string | false;
+
+	/**
+	 * Serve the index file of the root directory for requests which do not match a file, so that the client-side
+	 * router of a single-page application can handle them. Only applies to requests which accept HTML and whose path
+	 * has no file extension, so that missing assets still receive 404. Defaults to false.
+	 */
+	spa?: boolean;
+
+	/**
+	 * How long (in seconds) clients may cache files without revalidating them, for use in the `Cache-Control` header.
+	 * Index files are always revalidated, since they typically refer to other assets by versioned URLs. Defaults to 0.
+	 */
+	maxAge?: number;
+
+	/**
+	 * Add the `immutable` directive to the `Cache-Control` header (except for index files). Use this when file names
+	 * include a hash of their content. Defaults to false.
+	 */
+	immutable?: boolean;
+
+	/**
+	 * Whether files whose names begin with a dot (ie `.env`) can be served. Defaults to false, in which case such
+	 * requests receive 404.
+	 */
+	dotfiles?: boolean;
+
+	/**
+	 * Additional content types by file extension (ie `{ '.gltf': 'model/gltf+json' }`).
+	 */
+	contentTypes?: Record<string, string>;
+}
+
+export const STATIC_FILES_OPTIONS = new InjectionToken<StaticFilesOptions>('STATIC_FILES_OPTIONS');
+
+const CONTENT_TYPES: Record<string, string> = {
+	'.html': 'text/html; charset=utf-8',
+	'.htm': 'text/html; charset=utf-8',
+	'.css': 'text/css; charset=utf-8',
+	'.js': 'text/javascript; charset=utf-8',
+	'.mjs': 'text/javascript; charset=utf-8',
+	'.json': 'application/json; charset=utf-8',
+	'.map': 'application/json; charset=utf-8',
+	'.webmanifest': 'application/manifest+json; charset=utf-8',
+	'.txt': 'text/plain; charset=utf-8',
+	'.md': 'text/markdown; charset=utf-8',
+	'.csv': 'text/csv; charset=utf-8',
+	'.xml': 'application/xml; charset=utf-8',
+	'.svg': 'image/svg+xml',
+	'.png': 'image/png',
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.gif': 'image/gif',
+	'.webp': 'image/webp',
+	'.avif': 'image/avif',
+	'.ico': 'image/x-icon',
+	'.woff': 'font/woff',
+	'.woff2': 'font/woff2',
+	'.ttf': 'font/ttf',
+	'.otf': 'font/otf',
+	'.wasm': 'application/wasm',
+	'.pdf': 'application/pdf',
+	'.mp3': 'audio/mpeg',
+	'.wav': 'audio/wav',
+	'.mp4': 'video/mp4',
+	'.webm': 'video/webm'
+};
+
+interface ByteRange {
+	start: number;
+	end: number;
+}
+
+/**
+ * Parse the given `Range` header for a file of the given size. Returns undefined when the header should be ignored
+ * (it is malformed, uses a unit other than bytes or requests several ranges) and null when the range cannot be
+ * satisfied.
+ */
+function parseRange(header: string, size: number): ByteRange {
+	let match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+	if (!match || (!match[1] && !match[2]))
+		return undefined;
+
+	let start: number;
+	let end: number;
+
+	if (!match[1]) {
+		// A suffix range: the last N bytes
+
+		start = Math.max(0, size - Number(match[2]));
+		end = size - 1;
+	} else {
+		start = Number(match[1]);
+		end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+	}
+
+	if (start > end || start >= size)
+		return null;
+
+	return { start, end };
+}
+
+async function statFile(filePath: string) {
+	try {
+		return await fs.promises.stat(filePath);
+	} catch (e) {
+		if (e.code === 'ENOENT' || e.code === 'ENOTDIR')
+			return undefined;
+		throw e;
+	}
+}
+
+/**
+ * Serves the files within a directory. Mount it with the options provided via `StaticFilesController.configure()`.
+ * Supports index files, fallback to the index file for single-page applications, `Range` requests, `ETag` and
+ * `Last-Modified` validation and `Cache-Control`. Paths which would escape the root directory are rejected.
+ *
+ * ```typescript
+ * @Mount('/app', { providers: StaticFilesController.configure({ root: 'dist/app', spa: true }) })
+ * app: StaticFilesController;
+ * ```
+ */
+@Controller('', { group: 'static' })
+export class StaticFilesController {
+	constructor(
+		@Inject(STATIC_FILES_OPTIONS) readonly options: StaticFilesOptions
+	) {
+		if (!options?.root)
+			throw new Error(`StaticFilesController: The 'root' option is required`);
+
+		this.root = path.resolve(options.root);
+	}
+
+	/**
+	 * Produce the providers which configure a mounted `StaticFilesController`.
+	 * @param options
+	 */
+	static configure(options: StaticFilesOptions): Provider[] {
+		return [ { provide: STATIC_FILES_OPTIONS, useValue: options } ];
+	}
+
+	private root: string;
+
+	@Get('')
+	index(event: WebEvent) {
+		return this.serve(event);
+	}
+
+	@Get('/*')
+	file(event: WebEvent) {
+		return this.serve(event);
+	}
+
+	private async serve(event: WebEvent) {
+		// The URL is not normalized (as by the URL class), so that dot segments can be rejected below
+
+		let [ pathname, query ] = String(event.request['originalUrl'] ?? event.request.url).split(/\?(.*)/s);
+		let relativePath = pathname.slice((event.route?.description.pathPrefix ?? '').length);
+		let segments: string[];
+
+		try {
+			segments = relativePath.split('/').filter(x => x).map(x => decodeURIComponent(x));
+		} catch (e) {
+			throw new HttpError(400, { error: 'invalid-path', message: `The requested path is not valid` });
+		}
+
+		if (segments.some(x => x === '..' || x.includes('/') || x.includes('\\') || x.includes('\0')))
+			throw new HttpError(403, { error: 'forbidden', message: `The requested path is not allowed` });
+
+		if (!this.options.dotfiles && segments.some(x => x.startsWith('.')))
+			throw this.notFound();
+
+		let filePath = path.resolve(this.root, ...segments);
+		if (filePath !== this.root && !filePath.startsWith(this.root + path.sep))
+			throw new HttpError(403, { error: 'forbidden', message: `The requested path is not allowed` });
+
+		let stats = await statFile(filePath);
+		let isIndex = false;
+
+		if (stats?.isDirectory()) {
+			// Leading slashes are collapsed, as `//example.com/` would redirect to another host
+
+			if (!pathname.endsWith('/'))
+				return Response.movedPermanently(`${pathname.replace(/^\/+/, '/')}/${query ? `?${query}` : ''}`);
+
+			if (this.options.index === false)
+				throw this.notFound();
+
+			filePath = path.join(filePath, this.options.index ?? 'index.html');
+			stats = await statFile(filePath);
+			isIndex = true;
+		}
+
+		if (!stats?.isFile()) {
+			if (!this.shouldFallBack(event, segments))
+				throw this.notFound();
+
+			filePath = path.join(this.root, this.options.index || 'index.html');
+			stats = await statFile(filePath);
+			isIndex = true;
+
+			if (!stats?.isFile())
+				throw this.notFound();
+		}
+
+		return await this.sendFile(event, filePath, stats, isIndex);
+	}
+
+	/**
+	 * Determine whether a request which does not match a file should receive the index file (see the `spa` option).
+	 */
+	private shouldFallBack(event: WebEvent, segments: string[]) {
+		if (!this.options.spa)
+			return false;
+
+		let accept = String(event.request.headers.accept ?? '*/*');
+		let last = segments[segments.length - 1] ?? '';
+
+		return !path.extname(last) && (accept.includes('text/html') || accept.includes('*/*'));
+	}
+
+	private async sendFile(event: WebEvent, filePath: string, stats: fs.Stats, isIndex: boolean) {
+		let request = event.request;
+		let etag = `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+		let lastModified = stats.mtime;
+		let extension = path.extname(filePath).toLowerCase();
+		let contentType = this.options.contentTypes?.[extension] ?? CONTENT_TYPES[extension] ?? 'application/octet-stream';
+		let cacheControl = isIndex
+			? 'no-cache'
+			: `public, max-age=${this.options.maxAge ?? 0}${this.options.immutable ? ', immutable' : ''}`;
+
+		let headers = [
+			[ 'ETag', etag ],
+			[ 'Last-Modified', lastModified.toUTCString() ],
+			[ 'Cache-Control', cacheControl ],
+			[ 'Accept-Ranges', 'bytes' ]
+		];
+
+		if (isNotModified(request, { etag, lastModified })) {
+			let response = Response.notModified();
+			response.headers.push(...headers);
+			return response;
+		}
+
+		let rangeHeader = request.headers.range;
+		let ifRange = <string>request.headers['if-range'];
+
+		if (rangeHeader && (!ifRange || ifRange === etag || ifRange === lastModified.toUTCString())) {
+			let range = parseRange(rangeHeader, stats.size);
+
+			if (range === null) {
+				throw new HttpError(416, {
+					error: 'range-not-satisfiable',
+					message: `The requested range cannot be satisfied`
+				}, [
+					[ 'Content-Range', `bytes */${stats.size}` ]
+				]);
+			}
+
+			if (range) {
+				for (let [ name, value ] of headers)
+					event.response.setHeader(name, value);
+
+				event.response.statusCode = 206;
+				event.response.setHeader('Content-Type', contentType);
+				event.response.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${stats.size}`);
+				event.response.setHeader('Content-Length', String(range.end - range.start + 1));
+
+				return fs.createReadStream(filePath, { start: range.start, end: range.end });
+			}
+		}
+
+		for (let [ name, value ] of headers)
+			event.response.setHeader(name, value);
+
+		event.response.setHeader('Content-Type', contentType);
+		event.response.setHeader('Content-Length', String(stats.size));
+
+		return fs.createReadStream(filePath);
+	}
+
+	private notFound() {
+		return new HttpError(404, { error: 'not-found', message: `The requested file does not exist` });
+	}
+}
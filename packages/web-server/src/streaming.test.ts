@@ -0,0 +1,158 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import * as http from 'http';
+import { Readable } from 'stream';
+import { Application } from '@alterior/runtime';
+import { WebService } from './service';
+import { Get } from './metadata';
+import { formatServerSentEvent, ObservableLike } from './streaming';
+import { teststrap } from './teststrap';
+
+function timeout(ms: number) {
+	return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+function observableOf<T>(...values: T[]): ObservableLike<T> {
+	return {
+		subscribe(observer) {
+			let closed = false;
+			setTimeout(() => {
+				for (let value of values) {
+					if (!closed)
+						observer.next(value);
+				}
+				if (!closed)
+					observer.complete();
+			});
+			return { unsubscribe: () => closed = true };
+		}
+	};
+}
+
+suite(describe => {
+	describe('Streaming responses', it => {
+		it('writes async iterables as NDJSON', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/export')
+				async *export() {
+					yield { id: 1 };
+					await timeout(1);
+					yield { id: 2 };
+				}
+			}
+
+			await teststrap(FakeApp)
+				.get('/export')
+				.expect('Content-Type', /^application\/x-ndjson/)
+				.expect(200, '{"id":1}\n{"id":2}\n');
+		});
+
+		it('writes Observables as NDJSON', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/export')
+				export() {
+					return observableOf({ id: 1 }, { id: 2 });
+				}
+			}
+
+			await teststrap(FakeApp)
+				.get('/export')
+				.expect('Content-Type', /^application\/x-ndjson/)
+				.expect(200, '{"id":1}\n{"id":2}\n');
+		});
+
+		it('writes Readable streams as raw bytes', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/export', { produces: [ 'text/csv' ] })
+				export() {
+					return Readable.from([ 'id\r\n', '1\r\n', Buffer.from('2\r\n') ]);
+				}
+			}
+
+			await teststrap(FakeApp)
+				.get('/export')
+				.expect('Content-Type', /^text\/csv/)
+				.expect(200, 'id\r\n1\r\n2\r\n');
+		});
+
+		it('writes server-sent events when requested', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/events', { stream: 'sse' })
+				async *events() {
+					yield { event: 'greeting', data: { message: 'hello' } };
+					yield { id: '2', data: 0 };
+				}
+			}
+
+			await teststrap(FakeApp)
+				.get('/events')
+				.expect('Content-Type', 'text/event-stream')
+				.expect(200, 'event: greeting\ndata: {"message":"hello"}\n\nid: 2\ndata: 0\n\n');
+		});
+
+		it('rejects server-sent event fields which would inject additional fields or events', () => {
+			expect(() => formatServerSentEvent({ event: 'greeting\ndata: injected', data: 1 })).to.throw();
+			expect(() => formatServerSentEvent({ id: '1\r\n\nevent: injected' })).to.throw();
+			expect(() => formatServerSentEvent({ id: '1\0' })).to.throw();
+			expect(formatServerSentEvent({ id: '1', event: 'greeting', data: 'a\nb' })).to.equal('event: greeting\nid: 1\ndata: "a\\nb"\n\n');
+		});
+
+		it('responds with an error when the producer fails before the first item', async () => {
+			@WebService({ server: { silentErrors: true } })
+			class FakeApp {
+				@Get('/export')
+				async *export() {
+					throw new Error('Nope');
+				}
+			}
+
+			await teststrap(FakeApp)
+				.get('/export')
+				.expect('Content-Type', /^application\/json/)
+				.expect(500);
+		});
+
+		it('stops the producer when the client disconnects and respects backpressure', async () => {
+			let produced = 0;
+			let finished = false;
+
+			@WebService({ server: { port: 32562, silent: true } })
+			class FakeApp {
+				@Get('/export')
+				async *export() {
+					try {
+						for (; produced < 1000; ++produced)
+							yield Buffer.alloc(64 * 1024);
+					} finally {
+						finished = true;
+					}
+				}
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true });
+
+			try {
+				let request = http.get('http://localhost:32562/export');
+				let response = await new Promise<http.IncomingMessage>(resolve => request.once('response', resolve));
+
+				// Do not read the response; the server should stop producing once the buffers are full.
+				response.pause();
+				await timeout(250);
+
+				expect(produced).to.be.lessThan(1000);
+				expect(finished).to.be.false;
+
+				request.destroy();
+				await timeout(250);
+
+				expect(finished).to.be.true;
+			} finally {
+				app.stop();
+			}
+		});
+	});
+});
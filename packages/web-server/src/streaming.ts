@@ -0,0 +1,266 @@
+import * as stream from 'stream';
+import { ServerSentEvent, WebEvent } from './metadata';
+
+/**
+ * How the items of a streamed response are written:
+ * - `ndjson`: Each item is written as a line of JSON (`application/x-ndjson`)
+ * - `sse`: Each item is a `ServerSentEvent` written as part of an event stream (`text/event-stream`)
+ * - `raw`: Each item is a string or Buffer which is written as-is
+ */
+export type StreamFormat = 'ndjson' | 'sse' | 'raw';
+
+export interface StreamOptions {
+	/**
+	 * How to write each item.
+	 */
+	format: StreamFormat;
+
+	/**
+	 * The Content-Type of the response. Ignored if the Content-Type has already been set. Defaults to a content type 
+	 * suitable for the format.
+	 */
+	contentType?: string;
+
+	/**
+	 * When writing server-sent events, how often (in milliseconds) to send a keep-alive comment while no events are
+	 * being sent. This prevents proxies and load balancers from closing idle connections. Defaults to 15 seconds. 
+	 * Set to zero to disable.
+	 */
+	keepAliveInterval?: number;
+
+	/**
+	 * When writing server-sent events, the reconnection delay (in milliseconds) to send to the client before any 
+	 * events. When not specified, the client uses its default.
+	 */
+	retry?: number;
+}
+
+/**
+ * A minimal description of an RxJS-compatible Observable. RxJS itself is not required.
+ */
+export interface ObservableLike<T> {
+	subscribe(observer: { next?: (value: T) => void, error?: (error: any) => void, complete?: () => void }): { unsubscribe(): void };
+}
+
+/**
+ * Determine whether the given value is an Observable (such as one from RxJS).
+ */
+export function isObservable(value: any): value is ObservableLike<any> {
+	return !!value && typeof value === 'object' && typeof value.subscribe === 'function';
+}
+
+/**
+ * Determine whether the given value should be streamed to the client when returned from a route method. This
+ * is true for `AsyncIterable` values (including async generators), Observables and Node.js `Readable` streams.
+ */
+export function isStreamable(value: any): boolean {
+	return !!value && typeof value === 'object' && (
+		value instanceof stream.Readable
+		|| isObservable(value)
+		|| typeof value[Symbol.asyncIterator] === 'function'
+	);
+}
+
+/**
+ * Format the given event for use within a `text/event-stream` response. The `data` field is serialized as JSON.
+ * Throws if the `event` or `id` fields contain line breaks (or `id` contains NUL), as these would allow the value to
+ * inject additional fields or events into the stream.
+ */
+export function formatServerSentEvent(event: ServerSentEvent) {
+	let lines: string[] = [];
+
+	if (event.event && /[\r\n]/.test(event.event))
+		throw new Error(`The event field of a server-sent event cannot contain line breaks`);
+	if (event.id && /[\r\n\0]/.test(String(event.id)))
+		throw new Error(`The id field of a server-sent event cannot contain line breaks or NUL`);
+
+	if (event.event)
+		lines.push(`event: ${event.event}`);
+	if (event.id)
+		lines.push(`id: ${event.id}`);
+	if (event.retry)
+		lines.push(`retry: ${event.retry}`);
+	if (event.data !== undefined)
+		lines.push(`data: ${JSON.stringify(event.data)}`);
+
+	return `${lines.join("\n")}\n\n`;
+}
+
+/**
+ * Adapt an Observable to an AsyncIterator. Observables cannot be paused, so values are buffered until they are
+ * consumed. Ending the iteration early (via `return()`) unsubscribes from the Observable.
+ */
+function observableIterator<T>(observable: ObservableLike<T>): AsyncIterator<T> {
+	let buffer: T[] = [];
+	let finished = false;
+	let failed = false;
+	let error: any;
+	let waiting: { resolve: (result: IteratorResult<T>) => void, reject: (error: any) => void };
+
+	let settle = () => {
+		if (!waiting)
+			return;
+
+		let { resolve, reject } = waiting;
+
+		if (buffer.length > 0) {
+			waiting = undefined;
+			resolve({ value: buffer.shift(), done: false });
+		} else if (failed) {
+			waiting = undefined;
+			reject(error);
+		} else if (finished) {
+			waiting = undefined;
+			resolve({ value: undefined, done: true });
+		}
+	};
+
+	let subscription = observable.subscribe({
+		next: value => (buffer.push(value), settle()),
+		error: e => (failed = true, error = e, settle()),
+		complete: () => (finished = true, settle())
+	});
+
+	return {
+		next() {
+			return new Promise<IteratorResult<T>>((resolve, reject) => {
+				waiting = { resolve, reject };
+				settle();
+			});
+		},
+		async return() {
+			finished = true;
+			buffer = [];
+			subscription.unsubscribe();
+			settle();
+			return { value: undefined, done: true };
+		}
+	};
+}
+
+function streamIterator(source: any): AsyncIterator<any> {
+	if (isObservable(source))
+		return observableIterator(source);
+	return source[Symbol.asyncIterator]();
+}
+
+function encodeItem(item: any, format: StreamFormat): string | Buffer | Uint8Array {
+	if (format === 'ndjson')
+		return `${JSON.stringify(item ?? null)}\n`;
+	else if (format === 'sse')
+		return formatServerSentEvent(item ?? {});
+
+	if (typeof item === 'string' || item instanceof Uint8Array)
+		return item;
+
+	throw new Error(`Cannot write a raw stream item of type ${item?.constructor?.name ?? typeof item}: Only strings and Buffers are supported`);
+}
+
+const DEFAULT_CONTENT_TYPES: Record<StreamFormat, string> = {
+	ndjson: 'application/x-ndjson; charset=utf-8',
+	sse: 'text/event-stream',
+	raw: 'application/octet-stream'
+};
+
+/**
+ * Write the items produced by the given `AsyncIterable`, Observable or `Readable` to the response of the given
+ * event in the format given by the options. Writes respect backpressure: the next item is not requested until the 
+ * client has caught up. When the client disconnects, the producer is stopped (async iterators are returned, 
+ * Observables are unsubscribed and streams are destroyed).
+ *
+ * Resolves once the stream is complete, the client has disconnected or the server has begun shutting down. Rejects 
+ * if the producer fails. For HEAD requests, only the headers are sent.
+ *
+ * @param event The event whose response should be written
+ * @param source The producer of items
+ * @param options
+ */
+export async function sendStream(event: WebEvent, source: any, options: StreamOptions) {
+	let response = event.response;
+	let format = options.format;
+
+	if (!response.getHeader('Content-Type'))
+		response.setHeader('Content-Type', options.contentType ?? DEFAULT_CONTENT_TYPES[format]);
+
+	// HEAD requests receive the headers only, so the producer is never started
+
+	if (event.request.method === 'HEAD') {
+		if (source instanceof stream.Readable)
+			source.destroy();
+		response.end();
+		return;
+	}
+
+	let iterator = streamIterator(source);
+	let completed = false;
+
+	// When the response is compressed, each item must be flushed so that it reaches the client immediately
+
+	let flush = () => format !== 'raw' && (<any>response).flush?.();
+	let keepAliveTimer: ReturnType<typeof setInterval>;
+	let lastWrite = Date.now();
+
+	const CLOSED = Symbol();
+	let closed = new Promise<typeof CLOSED>(resolve => {
+		if (!event.connected || response.destroyed)
+			resolve(CLOSED);
+		response.once('close', () => resolve(CLOSED));
+
+		// End the response when the server shuts down, so that clients reconnect elsewhere
+
+		event.server?.stopping.then(() => resolve(CLOSED));
+	});
+
+	if (format === 'sse') {
+		response.setHeader('Cache-Control', 'no-cache');
+		response.flushHeaders();
+
+		if (options.retry) {
+			response.write(`retry: ${options.retry}\n\n`);
+			flush();
+		}
+
+		let keepAliveInterval = options.keepAliveInterval ?? 15_000;
+
+		if (keepAliveInterval > 0) {
+			keepAliveTimer = setInterval(() => {
+				if (Date.now() - lastWrite >= keepAliveInterval && !response.writableEnded) {
+					response.write(`: keep-alive\n\n`);
+					flush();
+				}
+			}, keepAliveInterval);
+		}
+	}
+
+	try {
+		while (event.connected) {
+			let result = await Promise.race([ iterator.next(), closed ]);
+			if (result === CLOSED)
+				break;
+
+			if (result.done) {
+				completed = true;
+				break;
+			}
+
+			lastWrite = Date.now();
+			let written = response.write(encodeItem(result.value, format));
+			flush();
+
+			if (!written) {
+				if (await Promise.race([ new Promise<void>(resolve => response.once('drain', resolve)), closed ]) === CLOSED)
+					break;
+			}
+		}
+	} finally {
+		clearInterval(keepAliveTimer);
+
+		if (!completed && iterator.return) {
+			// The producer may be busy producing the next item, so we cannot wait for it to acknowledge.
+			Promise.resolve(iterator.return()).catch(() => {});
+		}
+	}
+
+	if (!response.writableEnded)
+		response.end();
+}
@@ -20,8 +20,7 @@ export class TestWebServerEngine extends WebServerEngine {
 
 	sendJsonBody(routeEvent : WebEvent, body : any) {
 		routeEvent.response.setHeader('Content-Type', 'application/json; charset=utf-8');
-		routeEvent.response.write(JSON.stringify(body))
-		routeEvent.response.end();
+		routeEvent.response.end(JSON.stringify(body));
 	}
 	
 	private getRegistrarName(method : string) {
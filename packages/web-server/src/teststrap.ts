@@ -19,7 +19,8 @@ export function teststrap(module : Function, options? : WebServerOptions) {
 
         let app = await Application.bootstrap(EntryModule, { 
             autostart: false,
-            silent: true
+            silent: true,
+            shutdownSignals: false
         });
         
         let server = WebServer.for(app.injector.get(module));
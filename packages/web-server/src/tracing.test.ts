@@ -0,0 +1,103 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import { Application, InMemorySpanExporter, SPAN_EXPORTERS, Tracer } from '@alterior/runtime';
+import { Get } from './metadata';
+import { PathParam } from './input';
+import { WebService } from './service';
+import * as fetch from 'node-fetch';
+
+suite(describe => {
+	describe('Tracing', it => {
+		it('continues incoming traces with route, middleware and interceptor spans', async () => {
+			let exporter = new InMemorySpanExporter();
+			let currentTraceId: string;
+
+			function auditLog(req, res, next) {
+				next();
+			}
+
+			function timing(method, ...args) {
+				return method(...args);
+			}
+
+			@WebService({
+				server: { port: 32596, silent: true },
+				providers: [ { provide: SPAN_EXPORTERS, useValue: exporter, multi: true } ]
+			})
+			class FakeApp {
+				@Get('/things/:id', { middleware: [ auditLog ], interceptors: [ timing ] })
+				thing(@PathParam('id') id: string) {
+					currentTraceId = Tracer.currentSpan?.traceId;
+					return { id };
+				}
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true, shutdownSignals: false });
+
+			try {
+				let response = await fetch('http://localhost:32596/things/1', {
+					headers: {
+						traceparent: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01',
+						tracestate: 'vendor=value'
+					}
+				});
+
+				expect(response.status).to.equal(200);
+
+				let server = exporter.spans.find(x => x.kind === 'server');
+				expect(server.name).to.equal('GET /things/:id');
+				expect(server.traceId).to.equal('0af7651916cd43dd8448eb211c80319c');
+				expect(server.parentSpanId).to.equal('b7ad6b7169203331');
+				expect(server.context.traceState).to.equal('vendor=value');
+				expect(server.attributes['http.status_code']).to.equal(200);
+				expect(currentTraceId).to.equal(server.traceId);
+
+				let middleware = exporter.spans.find(x => x.name === 'middleware auditLog');
+				let interceptor = exporter.spans.find(x => x.name === 'interceptor timing');
+				expect(middleware.parentSpanId).to.equal(server.spanId);
+				expect(interceptor.parentSpanId).to.equal(server.spanId);
+			} finally {
+				await app.stop();
+			}
+		});
+
+		it('starts a new trace when no valid traceparent is received, and propagates it via clientFor()', async () => {
+			let exporter = new InMemorySpanExporter();
+
+			@WebService({
+				server: { port: 32597, silent: true },
+				providers: [ { provide: SPAN_EXPORTERS, useValue: exporter, multi: true } ]
+			})
+			class FakeApp {
+				@Get('/inner')
+				inner() {
+					return { traceId: Tracer.currentSpan.traceId };
+				}
+
+				@Get('/outer')
+				async outer() {
+					return await WebService.clientFor(FakeApp, 'http://localhost:32597').inner();
+				}
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true, shutdownSignals: false });
+
+			try {
+				let response = await fetch('http://localhost:32597/outer', { headers: { traceparent: 'garbage' } });
+				let body = await response.json();
+
+				let outer = exporter.spans.find(x => x.name === 'GET /outer');
+				let client = exporter.spans.find(x => x.kind === 'client');
+				let inner = exporter.spans.find(x => x.name === 'GET /inner');
+
+				expect(outer.parentSpanId).to.be.undefined;
+				expect(body.traceId).to.equal(outer.traceId);
+				expect(client.parentSpanId).to.equal(outer.spanId);
+				expect(inner.traceId).to.equal(outer.traceId);
+				expect(inner.parentSpanId).to.equal(client.spanId);
+			} finally {
+				await app.stop();
+			}
+		});
+	});
+});
@@ -0,0 +1,184 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WebService } from './service';
+import { Post } from './metadata';
+import { Body, UploadedFile, UploadedFiles } from './input';
+import { FileUpload } from './upload';
+import { teststrap } from './teststrap';
+
+suite(describe => {
+	describe('UploadedFile', it => {
+		it('receives a file and the non-file fields in memory', async () => {
+			let observedFile: FileUpload;
+			let observedBody: any;
+
+			@WebService()
+			class FakeApp {
+				@Post('/upload')
+				upload(@UploadedFile('avatar') avatar: FileUpload, @Body() body: any) {
+					observedFile = avatar;
+					observedBody = body;
+					return { ok: true };
+				}
+			}
+
+			await teststrap(FakeApp)
+				.post('/upload')
+				.field('caption', 'Hello')
+				.attach('avatar', Buffer.from('abc123'), { filename: 'avatar.png', contentType: 'image/png' })
+				.expect(200, { ok: true });
+
+			expect(observedFile.name).to.equal('avatar.png');
+			expect(observedFile.mimetype).to.equal('image/png');
+			expect(observedFile.fieldName).to.equal('avatar');
+			expect(observedFile.size).to.equal(6);
+			expect(observedFile.data.toString()).to.equal('abc123');
+			expect(observedBody).to.eql({ caption: 'Hello' });
+		});
+
+		it('receives multiple files', async () => {
+			let observedAll: FileUpload[];
+			let observedDocs: FileUpload[];
+
+			@WebService()
+			class FakeApp {
+				@Post('/upload')
+				upload(@UploadedFiles() all: FileUpload[], @UploadedFiles('docs') docs: FileUpload[]) {
+					observedAll = all;
+					observedDocs = docs;
+				}
+			}
+
+			await teststrap(FakeApp)
+				.post('/upload')
+				.attach('docs', Buffer.from('one'), 'one.txt')
+				.attach('docs', Buffer.from('two'), 'two.txt')
+				.attach('other', Buffer.from('three'), 'three.txt')
+				.expect(204);
+
+			expect(observedAll.map(x => x.name)).to.eql(['one.txt', 'two.txt', 'three.txt']);
+			expect(observedDocs.map(x => x.name)).to.eql(['one.txt', 'two.txt']);
+		});
+
+		it('streams files to temporary files when requested', async () => {
+			let destination = path.join(os.tmpdir(), `alterior-upload-test-${Date.now()}`);
+			let tempFilePath: string;
+
+			@WebService()
+			class FakeApp {
+				@Post('/upload')
+				async upload(@UploadedFile('doc', { storage: 'temp' }) doc: FileUpload) {
+					tempFilePath = doc.tempFilePath;
+					expect(doc.data.length).to.equal(0);
+					expect(fs.readFileSync(doc.tempFilePath).toString()).to.equal('contents');
+					await new Promise<void>((resolve, reject) => doc.mv(destination, err => err ? reject(err) : resolve()));
+				}
+			}
+
+			try {
+				await teststrap(FakeApp)
+					.post('/upload')
+					.attach('doc', Buffer.from('contents'), 'doc.txt')
+					.expect(204);
+
+				expect(fs.existsSync(tempFilePath)).to.be.false;
+				expect(fs.readFileSync(destination).toString()).to.equal('contents');
+			} finally {
+				if (fs.existsSync(destination))
+					fs.unlinkSync(destination);
+			}
+		});
+
+		it('responds with 413 when a file is too large', async () => {
+			let executed = false;
+
+			@WebService({ server: { silentErrors: true } })
+			class FakeApp {
+				@Post('/upload')
+				upload(@UploadedFile('doc', { maxFileSize: 4 }) doc: FileUpload) {
+					executed = true;
+				}
+			}
+
+			await teststrap(FakeApp)
+				.post('/upload')
+				.attach('doc', Buffer.from('too large'), 'doc.txt')
+				.expect(413);
+
+			expect(executed).to.be.false;
+		});
+
+		it('removes temporary files when the upload is rejected', async () => {
+			let directory = fs.mkdtempSync(path.join(os.tmpdir(), 'alterior-upload-test-'));
+
+			@WebService({ server: { silentErrors: true } })
+			class FakeApp {
+				@Post('/upload')
+				upload(@UploadedFile('doc', { storage: 'temp', tempDirectory: directory, maxFileSize: 4 }) doc: FileUpload) {
+				}
+			}
+
+			try {
+				await teststrap(FakeApp)
+					.post('/upload')
+					.attach('doc', Buffer.from('too large'), 'doc.txt')
+					.expect(413);
+
+				await new Promise(resolve => setTimeout(resolve, 10));
+				expect(fs.readdirSync(directory)).to.eql([]);
+			} finally {
+				fs.rmSync(directory, { recursive: true, force: true });
+			}
+		});
+
+		it('responds with 413 when there are too many files', async () => {
+			@WebService({ server: { silentErrors: true } })
+			class FakeApp {
+				@Post('/upload')
+				upload(@UploadedFiles(undefined, { maxFiles: 1 }) docs: FileUpload[]) {
+				}
+			}
+
+			await teststrap(FakeApp)
+				.post('/upload')
+				.attach('doc', Buffer.from('one'), 'one.txt')
+				.attach('doc', Buffer.from('two'), 'two.txt')
+				.expect(413);
+		});
+
+		it('responds with 415 when the body is not multipart', async () => {
+			@WebService({ server: { silentErrors: true } })
+			class FakeApp {
+				@Post('/upload')
+				upload(@UploadedFile('doc') doc: FileUpload) {
+				}
+			}
+
+			await teststrap(FakeApp)
+				.post('/upload')
+				.send({ doc: 'nope' })
+				.expect(415);
+		});
+	});
+
+	describe('Body', it => {
+		it('parses URL-encoded forms with format: form', async () => {
+			@WebService()
+			class FakeApp {
+				@Post('/form')
+				submit(@Body({ format: 'form' }) body: any) {
+					return body;
+				}
+			}
+
+			await teststrap(FakeApp)
+				.post('/form')
+				.type('form')
+				.send('name=Alice&tags[]=a&tags[]=b')
+				.expect(200, { name: 'Alice', tags: ['a', 'b'] });
+		});
+	});
+});
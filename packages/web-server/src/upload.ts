@@ -1,8 +1,258 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import * as uuid from 'uuid';
+import busboy from 'busboy';
+import { HttpError } from '@alterior/common';
+import { ConnectMiddleware } from './web-server-engine';
 
 export interface FileUpload {
-	mv(destinationFile, callback : (err) => void);
+	/**
+	 * Move (or write) the uploaded file to the given location. Returns a promise which resolves once the move is
+	 * complete. The callback (if provided) is also called.
+	 */
+	mv(destinationFile, callback? : (err) => void): Promise<void>;
+
+	/**
+	 * The file name provided by the client.
+	 */
 	name : string;
+
+	/**
+	 * The contents of the file. Empty when the file was stored in a temporary file (see `tempFilePath`).
+	 */
 	data : Buffer;
 	encoding : string;
 	mimetype : string;
-} 
+
+	/**
+	 * The name of the form field which contained the file.
+	 */
+	fieldName? : string;
+
+	/**
+	 * The size of the file in bytes.
+	 */
+	size? : number;
+
+	/**
+	 * When using `storage: 'temp'`, the location of the temporary file holding the contents of the upload. The
+	 * temporary file is removed once the response is finished unless it has been moved using `mv()`.
+	 */
+	tempFilePath? : string;
+}
+
+export interface UploadOptions {
+	/**
+	 * Where to store the contents of uploaded files while handling the request. When 'memory' (the default), the
+	 * contents are available via `FileUpload.data`. When 'temp', the contents are streamed to a temporary file
+	 * (see `FileUpload.tempFilePath`).
+	 */
+	storage? : 'memory' | 'temp';
+
+	/**
+	 * The directory to use for temporary files when `storage` is 'temp'. Defaults to the operating system's
+	 * temporary directory.
+	 */
+	tempDirectory? : string;
+
+	/**
+	 * The maximum size of each file in bytes. Larger files cause the request to fail with 413 Payload Too Large.
+	 * Defaults to 10MB.
+	 */
+	maxFileSize? : number;
+
+	/**
+	 * The maximum number of files. Additional files cause the request to fail with 413 Payload Too Large.
+	 */
+	maxFiles? : number;
+
+	/**
+	 * The maximum number of non-file fields. Additional fields cause the request to fail with 413 Payload Too Large.
+	 */
+	maxFields? : number;
+
+	/**
+	 * The maximum size of each non-file field value in bytes. Defaults to 1MB.
+	 */
+	maxFieldSize? : number;
+}
+
+class ReceivedFile implements FileUpload {
+	constructor(
+		readonly fieldName : string,
+		readonly name : string,
+		readonly encoding : string,
+		readonly mimetype : string
+	) {
+	}
+
+	data : Buffer = Buffer.alloc(0);
+	size = 0;
+	tempFilePath? : string;
+
+	mv(destinationFile : string, callback? : (err) => void): Promise<void> {
+		let promise = this.move(destinationFile);
+		if (callback)
+			promise.then(() => callback(null), err => callback(err));
+		return promise;
+	}
+
+	private async move(destinationFile : string) {
+		if (!this.tempFilePath) {
+			await fs.promises.writeFile(destinationFile, this.data);
+			return;
+		}
+
+		try {
+			await fs.promises.rename(this.tempFilePath, destinationFile);
+		} catch (e) {
+			if (e.code !== 'EXDEV')
+				throw e;
+
+			// Cannot rename across devices
+			await fs.promises.copyFile(this.tempFilePath, destinationFile);
+			await fs.promises.unlink(this.tempFilePath);
+		}
+
+		this.tempFilePath = undefined;
+	}
+}
+
+function payloadTooLarge(message : string) {
+	return new HttpError(413, { error: 'payload-too-large', message });
+}
+
+/**
+ * Produce a middleware which parses `multipart/form-data` request bodies. Non-file fields are placed into
+ * `request.body` and files are placed into `request.files` as an array of `FileUpload`.
+ *
+ * @param options
+ */
+export function multipartParser(options : UploadOptions = {}): ConnectMiddleware {
+	let maxFileSize = options.maxFileSize ?? 10 * 1024 * 1024;
+
+	return (req : http.IncomingMessage, res : http.ServerResponse, next : (err? : any) => void) => {
+		if (req['files']) {
+			next();
+			return;
+		}
+
+		let contentType = req.headers['content-type'] ?? '';
+		if (!/^multipart\/form-data/i.test(contentType)) {
+			next(new HttpError(415, {
+				error: 'unsupported-media-type',
+				message: `Expected a multipart/form-data request body`
+			}));
+			return;
+		}
+
+		let parser : busboy.Busboy;
+
+		try {
+			parser = busboy({
+				headers: req.headers,
+				limits: {
+					fileSize: maxFileSize,
+					files: options.maxFiles,
+					fields: options.maxFields,
+					fieldSize: options.maxFieldSize ?? 1024 * 1024
+				}
+			});
+		} catch (e) {
+			next(new HttpError(400, { error: 'invalid-request', message: e.message }));
+			return;
+		}
+
+		let fields : Record<string, any> = {};
+		let files : ReceivedFile[] = [];
+		let pendingWrites : Promise<void>[] = [];
+		let outputs : fs.WriteStream[] = [];
+		let failed = false;
+
+		let cleanup = () => {
+			for (let output of outputs)
+				output.destroy();
+
+			for (let file of files) {
+				if (file.tempFilePath)
+					fs.unlink(file.tempFilePath, () => {});
+			}
+		};
+
+		let fail = (error : any) => {
+			if (failed)
+				return;
+
+			failed = true;
+			req.unpipe(parser);
+			req.resume();
+			cleanup();
+			next(error);
+		};
+
+		res.once('close', cleanup);
+
+		parser.on('field', (name, value, info) => {
+			if (info.valueTruncated) {
+				fail(payloadTooLarge(`Field '${name}' exceeds the maximum size of ${options.maxFieldSize ?? 1024 * 1024} bytes`));
+				return;
+			}
+
+			if (name in fields)
+				fields[name] = [].concat(fields[name], value);
+			else
+				fields[name] = value;
+		});
+
+		parser.on('file', (fieldName, stream, info) => {
+			let file = new ReceivedFile(fieldName, info.filename, info.encoding, info.mimeType);
+			files.push(file);
+
+			stream.on('limit', () => {
+				fail(payloadTooLarge(`File '${info.filename}' exceeds the maximum size of ${maxFileSize} bytes`));
+			});
+
+			if (options.storage === 'temp') {
+				file.tempFilePath = path.join(options.tempDirectory ?? os.tmpdir(), `alterior-upload-${uuid.v4()}`);
+				let output = fs.createWriteStream(file.tempFilePath);
+				outputs.push(output);
+				stream.on('data', chunk => file.size += chunk.length);
+				pendingWrites.push(new Promise<void>((resolve, reject) => {
+					output.on('finish', resolve);
+					output.on('error', reject);
+				}));
+				stream.pipe(output);
+			} else {
+				let chunks : Buffer[] = [];
+				stream.on('data', chunk => {
+					chunks.push(chunk);
+					file.size += chunk.length;
+				});
+				stream.on('end', () => file.data = Buffer.concat(chunks));
+			}
+		});
+
+		parser.on('filesLimit', () => fail(payloadTooLarge(`Too many files (maximum is ${options.maxFiles})`)));
+		parser.on('fieldsLimit', () => fail(payloadTooLarge(`Too many fields (maximum is ${options.maxFields})`)));
+		parser.on('error', (e : Error) => fail(new HttpError(400, { error: 'invalid-request', message: e.message })));
+		parser.on('close', async () => {
+			if (failed)
+				return;
+
+			try {
+				await Promise.all(pendingWrites);
+			} catch (e) {
+				fail(e);
+				return;
+			}
+
+			req['body'] = fields;
+			req['files'] = files;
+			next();
+		});
+
+		req.pipe(parser);
+	};
+}
@@ -4,4 +4,42 @@ export function ellipsize(maxLength: number, str: string): string {
 		return str.slice(0, maxLength) + '...';
 
 	return str;  
-}
\ No newline at end of file
+}
+/**
+ * Add the given field names to the `Vary` header of the response, preserving any which are already present.
+ */
+export function appendVary(response: { getHeader(name: string): any, setHeader(name: string, value: any): any }, ...fields: string[]) {
+	let existing = String(response.getHeader('Vary') ?? '')
+		.split(',')
+		.map(x => x.trim())
+		.filter(x => x);
+
+	for (let field of fields) {
+		if (!existing.some(x => x.toLowerCase() === field.toLowerCase() || x === '*'))
+			existing.push(field);
+	}
+
+	response.setHeader('Vary', existing.join(', '));
+}
+
+/**
+ * Produce a RegExp which matches the request paths served by the given route path (ie `/users/:id`). Path parameters
+ * match a single segment, `*` matches anything, and a trailing slash is optional. Matching is case-insensitive, as
+ * it is when routing.
+ */
+export function pathPattern(path: string): RegExp {
+	let source = path
+		.replace(/\/+$/, '')
+		.split(/(:[A-Za-z0-9_]+\??|\*)/)
+		.map(part => {
+			if (part === '*')
+				return '.*';
+			if (part.startsWith(':'))
+				return part.endsWith('?') ? '[^/]*' : '[^/]+';
+			return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		})
+		.join('')
+	;
+
+	return new RegExp(`^${source}/?$`, 'i');
+}
@@ -0,0 +1,177 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import { ArrayOf, Max, MaxLength, Min, MinLength, OneOf, Pattern, Required, validate } from './validation';
+import { WebService } from './service';
+import { Get, Post } from './metadata';
+import { Body, QueryParam, QueryParams } from './input';
+import { teststrap } from './teststrap';
+
+enum Color {
+	Red,
+	Green
+}
+
+class AddressDto {
+	@Required() street: string;
+	@Pattern(/^[0-9]{5}$/) zip: string;
+}
+
+class TagDto {
+	@Required() @MinLength(1) name: string;
+}
+
+class PersonDto {
+	@Required() @MinLength(2) @MaxLength(10) name: string;
+	@Min(0) @Max(150) age: number;
+	@OneOf(['admin', 'user']) role: string;
+	@OneOf(Color) color: Color;
+	@Required() address: AddressDto;
+	@ArrayOf(TagDto, { maxItems: 2 }) tags: TagDto[];
+}
+
+suite(describe => {
+	describe('validate()', it => {
+		it('accepts a valid value', () => {
+			let failures = validate(PersonDto, {
+				name: 'Alice',
+				age: 30,
+				role: 'admin',
+				color: Color.Green,
+				address: { street: 'Main St', zip: '12345' },
+				tags: [{ name: 'a' }]
+			});
+
+			expect(failures).to.eql([]);
+		});
+
+		it('reports every failing field path', () => {
+			let failures = validate(PersonDto, {
+				name: 'A',
+				age: 200,
+				role: 'root',
+				color: 'Red',
+				address: { zip: 'abc' },
+				tags: [{ name: 'a' }, {}, { name: 'c' }]
+			});
+
+			expect(failures.map(x => x.path)).to.eql([
+				'name', 'age', 'role', 'color', 'address.street', 'address.zip', 'tags', 'tags[1].name'
+			]);
+		});
+
+		it('reports missing required nested objects', () => {
+			let failures = validate(PersonDto, { name: 'Alice' });
+			expect(failures).to.eql([{ path: 'address', message: 'address is required' }]);
+		});
+
+		it('rejects values of the wrong type', () => {
+			let failures = validate(PersonDto, { name: 123, age: 'old', address: 'nowhere' });
+			expect(failures.map(x => x.message)).to.eql([
+				'name must be a string', 'age must be a number', 'address must be an object'
+			]);
+		});
+
+		it('coerces strings when requested', () => {
+			let value: any = { name: 'Alice', age: '30', address: { street: 'Main St' } };
+			let failures = validate(PersonDto, value, { coerce: true });
+			expect(failures).to.eql([]);
+			expect(value.age).to.equal(30);
+		});
+	});
+
+	describe('Route validation', it => {
+		it('responds with 400 listing every failing field of a @Body()', async () => {
+			let executed = false;
+
+			@WebService()
+			class FakeApp {
+				@Post('/people')
+				create(@Body() person: PersonDto) {
+					executed = true;
+				}
+			}
+
+			let response = await teststrap(FakeApp)
+				.post('/people')
+				.send({ name: 'A', address: {} })
+				.expect(400);
+
+			expect(executed).to.be.false;
+			expect(response.body.error).to.equal('invalid-request');
+			expect(response.body.errors).to.eql([
+				{ path: 'name', message: 'name must be at least 2 characters long' },
+				{ path: 'address.street', message: 'address.street is required' }
+			]);
+		});
+
+		it('reports rejected requests to the onError server option', async () => {
+			let errors = [];
+
+			@WebService({ server: { onError: error => errors.push(error) } })
+			class FakeApp {
+				@Post('/people')
+				create(@Body() person: PersonDto) {
+				}
+			}
+
+			await teststrap(FakeApp)
+				.post('/people')
+				.send({ name: 'A', address: {} })
+				.expect(400);
+
+			expect(errors.length).to.equal(1);
+			expect(errors[0].statusCode).to.equal(400);
+		});
+
+		it('passes a valid @Body() through to the method', async () => {
+			@WebService()
+			class FakeApp {
+				@Post('/people')
+				create(@Body() person: PersonDto) {
+					return person.name;
+				}
+			}
+
+			await teststrap(FakeApp)
+				.post('/people')
+				.send({ name: 'Alice', address: { street: 'Main St' } })
+				.expect(200, '"Alice"');
+		});
+
+		it('applies constraints declared on a @QueryParam()', async () => {
+			@WebService()
+			class FakeApp {
+				@Get('/search')
+				search(@QueryParam('limit') @Required() @Max(50) limit: number) {
+					return limit;
+				}
+			}
+
+			await teststrap(FakeApp).get('/search?limit=10').expect(200, '10');
+			await teststrap(FakeApp).get('/search').expect(400, {
+				error: 'invalid-request',
+				message: 'limit is required',
+				errors: [{ path: 'limit', message: 'limit is required' }]
+			});
+			await teststrap(FakeApp).get('/search?limit=100').expect(400);
+		});
+
+		it('coerces and validates a @QueryParams() DTO', async () => {
+			class SearchQuery {
+				@Required() q: string;
+				@Min(1) page: number;
+			}
+
+			@WebService()
+			class FakeApp {
+				@Get('/search')
+				search(@QueryParams() query: SearchQuery) {
+					return query;
+				}
+			}
+
+			await teststrap(FakeApp).get('/search?q=foo&page=2').expect(200, { q: 'foo', page: 2 });
+			await teststrap(FakeApp).get('/search?page=0').expect(400);
+		});
+	});
+});
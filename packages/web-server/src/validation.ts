@@ -0,0 +1,363 @@
+import { Annotation, Annotations, IAnnotation, MetadataName } from "@alterior/annotations";
+
+export interface ConstraintOptions {
+	/**
+	 * The value must be present (not `undefined` or `null`).
+	 */
+	required?: boolean;
+
+	/**
+	 * The value must be a number greater than or equal to this value.
+	 */
+	min?: number;
+
+	/**
+	 * The value must be a number less than or equal to this value.
+	 */
+	max?: number;
+
+	/**
+	 * The value must be a string with at least this many characters.
+	 */
+	minLength?: number;
+
+	/**
+	 * The value must be a string with at most this many characters.
+	 */
+	maxLength?: number;
+
+	/**
+	 * The value must be a string which matches this regular expression.
+	 */
+	pattern?: RegExp;
+
+	/**
+	 * The value must be one of the given values.
+	 */
+	enum?: any[];
+
+	/**
+	 * The value must be an array with at least this many items.
+	 */
+	minItems?: number;
+
+	/**
+	 * The value must be an array with at most this many items.
+	 */
+	maxItems?: number;
+
+	/**
+	 * Override the type of the value. Normally the type is determined from the design type emitted by Typescript.
+	 * Useful when the declared type is an interface or a union.
+	 */
+	type?: Function;
+
+	/**
+	 * The value must be an array where each item is of the given type. Classes are validated recursively.
+	 */
+	items?: Function;
+
+	/**
+	 * Replaces the message produced when any constraint in this annotation fails.
+	 */
+	message?: string;
+}
+
+/**
+ * Attached to properties of a DTO class (or to route method parameters) to declare constraints which must be
+ * satisfied by incoming values.
+ */
+@MetadataName('@alterior/web-server:Constraint')
+export class ConstraintAnnotation extends Annotation {
+	constructor(options: ConstraintOptions) {
+		super(options);
+	}
+
+	required?: boolean;
+	min?: number;
+	max?: number;
+	minLength?: number;
+	maxLength?: number;
+	pattern?: RegExp;
+	enum?: any[];
+	minItems?: number;
+	maxItems?: number;
+	type?: Function;
+	items?: Function;
+	message?: string;
+}
+
+/**
+ * Represents a single failed constraint found while validating a value.
+ */
+export interface ValidationFailure {
+	/**
+	 * The path to the offending field, ie `address.street` or `items[2].name`.
+	 */
+	path: string;
+	message: string;
+}
+
+export interface ValidationOptions {
+	/**
+	 * The path of the value being validated. Used as the prefix for failure paths.
+	 */
+	path?: string;
+
+	/**
+	 * When true, string values are converted to the expected scalar type (Number, Boolean, Date) before
+	 * validation. The conversion is applied to the value in place. Useful for values which arrive as strings, such
+	 * as query parameters.
+	 */
+	coerce?: boolean;
+}
+
+/**
+ * Apply the given constraints to a DTO property or route method parameter.
+ */
+export function Constraint(options: ConstraintOptions) {
+	return ConstraintAnnotation.decorator({
+		validTargets: ['property', 'parameter'],
+		allowMultiple: true
+	})(options);
+}
+
+/**
+ * The value must be present (not `undefined` or `null`).
+ */
+export function Required() { return Constraint({ required: true }); }
+
+/**
+ * The value must be a number greater than or equal to the given value.
+ */
+export function Min(min: number) { return Constraint({ min }); }
+
+/**
+ * The value must be a number less than or equal to the given value.
+ */
+export function Max(max: number) { return Constraint({ max }); }
+
+/**
+ * The value must be a string with at least the given number of characters.
+ */
+export function MinLength(minLength: number) { return Constraint({ minLength }); }
+
+/**
+ * The value must be a string with at most the given number of characters.
+ */
+export function MaxLength(maxLength: number) { return Constraint({ maxLength }); }
+
+/**
+ * The value must be a string which matches the given regular expression.
+ */
+export function Pattern(pattern: RegExp) { return Constraint({ pattern }); }
+
+/**
+ * The value must be one of the given values. Typescript enums can be passed directly.
+ */
+export function OneOf(values: any[] | object) {
+	return Constraint({ enum: Array.isArray(values) ? values : enumValues(values) });
+}
+
+/**
+ * The value must be an array where each item is of the given type. When the type is a class, each item is
+ * validated against the constraints declared on that class.
+ */
+export function ArrayOf(items: Function, options?: Pick<ConstraintOptions, 'minItems' | 'maxItems'>) {
+	return Constraint({ items, ...(options ?? {}) });
+}
+
+/**
+ * Validate the value as the given type. Use this when the declared type of the property does not survive
+ * reflection, such as when it is an interface or a union including a class.
+ */
+export function ValidateAs(type: Function) {
+	return Constraint({ type });
+}
+
+/**
+ * Typescript numeric enums contain reverse mappings (value -> name), which should not be considered valid values.
+ */
+function enumValues(enumObject: object) {
+	let values = Object.keys(enumObject).map(key => enumObject[key]);
+	let hasNumbers = values.some(x => typeof x === 'number');
+	return hasNumbers ? values.filter(x => typeof x === 'number') : values;
+}
+
+const SCALAR_TYPES: Function[] = [ String, Number, Boolean, Date, Object, Array, Function ];
+
+/**
+ * Retrieve the properties of the given class which have constraints, along with the merged constraints
+ * for each. Includes properties inherited from superclasses.
+ */
+export function getConstrainedProperties(type: Function): Record<string, ConstraintOptions> {
+	if (!type || SCALAR_TYPES.includes(type))
+		return {};
+
+	let map = Annotations.getMapForClassProperties(type.prototype);
+	let properties: Record<string, ConstraintOptions> = {};
+
+	for (let key of Object.keys(map)) {
+		let constraints = ConstraintAnnotation.filter(map[key]);
+		if (constraints.length === 0)
+			continue;
+
+		properties[key] = mergeConstraints(constraints, Reflect.getMetadata('design:type', type.prototype, key));
+	}
+
+	return properties;
+}
+
+/**
+ * Determine whether the given class declares any constraints on its properties.
+ */
+export function hasConstraints(type: Function) {
+	return Object.keys(getConstrainedProperties(type)).length > 0;
+}
+
+/**
+ * Merge a set of constraint annotations into a single set of constraints. The given design type is used as the
+ * type unless one of the annotations overrides it.
+ */
+export function mergeConstraints(annotations: IAnnotation[], designType?: Function): ConstraintOptions {
+	let merged: ConstraintOptions = { type: designType };
+
+	for (let annotation of ConstraintAnnotation.filter(annotations)) {
+		for (let key of Object.keys(annotation)) {
+			if (key === '$metadataName' || annotation[key] === undefined)
+				continue;
+			merged[key] = annotation[key];
+		}
+	}
+
+	return merged;
+}
+
+/**
+ * Validate the given value against the constraints declared on the given class. Returns the list of failures,
+ * which is empty when the value is valid.
+ */
+export function validate(type: Function, value: any, options?: ValidationOptions): ValidationFailure[] {
+	return validateValue({ type, required: true }, value, options?.path ?? '', options?.coerce ?? false);
+}
+
+/**
+ * Validate the given value against the given constraints. Returns the list of failures, which is empty when the
+ * value is valid.
+ */
+export function validateConstraints(constraints: ConstraintOptions, value: any, options?: ValidationOptions): ValidationFailure[] {
+	return validateValue(constraints, value, options?.path ?? '', options?.coerce ?? false);
+}
+
+function joinPath(path: string, key: string | number) {
+	if (typeof key === 'number')
+		return `${path}[${key}]`;
+	return path ? `${path}.${key}` : key;
+}
+
+function coerceValue(type: Function, value: any) {
+	if (typeof value !== 'string')
+		return value;
+
+	if (type === Number) {
+		let number = Number(value);
+		return value.trim() === '' || isNaN(number) ? value : number;
+	} else if (type === Boolean) {
+		return !['', 'no', '0', 'false', 'off'].includes(value.toLowerCase());
+	} else if (type === Date) {
+		let date = new Date(value);
+		return isNaN(date.getTime()) ? value : date;
+	}
+
+	return value;
+}
+
+function validateValue(constraints: ConstraintOptions, value: any, path: string, coerce: boolean): ValidationFailure[] {
+	let failures: ValidationFailure[] = [];
+	let displayName = path || 'value';
+	let fail = (message: string) => failures.push({ path, message: constraints.message ?? message });
+
+	if (value === undefined || value === null) {
+		if (constraints.required)
+			fail(`${displayName} is required`);
+		return failures;
+	}
+
+	let type = constraints.type;
+
+	if (type === Number) {
+		if (typeof value !== 'number' || isNaN(value)) {
+			fail(`${displayName} must be a number`);
+			return failures;
+		}
+	} else if (type === String) {
+		if (typeof value !== 'string') {
+			fail(`${displayName} must be a string`);
+			return failures;
+		}
+	} else if (type === Boolean) {
+		if (typeof value !== 'boolean') {
+			fail(`${displayName} must be a boolean`);
+			return failures;
+		}
+	} else if (type === Date) {
+		if (typeof value === 'string' || typeof value === 'number')
+			value = new Date(value);
+
+		if (!(value instanceof Date) || isNaN(value.getTime())) {
+			fail(`${displayName} must be a valid timestamp`);
+			return failures;
+		}
+	} else if (type === Array || constraints.items) {
+		if (!Array.isArray(value)) {
+			fail(`${displayName} must be an array`);
+			return failures;
+		}
+	} else if (type && !SCALAR_TYPES.includes(type)) {
+		if (typeof value !== 'object' || Array.isArray(value)) {
+			fail(`${displayName} must be an object`);
+			return failures;
+		}
+	}
+
+	if (constraints.min !== undefined && value < constraints.min)
+		fail(`${displayName} must be at least ${constraints.min}`);
+	if (constraints.max !== undefined && value > constraints.max)
+		fail(`${displayName} must be at most ${constraints.max}`);
+
+	if (typeof value === 'string') {
+		if (constraints.minLength !== undefined && value.length < constraints.minLength)
+			fail(`${displayName} must be at least ${constraints.minLength} characters long`);
+		if (constraints.maxLength !== undefined && value.length > constraints.maxLength)
+			fail(`${displayName} must be at most ${constraints.maxLength} characters long`);
+		if (constraints.pattern && !constraints.pattern.test(value))
+			fail(`${displayName} must match the pattern ${constraints.pattern}`);
+	}
+
+	if (constraints.enum && !constraints.enum.includes(value))
+		fail(`${displayName} must be one of ${constraints.enum.map(x => JSON.stringify(x)).join(', ')}`);
+
+	if (Array.isArray(value)) {
+		if (constraints.minItems !== undefined && value.length < constraints.minItems)
+			fail(`${displayName} must contain at least ${constraints.minItems} items`);
+		if (constraints.maxItems !== undefined && value.length > constraints.maxItems)
+			fail(`${displayName} must contain at most ${constraints.maxItems} items`);
+
+		if (constraints.items) {
+			for (let i = 0, max = value.length; i < max; ++i) {
+				if (coerce && typeof value[i] === 'string')
+					value[i] = coerceValue(constraints.items, value[i]);
+				failures.push(...validateValue({ type: constraints.items, required: true }, value[i], joinPath(path, i), coerce));
+			}
+		}
+	} else if (type && !SCALAR_TYPES.includes(type)) {
+		let properties = getConstrainedProperties(type);
+		for (let key of Object.keys(properties)) {
+			if (coerce && typeof value[key] === 'string')
+				value[key] = coerceValue(properties[key].type, value[key]);
+			failures.push(...validateValue(properties[key], value[key], joinPath(path, key), coerce));
+		}
+	}
+
+	return failures;
+}
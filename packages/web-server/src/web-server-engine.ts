@@ -139,8 +139,7 @@ export abstract class WebServerEngine {
 
 	sendJsonBody(routeEvent: WebEvent, body: any) {
 		routeEvent.response.setHeader('Content-Type', 'application/json; charset=utf-8');
-		routeEvent.response.write(JSON.stringify(body))
-		routeEvent.response.end();
+		routeEvent.response.end(JSON.stringify(body));
 	}
 
 	static default: Constructor<WebServerEngine> = null;
@@ -5,6 +5,12 @@ import * as tls from 'tls';
 import { WebServerEngine } from "./web-server-engine";
 import { Constructor } from "@alterior/runtime";
 import { MiddlewareProvider } from "./middleware";
+import { ResponseSerializer } from "./serializers";
+import { CorsOptions } from "./cors";
+import { CompressionOptions } from "./compression";
+import { MetricsOptions } from "./metrics";
+import { SessionOptions } from "./session";
+import { CsrfOptions } from "./csrf";
 
 type Protocol = 'h2'
 	| 'spdy/3.1'
@@ -13,7 +19,13 @@ type Protocol = 'h2'
 	| 'http/1.1'
 	| 'http/1.0';
 
-export type RequestReporter = (reportingEvent: 'middleware' | 'starting' | 'finished', event: WebEvent, source: string, logger: Logger) => void;
+/**
+ * The points during the handling of a request which are reported to the request reporter. WebSocket routes (see 
+ * `@Socket()`) report `connected` and `disconnected` instead of `starting` and `finished`.
+ */
+export type RequestReportingEvent = 'middleware' | 'starting' | 'finished' | 'connected' | 'disconnected';
+
+export type RequestReporter = (reportingEvent: RequestReportingEvent, event: WebEvent, source: string, logger: Logger) => void;
 export type RequestReporterFilter = (event: WebEvent, source: string) => boolean;
 export type ParameterDisplayFormatter = (event: WebEvent, value: any, forKey: string) => string;
 
@@ -117,6 +129,47 @@ export interface WebServerOptions {
 	 */
 	interceptors?: Interceptor[];
 
+	/**
+	 * Allow cross-origin requests (CORS) to all routes. Can be overridden by the `cors` option of controllers and 
+	 * routes. Preflight requests are answered automatically based on the routes which exist for the requested path.
+	 */
+	cors?: CorsOptions | boolean;
+
+	/**
+	 * Compress responses using `br`, `gzip` or `deflate` according to the `Accept-Encoding` header of the request.
+	 * Applies to all responses with a compressible content type (including streamed responses and server-sent 
+	 * events) which are larger than the threshold. See `CompressionOptions`.
+	 */
+	compression?: CompressionOptions | boolean;
+
+	/**
+	 * Record Prometheus metrics about the requests handled by routes (counts, durations, in-flight and hung requests, 
+	 * labelled by route path template) in the application's `MetricsRegistry`. Serve them by mounting 
+	 * `MetricsController`. See `MetricsOptions`.
+	 */
+	metrics?: MetricsOptions | boolean;
+
+	/**
+	 * Enable cookie-based sessions, accessed via `Session`. Session IDs are kept in a signed cookie, and the session 
+	 * data is kept in a `SessionStore`. See `SessionOptions`.
+	 */
+	session?: SessionOptions;
+
+	/**
+	 * Protect routes against cross-site request forgery (CSRF). A token is issued via the `XSRF-TOKEN` cookie, and 
+	 * requests using unsafe methods must send it via the `X-XSRF-TOKEN` header (as `HttpClientXsrfModule` of 
+	 * `@alterior/http` does), or are rejected with `403 Forbidden`. Controllers and routes can opt out using their 
+	 * `csrf` option. See `CsrfOptions`.
+	 */
+	csrf?: CsrfOptions | boolean;
+
+	/**
+	 * Additional serializers to use when responding with values returned from route methods. JSON, NDJSON, CSV, 
+	 * MessagePack and plain text are supported by default. A serializer registered for the same media type as a 
+	 * default serializer replaces it. See also the `produces` route option.
+	 */
+	serializers?: ResponseSerializer[];
+
 	/**
 	 * Whether or not to hide exception details from the web response output
 	 */
@@ -183,6 +236,12 @@ export interface WebServerOptions {
 	 */
 	hungRequestThreshold?: number;
 
+	/**
+	 * How long (in milliseconds) `WebServer.stop()` waits for in-flight requests and WebSocket connections to finish
+	 * before closing them forcibly. Defaults to 10000.
+	 */
+	shutdownTimeout?: number;
+
 	/**
 	 * Formatter function used when displaying parameters within logs
 	 */
@@ -0,0 +1,117 @@
+import { suite } from 'razmin';
+import { expect } from 'chai';
+import { Application } from '@alterior/runtime';
+import { Get, ServerSentEvent, Socket, WebEvent } from './metadata';
+import { WebService } from './service';
+import { WebConduit } from './web-conduit';
+import * as fetch from 'node-fetch';
+
+const WebSocket = require('ws');
+
+suite(describe => {
+	describe('WebServer.stop()', it => {
+		it('waits for in-flight requests to finish', async () => {
+			let entered: () => void;
+			let release: () => void;
+			let hasEntered = new Promise<void>(resolve => entered = resolve);
+			let released = new Promise<void>(resolve => release = resolve);
+			let readiness: boolean[] = [];
+
+			@WebService({ server: { port: 32591, silent: true } })
+			class FakeApp {
+				@Get('/slow')
+				async slow(event: WebEvent) {
+					readiness.push(event.server.ready);
+					entered();
+					await released;
+					readiness.push(event.server.ready);
+					return { done: true };
+				}
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true, shutdownSignals: false });
+			let response = fetch('http://localhost:32591/slow');
+
+			await hasEntered;
+
+			let stopped = false;
+			let stopping = app.stop().then(() => stopped = true);
+
+			await new Promise(resolve => setTimeout(resolve, 50));
+			expect(stopped).to.be.false;
+
+			release();
+
+			let result = await response;
+			expect(result.status).to.equal(200);
+			expect(result.headers.get('connection')).to.equal('close');
+			expect(await result.json()).to.eql({ done: true });
+
+			await stopping;
+			expect(readiness).to.eql([ true, false ]);
+
+			let error: any;
+			try {
+				await fetch('http://localhost:32591/slow');
+			} catch (e) {
+				error = e;
+			}
+
+			expect(error).to.exist;
+		});
+
+		it('ends event streams and closes WebSockets', async () => {
+			@WebService({ server: { port: 32592, silent: true } })
+			class FakeApp {
+				@Get('/events', { stream: 'sse' })
+				async *events(): AsyncIterable<ServerSentEvent> {
+					yield { event: 'greeting', data: 'hello' };
+					await new Promise(() => {});
+				}
+
+				@Socket('/socket')
+				socket(conduit: WebConduit) {
+				}
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true, shutdownSignals: false });
+
+			let socket = new WebSocket('ws://localhost:32592/socket');
+			let closeCode = new Promise<number>(resolve => socket.on('close', code => resolve(code)));
+			await new Promise(resolve => socket.on('open', resolve));
+
+			let events = await fetch('http://localhost:32592/events');
+			let body = events.text();
+
+			await app.stop();
+
+			expect(await closeCode).to.equal(1001);
+			expect(await body).to.equal(`event: greeting\ndata: "hello"\n\n`);
+		});
+
+		it('closes remaining connections once the deadline passes', async () => {
+			let entered: () => void;
+			let hasEntered = new Promise<void>(resolve => entered = resolve);
+
+			@WebService({ server: { port: 32593, silent: true, shutdownTimeout: 100 } })
+			class FakeApp {
+				@Get('/hang')
+				async hang() {
+					entered();
+					await new Promise(() => {});
+				}
+			}
+
+			let app = await Application.bootstrap(FakeApp, { silent: true, shutdownSignals: false });
+			let response = fetch('http://localhost:32593/hang').then(() => 'completed', () => 'failed');
+
+			await hasEntered;
+
+			let startedAt = Date.now();
+			await app.stop();
+
+			expect(Date.now() - startedAt).to.be.at.least(90);
+			expect(await response).to.equal('failed');
+		});
+	});
+});
@@ -5,17 +5,23 @@ import * as ws from 'ws';
 import { Injector, ReflectiveInjector, Module, Provider } from "@alterior/di";
 import { prepareMiddleware } from "./middleware";
 import { WebEvent } from "./metadata";
-import { RouteInstance, RouteDescription } from './route';
-import { ApplicationOptions, Application, AppOptionsAnnotation, AppOptions } from '@alterior/runtime';
+import { RouteInstance, RouteDescription, RouteTableEntry } from './route';
+import { ApplicationOptions, Application, AppOptionsAnnotation, AppOptions, MetricsRegistry, Tracer } from '@alterior/runtime';
 import { LogSeverity, Logger } from '@alterior/logging';
 import { WebServerEngine } from './web-server-engine';
-import { ParameterDisplayFormatter, RequestReporter, RequestReporterFilter, WebServerOptions } from './web-server-options';
+import { ParameterDisplayFormatter, RequestReporter, RequestReporterFilter, RequestReportingEvent, WebServerOptions } from './web-server-options';
 import { ServiceDescription } from './service-description';
 import { ServiceDescriptionRef } from './service-description-ref';
 import { WebConduit } from './web-conduit';
-import { ellipsize } from './utils';
+import { ellipsize, pathPattern } from './utils';
 import { HttpError } from '@alterior/common';
 import { HTTP_MESSAGES } from './http-messages';
+import { SerializerRegistry } from './serializers';
+import { applyPreflightHeaders } from './cors';
+import { compressionMiddleware, resolveCompressionOptions } from './compression';
+import { RequestMetrics, resolveMetricsOptions } from './metrics';
+import { resolveSessionStore, sessionMiddleware } from './session';
+import { csrfMiddleware, resolveCsrfOptions } from './csrf';
 
 const REPORTING_STATE = Symbol('Reporting state');
 
@@ -55,6 +61,13 @@ export class WebServer {
 			);
 		}
 
+		this._serializers = new SerializerRegistry(this.options.serializers);
+
+		let metrics = resolveMetricsOptions(this.options.metrics);
+		if (metrics)
+			this._requestMetrics = new RequestMetrics(this._injector.get(MetricsRegistry, null) ?? new MetricsRegistry(), metrics);
+
+		this._tracer = this._injector.get(Tracer, null) ?? new Tracer();
 		this.installGlobalMiddleware();
 		this._websockets = new ws.Server({ noServer: true });
 		this.requestReporter = options?.requestReporter ?? this.requestReporter;
@@ -64,6 +77,24 @@ export class WebServer {
 	private _injector: Injector;
 	readonly options: WebServerOptions;
 	private _websockets: ws.Server;
+	private _requestMetrics: RequestMetrics;
+
+	private _tracer: Tracer;
+
+	/**
+	 * The tracer used to trace the handling of requests. Configure where spans are sent by providing exporters via
+	 * `SPAN_EXPORTERS` (see `@alterior/runtime`).
+	 */
+	get tracer() {
+		return this._tracer;
+	}
+
+	/**
+	 * The metrics recorded about requests, when enabled via the `metrics` option.
+	 */
+	get requestMetrics() {
+		return this._requestMetrics;
+	}
 
 	/**
 	 * Websocket server instance. 
@@ -79,6 +110,42 @@ export class WebServer {
 	private _insecureHttpServer: http.Server;
 	get insecureHttpServer() { return this._insecureHttpServer; }
 
+	private _inFlight = new Set<http.ServerResponse>();
+	private _draining = false;
+	private _stopped: Promise<void>;
+	private _startStopping: () => void;
+	private _stopping = new Promise<void>(resolve => this._startStopping = resolve);
+
+	/**
+	 * True while the server is shutting down (see `stop()`).
+	 */
+	get draining() {
+		return this._draining;
+	}
+
+	/**
+	 * Whether the server is able to accept new requests. False before the server is started and once it begins 
+	 * shutting down, so that load balancers can stop routing traffic to it.
+	 */
+	get ready() {
+		return !!this._httpServer && !this._draining;
+	}
+
+	/**
+	 * Resolves when the server begins shutting down. Long-lived responses (such as streamed responses and event 
+	 * streams) end when this resolves.
+	 */
+	get stopping() {
+		return this._stopping;
+	}
+
+	/**
+	 * The number of requests which are currently being handled.
+	 */
+	get inFlightRequests() {
+		return this._inFlight.size;
+	}
+
 	private _serviceDescription: ServiceDescription;
 	private _engine: WebServerEngine;
 
@@ -86,6 +153,15 @@ export class WebServer {
 		return this._engine;
 	}
 
+	private _serializers: SerializerRegistry;
+
+	/**
+	 * The serializers used when responding with values returned from route methods.
+	 */
+	get serializers() {
+		return this._serializers;
+	}
+
 	private static _servers = new WeakMap<Object, WebServer>();
 
 	public static for(webService: any): WebServer {
@@ -171,6 +247,23 @@ export class WebServer {
 	 * application.
 	 */
 	private installGlobalMiddleware() {
+		let compression = resolveCompressionOptions(this.options.compression);
+		if (compression)
+			this.engine.addConnectMiddleware('/', compressionMiddleware(compression));
+
+		if (this.options.session) {
+			let store = resolveSessionStore(this.options.session, this.injector, this);
+			this.engine.addConnectMiddleware('/', sessionMiddleware(this.options.session, store, this.logger));
+		}
+
+		let csrf = resolveCsrfOptions(this.options.csrf);
+		if (csrf) {
+			if (csrf.mode === 'synchronizer' && !this.options.session)
+				throw new Error(`CSRF protection in synchronizer mode requires sessions (see the session server option)`);
+
+			this.engine.addConnectMiddleware('/', csrfMiddleware(csrf));
+		}
+
 		let middlewares = this.options.middleware || [];
 		for (let middleware of middlewares) {
 			if (middleware instanceof Array)
@@ -186,7 +279,17 @@ export class WebServer {
 	async start() {
 		if (this._httpServer)
 			return;
+
+		if (this._stopped) {
+			// Restarting after a previous stop
+			this._draining = false;
+			this._drained = null;
+			this._stopped = null;
+			this._stopping = new Promise<void>(resolve => this._startStopping = resolve);
+		}
+
 		this._httpServer = await this.engine.listen(this.options);
+		this.trackRequests(this._httpServer);
 
 		let isSecure = !!this.options.certificate || !!this.options.sniHandler;
 		if (isSecure && this.options.insecurePort && !this.engine.listenInsecurely) {
@@ -196,20 +299,109 @@ export class WebServer {
 			);
 		}
 
-		if (this.options.insecurePort)
+		if (this.options.insecurePort) {
 			this._insecureHttpServer = await this.engine.listenInsecurely(this.options);
+			this.trackRequests(this._insecureHttpServer);
+		}
 	}
 
 	/**
-	 * Stop the web server. The listening port will be closed.
-	 * @returns 
+	 * Keep track of the requests being handled by the given server, so that they can be waited for when stopping.
+	 */
+	private trackRequests(server: http.Server) {
+		server.on('request', (request: http.IncomingMessage, response: http.ServerResponse) => {
+			this._inFlight.add(response);
+
+			// Ask clients to reconnect (likely to another instance) rather than reuse the connection
+
+			if (this._draining && !response.headersSent)
+				response.setHeader('Connection', 'close');
+
+			response.once('close', () => {
+				this._inFlight.delete(response);
+				this.checkDrained();
+			});
+		});
+	}
+
+	private _drained: () => void;
+
+	private checkDrained() {
+		if (this._drained && this._inFlight.size === 0 && this._websockets.clients.size === 0)
+			this._drained();
+	}
+
+	/**
+	 * Stop the web server gracefully. New connections are no longer accepted, `ready` becomes false, streamed 
+	 * responses are ended and WebSocket connections are sent a close frame (`1001 Going Away`). Resolves once all 
+	 * in-flight requests and WebSocket connections have finished, or once the deadline (see the `shutdownTimeout` 
+	 * option) has passed, in which case the remaining connections are closed forcibly.
+	 * 
+	 * @param timeout Overrides the `shutdownTimeout` option
 	 */
-	stop() {
+	stop(timeout?: number): Promise<void> {
 		if (!this._httpServer)
-			return;
+			return this._stopped ?? Promise.resolve();
+
+		if (!this._stopped)
+			this._stopped = this.drain(timeout ?? this.options.shutdownTimeout ?? 10_000);
+
+		return this._stopped;
+	}
+
+	private async drain(timeout: number) {
+		let servers = [ this._httpServer, this._insecureHttpServer ].filter(x => x);
+
+		this._draining = true;
+		this._startStopping();
+
+		for (let response of this._inFlight) {
+			if (!response.headersSent)
+				response.setHeader('Connection', 'close');
+		}
+
+		let closed = Promise.all(servers.map(server => new Promise<void>(resolve => server.close(() => resolve()))));
+		for (let server of servers)
+			(<any>server).closeIdleConnections?.();
+
+		for (let socket of this._websockets.clients) {
+			socket.once('close', () => setImmediate(() => this.checkDrained()));
+			socket.close(1001, 'Server is shutting down');
+		}
+
+		let drained = new Promise<void>(resolve => {
+			this._drained = resolve;
+			this.checkDrained();
+		});
+
+		let deadline: ReturnType<typeof setTimeout>;
+		let timedOut = await Promise.race([
+			drained.then(() => false),
+			new Promise<boolean>(resolve => (deadline = setTimeout(() => resolve(true), timeout)).unref?.())
+		]);
+
+		clearTimeout(deadline);
+
+		if (timedOut) {
+			let remaining = this._inFlight.size + this._websockets.clients.size;
+			if (!this.options.silent)
+				this.logger.warning(`WebServer: Shutdown deadline reached, closing ${remaining} remaining connection(s)`);
+
+			for (let response of this._inFlight)
+				response.destroy();
+			for (let socket of this._websockets.clients)
+				socket.terminate();
+		}
+
+		// Any remaining connections are idle
+
+		for (let server of servers)
+			(<any>server).closeAllConnections?.();
+
+		await closed;
 
-		this._httpServer.close();
 		this._httpServer = null;
+		this._insecureHttpServer = null;
 	}
 
 	private requestReporter: RequestReporter = WebServer.DEFAULT_REQUEST_REPORTER;
@@ -267,7 +459,9 @@ export class WebServer {
 		this.requestReporter = reporter;
 	}
 
-	reportRequest(reportingEvent: 'middleware' | 'starting' | 'finished', event: WebEvent, source: string) {
+	reportRequest(reportingEvent: RequestReportingEvent, event: WebEvent, source: string) {
+		this._requestMetrics?.record(reportingEvent, event);
+
 		if (this.options.silent)
 			return;
 
@@ -336,7 +530,7 @@ export class WebServer {
 		);
 	};
 
-	public static DEFAULT_REQUEST_REPORTER: RequestReporter = (reportingEvent: 'middleware' | 'starting' | 'finished', event: WebEvent, source: string, logger: Logger) => {
+	public static DEFAULT_REQUEST_REPORTER: RequestReporter = (reportingEvent: RequestReportingEvent, event: WebEvent, source: string, logger: Logger) => {
 		let metadata = event.metadata[REPORTING_STATE] ??= { startedAt: Date.now(), state: 'running' };
 
 		let logRequest = () => {
@@ -399,6 +593,16 @@ export class WebServer {
 					severity = 'error';
 				
 				statusSuffix = ` » ${event.response.statusCode} ${event.response.statusMessage ?? HTTP_MESSAGES[event.response.statusCode]}`;
+			} else if (reportingEvent === 'connected') {
+				displayState = 'connected';
+			} else if (reportingEvent === 'disconnected') {
+				let close = event.metadata['socketClose'];
+
+				displayState = 'disconnected';
+				if (event.metadata['uncaughtError'])
+					severity = 'error';
+				if (close)
+					statusSuffix = ` » ${close.code}${close.reason ? ` ${close.reason}` : ``}`;
 			} else {
 				displayState = 'running';
 				if (state === 'long') {
@@ -455,6 +659,8 @@ export class WebServer {
 			clearTimeout(metadata.longTimeout);
 			clearTimeout(metadata.hungTimeout);
 			logRequest();
+		} else if (reportingEvent === 'connected' || reportingEvent === 'disconnected') {
+			logRequest();
 		}
 	}
 
@@ -539,7 +745,116 @@ export class WebServer {
 	 */
 	addRoute(definition: RouteDescription, method: string, path: string, handler: (event: WebEvent) => void, middleware = []) {
 		this.serviceDescription.routes.push(definition);
+		this.addEngineRoute(method, path, handler, middleware);
+	}
+
+	/**
+	 * Add the routes which are implied by the given routes (which must already be mounted): HEAD requests are handled 
+	 * by the GET route of each path, unless there is an explicit HEAD route. The paths of the routes are also recorded 
+	 * so that requests which do not match any route can be answered by `handleUnroutedRequest()`.
+	 * 
+	 * @param routeTable 
+	 */
+	addImplicitRoutes(routeTable: RouteTableEntry[]) {
+		let routesByPath = new Map<string, RouteInstance[]>();
+
+		for (let entry of routeTable) {
+			let path = entry.instance.mountedPath;
+			if (!routesByPath.has(path))
+				routesByPath.set(path, []);
+			routesByPath.get(path).push(entry.instance);
+		}
+
+		for (let [ path, routes ] of routesByPath) {
+			let methods = routes.map(x => x.definition.httpMethod.toUpperCase());
+			let getRoute = routes.find(x => x.definition.httpMethod.toUpperCase() === 'GET');
+
+			if (getRoute && !methods.includes('HEAD'))
+				this.addEngineRoute('HEAD', path, ev => getRoute.handle(ev));
+
+			this._routedPaths.push({ path, pattern: pathPattern(path), routes });
+		}
+	}
+
+	private _routedPaths: { path: string, pattern: RegExp, routes: RouteInstance[] }[] = [];
+
+	/**
+	 * Answer a request which did not match any route, but whose path is served by routes for other methods. OPTIONS 
+	 * requests are answered with the allowed methods (and CORS preflight headers when CORS is enabled), and requests 
+	 * using other methods are answered with `405 Method Not Allowed`. As this only happens once routing has failed, 
+	 * other routes which match the same path (ie `/users/me` and `/users/:id`) are never shadowed. Returns false when 
+	 * no route serves the path of the request, in which case the request should be answered with `404 Not Found`.
+	 * 
+	 * @param event
+	 */
+	handleUnroutedRequest(event: WebEvent): boolean {
+		let method = event.request.method.toUpperCase();
+		let path = event.request.url.split('?')[0];
+
+		if (method !== 'OPTIONS' && !WebServer.IMPLICIT_METHODS.includes(method))
+			return false;
+
+		let routes = this._routedPaths
+			.filter(x => x.pattern.test(path))
+			.flatMap(x => x.routes)
+		;
+
+		if (routes.length === 0)
+			return false;
+
+		let allowed = this.allowedMethods(routes.map(x => x.definition.httpMethod.toUpperCase()));
+		let source = `${method} ${path}`;
+
+		this.addRequestId(event);
+
+		if (method === 'OPTIONS') {
+			event.response.setHeader('Allow', allowed.join(', '));
+			applyPreflightHeaders(event, routes)
+				.then(() => {
+					event.response.statusCode = 204;
+					event.response.end();
+				})
+				.catch(e => this.handleError(e, event, undefined, source));
+			return true;
+		}
+
+		this.handleError(
+			new HttpError(405, {
+				error: 'method-not-allowed',
+				message: `The ${method} method is not allowed for this resource. Allowed methods: ${allowed.join(', ')}`
+			}, [
+				[ 'Allow', allowed.join(', ') ]
+			]),
+			event,
+			undefined,
+			source
+		);
+
+		return true;
+	}
+
+	/**
+	 * The methods which are answered with `405 Method Not Allowed` when a path has no route for them.
+	 */
+	static IMPLICIT_METHODS = [ 'GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE' ];
+
+	/**
+	 * Determine the methods allowed for a path which has routes with the given methods. HEAD is allowed when GET is,
+	 * and OPTIONS is always allowed.
+	 */
+	private allowedMethods(methods: string[]) {
+		let allowed = Array.from(new Set(methods));
+
+		if (allowed.includes('GET') && !allowed.includes('HEAD'))
+			allowed.splice(allowed.indexOf('GET') + 1, 0, 'HEAD');
+
+		if (!allowed.includes('OPTIONS'))
+			allowed.push('OPTIONS');
+
+		return allowed;
+	}
 
+	private addEngineRoute(method: string, path: string, handler: (event: WebEvent) => void, middleware = []) {
 		this.engine.addRoute(method, path, ev => {
 			this.addRequestId(ev);
 			this.logger.run(() => {
@@ -549,7 +864,15 @@ export class WebServer {
 	}
 
 	handleError(error: any, event: WebEvent, route: RouteInstance, source: string) {
-		if (error.constructor instanceof HttpError) {
+		if (this.options.onError)
+			this.options.onError(error, event, route, source);
+
+		if (this.options.handleError) {
+			this.options.handleError(error, event, route, source);
+			return;
+		}
+
+		if (error instanceof HttpError) {
 			let httpError = <HttpError>error;
 			event.response.statusCode = httpError.statusCode;
 			
@@ -563,14 +886,6 @@ export class WebServer {
 			return;
 		}
 
-		if (this.options.onError)
-			this.options.onError(error, event, route, source);
-
-		if (this.options.handleError) {
-			this.options.handleError(error, event, route, source);
-			return;
-		}
-
 		let response: any = {
 			message: 'An exception occurred while handling this request.'
 		};
@@ -27,6 +27,10 @@ export class WebServiceCompiler extends ServiceCompiler {
                 } else if (input.type === 'path') {
                     url = url.replace(new RegExp(`:${input.name}\\b`, 'g'), `\${param.name}`);
                     //mutators.push(`url = url.replace(/:${param.name}\\b/g, encodeURIComponent(${param.name}));`);
+                } else if (input.type === 'header') {
+                    mutators.push(`if (${param.name} !== undefined && ${param.name} !== null) request.headers['${input.name || param.name}'] = String(${param.name});`);
+                } else if (input.type === 'cookie') {
+                    mutators.push(`if (${param.name} !== undefined && ${param.name} !== null) cookies.push(\`${input.name || param.name}=\${encodeURIComponent(${param.name})}\`);`);
                 } else if (input.type === 'body') {
                     mutators.push(`request.body = JSON.stringify(${param.name})`);
                     mutators.push(`request.headers['content-type'] = 'application/json';`);
@@ -59,12 +63,16 @@ export class WebServiceCompiler extends ServiceCompiler {
         method.body = `
             let url = \`${url}\`;
             let queryParams = {};
+            let cookies : string[] = [];
             let request : RequestInit = { 
                 method: '${route.httpMethod}',
                 headers: {}
             };
             ${mutators.join("\n")}
 
+            if (cookies.length > 0)
+                request.headers['cookie'] = cookies.join('; ');
+
             url += \`?\${Object.keys(queryParams).map(key => \`\${encodeURIComponent(key)}=\${encodeURIComponent(queryParams[key])}\`).join('&')}\`;
             let response = await fetch(url, request);
             if (response.status >= 400)